@@ -0,0 +1,367 @@
+/**
+ * @file analyzerPipeline.ts
+ *
+ * 1. FILE PURPOSE
+ * This file runs the analyzers as a pipeline of plugins. Every analyzer (the
+ * built-in heuristic, package audit, LLM and reconciliation steps, and any
+ * custom analyzer loaded from a plugin module) implements the same `Analyzer`
+ * interface and is kept in one registry. Each one runs with its own timeout
+ * and error capture, so a failing analyzer (typically the LLM) only costs its
+ * own section: the pipeline returns the results of the others together with
+ * the status of every analyzer. Timeouts and cancellation interrupt an
+ * analyzer only while it awaits; synchronous work runs to completion.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - AnalyzerContext (Interface): What an analyzer receives: the project graph,
+ * the rules and options, the results of the analyzers that ran before it and
+ * an abort signal.
+ * - Analyzer (Interface): The interface every analyzer implements.
+ * - AnalyzerState (Type): `succeeded`, `failed`, `timedOut` or `skipped`.
+ * - AnalyzerStatus (Interface): How one analyzer went.
+ * - PipelineOptions (Interface): Which analyzers to run, a cancellation signal
+ * and a progress callback.
+ * - PipelineResult (Interface): The results by analyzer name, and the statuses.
+ * - DEFAULT_ANALYZER_TIMEOUT_MS (Constant): The timeout of an analyzer that does not set its own.
+ * - registry (Variable): The registered analyzers by name, built-ins first.
+ * - loadedPlugins (Variable): The resolved paths of the plugin modules already loaded.
+ *
+ * 3. FUNCTIONALITIES
+ * - registerAnalyzer(analyzer): Adds an analyzer to the registry.
+ * - listAnalyzers(): The registered analyzers, in registration order.
+ * - loadAnalyzerPlugins(specifiers): Imports plugin modules and registers their analyzers.
+ * - runAnalyzers(input, options): Runs the selected analyzers.
+ * - runWithTimeout(analyzer, context, cancelSignal): A private helper that runs one analyzer and records its status.
+ * - findDependencyCycles(analyzers): A private helper that finds the analyzers whose `dependsOn` loops back.
+ */
+
+import * as path from 'path';
+import { ProjectGraph } from '../core/parser';
+import { ArchitectureRule } from './architectureRules';
+import { HeuristicOptions } from './heuristicAnalyzer';
+import { LlmAnalysisOptions } from './llmAnalyzer';
+import { BUILTIN_ANALYZERS } from './builtinAnalyzers';
+
+export interface AnalyzerContext {
+  graph: ProjectGraph;
+  rules: ArchitectureRule[];
+  heuristicOptions: HeuristicOptions;
+  llmOptions: LlmAnalysisOptions;
+  results: Readonly<Record<string, unknown>>;
+  signal: AbortSignal;
+}
+
+export interface Analyzer<T = unknown> {
+  name: string;
+  description: string;
+  dependsOn?: string[];
+  timeoutMs?: number;
+  run(context: AnalyzerContext): T | Promise<T>;
+}
+
+export type AnalyzerState = 'succeeded' | 'failed' | 'timedOut' | 'skipped';
+
+export interface AnalyzerStatus {
+  name: string;
+  status: AnalyzerState;
+  durationMs: number;
+  error?: string;
+}
+
+export interface PipelineOptions {
+  only?: string[];
+  skip?: string[];
+  signal?: AbortSignal;
+  onProgress?: (name: string, state: AnalyzerState | 'running') => void;
+}
+
+export interface PipelineResult {
+  results: Record<string, unknown>;
+  statuses: AnalyzerStatus[];
+}
+
+export const DEFAULT_ANALYZER_TIMEOUT_MS = 120000;
+
+const registry = new Map<string, Analyzer>(BUILTIN_ANALYZERS.map((analyzer) => [analyzer.name, analyzer]));
+
+const loadedPlugins = new Set<string>();
+
+/**
+ * 1. FOR:
+ * Adding an analyzer to the pipeline.
+ *
+ * 2. TAKES:
+ * - analyzer: The `Analyzer`.
+ *
+ * 3. DOES:
+ * - Checks that it has a name and a `run` function, and that the name is not taken.
+ * - Throws an `Error` otherwise.
+ *
+ * 4. RETURNS:
+ * - (void)
+ */
+export function registerAnalyzer(analyzer: Analyzer): void {
+  if (!analyzer || typeof analyzer.name !== 'string' || analyzer.name === '' || typeof analyzer.run !== 'function') {
+    throw new Error('An analyzer needs a non-empty "name" and a "run" function.');
+  }
+  if (registry.has(analyzer.name)) {
+    throw new Error(`An analyzer named "${analyzer.name}" is already registered.`);
+  }
+  registry.set(analyzer.name, analyzer);
+}
+
+/**
+ * 1. FOR:
+ * Listing the pipeline.
+ *
+ * 2. TAKES:
+ * - (None)
+ *
+ * 3. DOES:
+ * - Reads the registry.
+ *
+ * 4. RETURNS:
+ * - The registered analyzers: the built-ins, then the custom ones in registration order.
+ */
+export function listAnalyzers(): Analyzer[] {
+  return [...registry.values()];
+}
+
+/**
+ * 1. FOR:
+ * Registering custom analyzers without changing the CLI or the server.
+ *
+ * 2. TAKES:
+ * - specifiers: Module paths (relative to the current directory) or package
+ * names, from `--plugin` or `ANALYSIS_PLUGINS`.
+ *
+ * 3. DOES:
+ * - Imports each module and registers the analyzer(s) it exports as
+ * `default`, `analyzer` or `analyzers` (one `Analyzer` or an array).
+ * - A module that is already loaded is skipped.
+ * - Throws an `Error` naming the module when it cannot be loaded or exports no analyzer.
+ *
+ * 4. RETURNS:
+ * - A `Promise` of the names of the registered analyzers.
+ */
+export async function loadAnalyzerPlugins(specifiers: string[]): Promise<string[]> {
+  const names: string[] = [];
+  for (const specifier of specifiers) {
+    const local = specifier.startsWith('.') || path.isAbsolute(specifier);
+    let resolved: string;
+    let exports: Record<string, unknown>;
+    try {
+      resolved = require.resolve(local ? path.resolve(specifier) : specifier, { paths: [process.cwd()] });
+      if (loadedPlugins.has(resolved)) {
+        continue;
+      }
+      exports = await import(resolved);
+    } catch (err) {
+      throw new Error(`Could not load analyzer plugin "${specifier}": ${(err as Error).message}`);
+    }
+
+    const exported = exports.analyzers ?? exports.analyzer ?? exports.default;
+    const analyzers = (Array.isArray(exported) ? exported : [exported]).filter(Boolean) as Analyzer[];
+    if (analyzers.length === 0) {
+      throw new Error(`Analyzer plugin "${specifier}" exports no analyzer (expected "default", "analyzer" or "analyzers").`);
+    }
+    analyzers.forEach((analyzer) => {
+      registerAnalyzer(analyzer);
+      names.push(analyzer.name);
+    });
+    loadedPlugins.add(resolved);
+    console.log(`Loaded analyzer plugin ${specifier}: ${analyzers.map((analyzer) => analyzer.name).join(', ')}.`);
+  }
+  return names;
+}
+
+/**
+ * 1. FOR:
+ * Running one analyzer in isolation.
+ *
+ * 2. TAKES:
+ * - analyzer: The `Analyzer`.
+ * - context: The `AnalyzerContext` without the signal.
+ * - cancelSignal: Optional signal that cancels the whole pipeline.
+ *
+ * 3. DOES:
+ * - Runs the analyzer against its timeout (`timeoutMs`, default
+ * `DEFAULT_ANALYZER_TIMEOUT_MS`) and the pipeline's cancellation. Either one
+ * aborts the analyzer's signal and discards its result (a cancelled analyzer
+ * counts as failed).
+ * - Both only take effect while the analyzer is awaiting something: a
+ * synchronous `run` (like the heuristic) blocks the event loop until it
+ * returns, so it always completes. It then succeeds, with a warning when it
+ * took longer than its timeout. Long-running analyzers should be async, yield
+ * regularly and check `signal.aborted`.
+ * - Catches any error and logs it.
+ *
+ * 4. RETURNS:
+ * - A `Promise` of the status and, on success, the result.
+ */
+async function runWithTimeout(
+  analyzer: Analyzer,
+  context: Omit<AnalyzerContext, 'signal'>,
+  cancelSignal?: AbortSignal
+): Promise<{ status: AnalyzerStatus; result?: unknown }> {
+  const controller = new AbortController();
+  const timeoutMs = analyzer.timeoutMs ?? DEFAULT_ANALYZER_TIMEOUT_MS;
+  const startedAt = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  let onCancel: (() => void) | undefined;
+  let timedOut = false;
+
+  try {
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+        reject(new Error(`timed out after ${timeoutMs} ms`));
+      }, timeoutMs);
+      onCancel = () => {
+        controller.abort();
+        reject(new Error('cancelled'));
+      };
+      cancelSignal?.addEventListener('abort', onCancel, { once: true });
+    });
+    const result = await Promise.race([
+      Promise.resolve().then(() => analyzer.run({ ...context, signal: controller.signal })),
+      timeout,
+    ]);
+    const durationMs = Date.now() - startedAt;
+    if (durationMs > timeoutMs) {
+      console.warn(
+        `Analyzer "${analyzer.name}" took ${durationMs} ms, over its ${timeoutMs} ms timeout, without yielding; it could not be interrupted.`
+      );
+    }
+    return { status: { name: analyzer.name, status: 'succeeded', durationMs }, result };
+  } catch (err) {
+    const error = (err as Error)?.message ?? String(err);
+    console.error(`Analyzer "${analyzer.name}" ${timedOut ? 'stopped' : 'failed'}: ${error}`);
+    return {
+      status: { name: analyzer.name, status: timedOut ? 'timedOut' : 'failed', durationMs: Date.now() - startedAt, error },
+    };
+  } finally {
+    clearTimeout(timer);
+    if (onCancel) {
+      cancelSignal?.removeEventListener('abort', onCancel);
+    }
+  }
+}
+
+/**
+ * 1. FOR:
+ * Guarding the pipeline against analyzers that wait for each other.
+ *
+ * 2. TAKES:
+ * - analyzers: The selected analyzers.
+ *
+ * 3. DOES:
+ * - Follows the `dependsOn` links between the selected analyzers and keeps
+ * every analyzer that can reach itself.
+ *
+ * 4. RETURNS:
+ * - The names of the analyzers on a dependency cycle.
+ */
+function findDependencyCycles(analyzers: Analyzer[]): Set<string> {
+  const dependencies = new Map(analyzers.map((analyzer) => [analyzer.name, analyzer.dependsOn ?? []]));
+  const cyclic = new Set<string>();
+
+  dependencies.forEach((_, name) => {
+    const seen = new Set<string>();
+    const pending = [...(dependencies.get(name) ?? [])];
+    while (pending.length > 0) {
+      const next = pending.pop()!;
+      if (next === name) {
+        cyclic.add(name);
+        return;
+      }
+      if (!seen.has(next) && dependencies.has(next)) {
+        seen.add(next);
+        pending.push(...(dependencies.get(next) ?? []));
+      }
+    }
+  });
+
+  return cyclic;
+}
+
+/**
+ * 1. FOR:
+ * Running the analysis pipeline.
+ *
+ * 2. TAKES:
+ * - input: The project graph, rules and options shared by all analyzers.
+ * - options: Optional `PipelineOptions`: `only` runs just the named
+ * analyzers, `skip` leaves some out, `signal` cancels the run and
+ * `onProgress` is told when each analyzer starts and how it ended.
+ *
+ * 3. DOES:
+ * - Starts every selected analyzer as soon as the analyzers in its `dependsOn`
+ * have succeeded, so independent analyzers (e.g. the package audit and the
+ * LLM) run concurrently.
+ * - Skips an analyzer whose dependency failed, was not selected or is
+ * unknown, the analyzers on a `dependsOn` cycle, and every analyzer that
+ * has not started when the run is cancelled.
+ * - Never throws for an analyzer's error: the caller decides which results it needs.
+ *
+ * 4. RETURNS:
+ * - A `Promise` of the `PipelineResult`: the results of the analyzers that
+ * succeeded, and one status per selected analyzer, in registration order.
+ */
+export async function runAnalyzers(
+  input: Omit<AnalyzerContext, 'results' | 'signal'>,
+  options: PipelineOptions = {}
+): Promise<PipelineResult> {
+  const selected = listAnalyzers().filter(
+    (analyzer) => (!options.only || options.only.includes(analyzer.name)) && !options.skip?.includes(analyzer.name)
+  );
+  const byName = new Map(selected.map((analyzer) => [analyzer.name, analyzer]));
+  const cyclic = findDependencyCycles(selected);
+  const results: Record<string, unknown> = {};
+  const runs = new Map<string, Promise<AnalyzerStatus>>();
+
+  const skipped = (name: string, error: string): AnalyzerStatus => {
+    console.warn(`Skipping analyzer "${name}": ${error}.`);
+    options.onProgress?.(name, 'skipped');
+    return { name, status: 'skipped', durationMs: 0, error };
+  };
+
+  const start = (analyzer: Analyzer): Promise<AnalyzerStatus> => {
+    const existing = runs.get(analyzer.name);
+    if (existing) {
+      return existing;
+    }
+
+    const run = (async (): Promise<AnalyzerStatus> => {
+      if (cyclic.has(analyzer.name)) {
+        return skipped(analyzer.name, 'its dependsOn list loops back to it');
+      }
+      for (const name of analyzer.dependsOn ?? []) {
+        const dependency = byName.get(name);
+        if (!dependency) {
+          return skipped(analyzer.name, `depends on "${name}", which ${registry.has(name) ? 'was not selected' : 'is not registered'}`);
+        }
+        const status = await start(dependency);
+        if (status.status !== 'succeeded') {
+          return skipped(analyzer.name, `depends on "${name}", which ${status.status === 'timedOut' ? 'timed out' : status.status}`);
+        }
+      }
+
+      if (options.signal?.aborted) {
+        return skipped(analyzer.name, 'the run was cancelled');
+      }
+      options.onProgress?.(analyzer.name, 'running');
+      const { status, result } = await runWithTimeout(analyzer, { ...input, results }, options.signal);
+      if (status.status === 'succeeded') {
+        results[analyzer.name] = result;
+      }
+      options.onProgress?.(analyzer.name, status.status);
+      return status;
+    })();
+    runs.set(analyzer.name, run);
+    return run;
+  };
+
+  const statuses = await Promise.all(selected.map((analyzer) => start(analyzer)));
+  return { results, statuses };
+}
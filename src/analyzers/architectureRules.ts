@@ -0,0 +1,320 @@
+/**
+ * @file architectureRules.ts
+ *
+ * 1. FILE PURPOSE
+ * This file implements a small declarative rules engine for architecture
+ * constraints ("`src/utils/**` must not import `src/core/**`"). Rules are
+ * read from a JSON config file and checked against every edge of the
+ * `DependencyMap`; each offending import is reported as a violation.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - RuleSeverity (Type): `error`, `warning` or `info`.
+ * - ArchitectureRule (Interface): One rule: the modules it applies to (`from`),
+ * the targets they may not import (`forbid`) and/or the only targets they
+ * may import (`allow`). Targets may reference the wildcards matched in
+ * `from` as `$1`, `$2`, ... (e.g. `src/features/$1/**` for "same feature").
+ * - RuleViolation (Interface): One offending edge, with its rule and position.
+ * - DEFAULT_RULES_FILE (Constant): The config file looked up in the project root.
+ * - SEVERITIES (Constant): The accepted severity values.
+ *
+ * 3. FUNCTIONALITIES
+ * - loadArchitectureRules(rootDir, rulesPath): Reads and validates the config file.
+ * - checkArchitectureRules(dependencyMap, rules, graph): Checks every edge.
+ * - globToRegExp(pattern): A private helper that compiles a glob (with `**`,
+ * `*`, `?` and `{a,b}`) into a regular expression with one capture group per wildcard.
+ * - matchGlobs(patterns, value, captures): A private helper that matches a value
+ * against several globs after substituting `$n` captures.
+ * - validateRule(rule, index): A private helper that checks the shape of one rule.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DependencyEdge, DependencyMap, ProjectGraph } from '../core/parser';
+import { edgeKey } from './symbolAnalysis';
+
+export type RuleSeverity = 'error' | 'warning' | 'info';
+
+export interface ArchitectureRule {
+  name: string;
+  description?: string;
+  severity: RuleSeverity;
+  from: string[];
+  allow?: string[];
+  forbid?: string[];
+}
+
+export interface RuleViolation {
+  rule: string;
+  description?: string;
+  severity: RuleSeverity;
+  from: string;
+  to: string;
+  line: number | null;
+  column: number | null;
+}
+
+export const DEFAULT_RULES_FILE = 'dependency-rules.json';
+
+const SEVERITIES: RuleSeverity[] = ['error', 'warning', 'info'];
+
+/**
+ * 1. FOR:
+ * Compiling a glob pattern into a regular expression.
+ *
+ * 2. TAKES:
+ * - pattern: A glob over root-relative, `/`-separated module paths.
+ *
+ * 3. DOES:
+ * - `**` matches any number of path segments (`**\/` may match none),
+ * `*` matches within one segment, `?` matches one character and `{a,b}`
+ * matches either alternative. Every other character is matched literally.
+ * - Wraps each `*` and `**` in a capture group, so rules can refer back to them.
+ *
+ * 4. RETURNS:
+ * - An anchored `RegExp`.
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let inGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        source += '((?:[^/]*/)*)';
+        i += 2;
+      } else {
+        source += '(.*)';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '([^/]*)';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      inGroup = true;
+    } else if (char === '}' && inGroup) {
+      source += ')';
+      inGroup = false;
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * 1. FOR:
+ * Matching a module path against a list of globs.
+ *
+ * 2. TAKES:
+ * - patterns: The globs to try.
+ * - value: The module path.
+ * - captures: The wildcard values captured from the rule's `from` match,
+ * substituted for `$1`, `$2`, ... before compiling.
+ *
+ * 3. DOES:
+ * - Substitutes captures (trailing `/` trimmed) and tests each glob.
+ *
+ * 4. RETURNS:
+ * - `true` if any pattern matches.
+ */
+function matchGlobs(patterns: string[], value: string, captures: string[] = []): boolean {
+  return patterns.some((pattern) => {
+    const substituted = pattern.replace(/\$(\d+)/g, (_, index: string) =>
+      (captures[Number(index) - 1] ?? '').replace(/\/$/, '')
+    );
+    return globToRegExp(substituted).test(value);
+  });
+}
+
+/**
+ * 1. FOR:
+ * Validating and normalizing one rule from the config file.
+ *
+ * 2. TAKES:
+ * - rule: The raw JSON value.
+ * - index: Its position in the `rules` array (for error messages).
+ *
+ * 3. DOES:
+ * - Requires `from` and at least one of `allow` / `forbid` (strings or string arrays).
+ * - Defaults `severity` to `error` and `name` to `rule-<index>`.
+ * - Throws an `Error` naming the rule and the problem when the shape is wrong.
+ *
+ * 4. RETURNS:
+ * - A normalized `ArchitectureRule`.
+ */
+function validateRule(rule: unknown, index: number): ArchitectureRule {
+  if (typeof rule !== 'object' || rule === null) {
+    throw new Error(`Rule #${index + 1} must be an object.`);
+  }
+
+  const raw = rule as Record<string, unknown>;
+  const name = typeof raw.name === 'string' ? raw.name : `rule-${index + 1}`;
+
+  const toList = (key: string): string[] | undefined => {
+    const value = raw[key];
+    if (value === undefined) return undefined;
+    if (typeof value === 'string') return [value];
+    if (Array.isArray(value) && value.every((entry) => typeof entry === 'string')) {
+      return value as string[];
+    }
+    throw new Error(`Rule "${name}": "${key}" must be a glob string or an array of globs.`);
+  };
+
+  const from = toList('from');
+  const allow = toList('allow');
+  const forbid = toList('forbid');
+
+  if (!from || from.length === 0) {
+    throw new Error(`Rule "${name}": "from" is required.`);
+  }
+  if (!allow && !forbid) {
+    throw new Error(`Rule "${name}": at least one of "allow" or "forbid" is required.`);
+  }
+
+  const severity = raw.severity ?? 'error';
+  if (!SEVERITIES.includes(severity as RuleSeverity)) {
+    throw new Error(`Rule "${name}": "severity" must be one of ${SEVERITIES.join(', ')}.`);
+  }
+
+  return {
+    name,
+    description: typeof raw.description === 'string' ? raw.description : undefined,
+    severity: severity as RuleSeverity,
+    from,
+    allow,
+    forbid,
+  };
+}
+
+/**
+ * 1. FOR:
+ * Loading the architecture rules of a project.
+ *
+ * 2. TAKES:
+ * - rootDir: The absolute project root.
+ * - rulesPath: Optional path to the rules file (relative to `rootDir`).
+ * Defaults to `DEFAULT_RULES_FILE`.
+ *
+ * 3. DOES:
+ * - Reads the JSON file (`{ "rules": [...] }`) and validates every rule.
+ * - A missing default file simply means "no rules"; a missing explicit file
+ * or an invalid file throws.
+ *
+ * 4. RETURNS:
+ * - A `Promise<ArchitectureRule[]>`.
+ */
+export async function loadArchitectureRules(
+  rootDir: string,
+  rulesPath?: string
+): Promise<ArchitectureRule[]> {
+  const file = path.resolve(rootDir, rulesPath ?? DEFAULT_RULES_FILE);
+
+  let content: string;
+  try {
+    content = await fs.readFile(file, 'utf-8');
+  } catch (err) {
+    if (!rulesPath && (err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw new Error(`Could not read architecture rules from ${file}: ${err}`);
+  }
+
+  let config: { rules?: unknown };
+  try {
+    config = JSON.parse(content);
+  } catch (err) {
+    throw new Error(`Architecture rules file ${file} is not valid JSON: ${err}`);
+  }
+
+  if (!Array.isArray(config.rules)) {
+    throw new Error(`Architecture rules file ${file} must contain a "rules" array.`);
+  }
+
+  console.log(`Loaded ${config.rules.length} architecture rule(s) from ${file}.`);
+  return config.rules.map(validateRule);
+}
+
+/**
+ * 1. FOR:
+ * Checking the dependency graph against the architecture rules.
+ *
+ * 2. TAKES:
+ * - dependencyMap: The dependency graph.
+ * - rules: The rules from `loadArchitectureRules`.
+ * - graph: Optional `ProjectGraph`, used to attach the line/column of the
+ * offending import.
+ *
+ * 3. DOES:
+ * - For every edge `from -> to` and every rule whose `from` glob matches the importer:
+ *   - if `to` matches `forbid` (and not `allow`), it is a violation;
+ *   - if the rule has only `allow`, any `to` not matching it is a violation.
+ * - Self-imports are ignored.
+ * - Positions come from the first edge of each importer/imported pair,
+ * indexed once by `edgeKey`.
+ *
+ * 4. RETURNS:
+ * - An array of `RuleViolation` objects, errors first, then by importer.
+ */
+export function checkArchitectureRules(
+  dependencyMap: DependencyMap,
+  rules: ArchitectureRule[],
+  graph?: ProjectGraph
+): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+  const edges = new Map<string, DependencyEdge>();
+  graph?.edges.forEach((edge) => {
+    if (!edges.has(edgeKey(edge.from, edge.to))) {
+      edges.set(edgeKey(edge.from, edge.to), edge);
+    }
+  });
+
+  for (const rule of rules) {
+    const fromPatterns = rule.from.map(globToRegExp);
+
+    for (const [from, dependencies] of dependencyMap.entries()) {
+      const match = fromPatterns.map((pattern) => pattern.exec(from)).find(Boolean);
+      if (!match) {
+        continue;
+      }
+      const captures = match.slice(1);
+
+      for (const to of dependencies) {
+        if (to === from) {
+          continue;
+        }
+
+        const allowed = rule.allow ? matchGlobs(rule.allow, to, captures) : false;
+        const forbidden = rule.forbid
+          ? matchGlobs(rule.forbid, to, captures) && !allowed
+          : !allowed;
+
+        if (forbidden) {
+          const edge = edges.get(edgeKey(from, to));
+          violations.push({
+            rule: rule.name,
+            description: rule.description,
+            severity: rule.severity,
+            from,
+            to,
+            line: edge?.line ?? null,
+            column: edge?.column ?? null,
+          });
+        }
+      }
+    }
+  }
+
+  return violations.sort(
+    (a, b) =>
+      SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity) ||
+      a.from.localeCompare(b.from) ||
+      a.to.localeCompare(b.to)
+  );
+}
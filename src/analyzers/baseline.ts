@@ -0,0 +1,214 @@
+/**
+ * @file baseline.ts
+ *
+ * 1. FILE PURPOSE
+ * This file implements the baseline ("ratchet") mode. The current cycles and
+ * hubs are written to a baseline file committed with the project; later runs
+ * are compared against it, so only new cycles, new hubs and hubs that gained
+ * importers fail the build, while findings that have been fixed are reported
+ * so the baseline can be tightened. Cycles are tracked by their cyclic edges
+ * (the imports inside a strongly connected component) rather than by the
+ * listed cycles: the listed cycles depend on `--max-cycles` and
+ * `--no-cycle-enumeration`, the edges do not. A new cycle always brings at
+ * least one new cyclic edge, and a cyclic edge disappears only when no cycle
+ * runs through it any more.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - Baseline (Interface): The content of the baseline file.
+ * - BaselineComparison (Interface): The differences between a run and the baseline.
+ * - DEFAULT_BASELINE_FILE (Constant): The baseline file looked up in the project root.
+ * - BASELINE_VERSION (Constant): The file format version.
+ *
+ * 3. FUNCTIONALITIES
+ * - createBaseline(heuristicResult, dependencyMap): Snapshots the current findings.
+ * - loadBaseline(rootDir, baselinePath): Reads a baseline file.
+ * - saveBaseline(rootDir, baseline, baselinePath): Writes a baseline file.
+ * - compareWithBaseline(heuristicResult, dependencyMap, baseline): Computes what is new and what was fixed.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DependencyMap } from '../core/parser';
+import { HeuristicAnalysisResult } from './heuristicAnalyzer';
+import { findCycleEdges } from './cycleAnalysis';
+import { findImportPath } from './graphQueries';
+
+export interface Baseline {
+  version: number;
+  cycleEdges: string[];
+  hubs: {
+    module: string;
+    importerCount: number;
+  }[];
+}
+
+export interface BaselineComparison {
+  newCycleEdges: { edge: string; cycle: string }[];
+  fixedCycleEdges: string[];
+  newHubs: { module: string; importerCount: number }[];
+  grownHubs: { module: string; baselineCount: number; importerCount: number }[];
+  fixedHubs: { module: string; baselineCount: number }[];
+}
+
+export const DEFAULT_BASELINE_FILE = 'dependency-baseline.json';
+
+const BASELINE_VERSION = 2;
+
+/**
+ * 1. FOR:
+ * Snapshotting the findings that the ratchet tracks.
+ *
+ * 2. TAKES:
+ * - heuristicResult: The heuristic report.
+ * - dependencyMap: The dependency graph it was computed from.
+ *
+ * 3. DOES:
+ * - Records the cyclic edges (`findCycleEdges` from `cycleAnalysis.ts`) and every hub with its importer count.
+ * - Sorts both lists and leaves out any timestamp, so the committed file only
+ * changes when findings change.
+ *
+ * 4. RETURNS:
+ * - A `Baseline`.
+ */
+export function createBaseline(heuristicResult: HeuristicAnalysisResult, dependencyMap: DependencyMap): Baseline {
+  return {
+    version: BASELINE_VERSION,
+    cycleEdges: findCycleEdges(dependencyMap),
+    hubs: heuristicResult.tightlyCoupledModules
+      .map((hub) => ({ module: hub.module, importerCount: hub.importedBy.length }))
+      .sort((a, b) => a.module.localeCompare(b.module)),
+  };
+}
+
+/**
+ * 1. FOR:
+ * Reading the baseline file.
+ *
+ * 2. TAKES:
+ * - rootDir: The absolute project root.
+ * - baselinePath: Optional path relative to `rootDir` (default `DEFAULT_BASELINE_FILE`).
+ *
+ * 3. DOES:
+ * - Reads and parses the file and checks its version and shape; throws an
+ * `Error` naming the file when it is missing or invalid.
+ * - Converts a version 1 baseline (which listed cycles) to the edges of its
+ * cycles, with a warning: cyclic edges it missed because of the enumeration
+ * cap count as new until the baseline is updated.
+ *
+ * 4. RETURNS:
+ * - A `Promise<Baseline>`.
+ */
+export async function loadBaseline(rootDir: string, baselinePath?: string): Promise<Baseline> {
+  const file = path.resolve(rootDir, baselinePath ?? DEFAULT_BASELINE_FILE);
+
+  let baseline: Baseline & { cycles?: string[] };
+  try {
+    baseline = JSON.parse(await fs.readFile(file, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Could not read baseline from ${file}: ${err}`);
+  }
+
+  if (baseline.version === 1 && Array.isArray(baseline.cycles)) {
+    console.warn(`Baseline file ${file} lists cycles (version 1); run \`check --update-baseline\` to store its cyclic edges.`);
+    baseline = {
+      version: BASELINE_VERSION,
+      cycleEdges: [
+        ...new Set(
+          baseline.cycles.flatMap((cycle) => {
+            const modules = cycle.split(' -> ');
+            return modules.slice(1).map((to, index) => `${modules[index]} -> ${to}`);
+          })
+        ),
+      ].sort(),
+      hubs: baseline.hubs,
+    };
+  }
+
+  if (baseline.version !== BASELINE_VERSION || !Array.isArray(baseline.cycleEdges) || !Array.isArray(baseline.hubs)) {
+    throw new Error(`Baseline file ${file} is not a version ${BASELINE_VERSION} baseline.`);
+  }
+
+  console.log(
+    `Loaded baseline from ${file} (${baseline.cycleEdges.length} cyclic import(s), ${baseline.hubs.length} hub(s)).`
+  );
+  return { version: baseline.version, cycleEdges: baseline.cycleEdges, hubs: baseline.hubs };
+}
+
+/**
+ * 1. FOR:
+ * Writing the baseline file.
+ *
+ * 2. TAKES:
+ * - rootDir: The absolute project root.
+ * - baseline: The `Baseline` to write.
+ * - baselinePath: Optional path relative to `rootDir` (default `DEFAULT_BASELINE_FILE`).
+ *
+ * 3. DOES:
+ * - Writes the baseline as indented JSON with a trailing newline.
+ *
+ * 4. RETURNS:
+ * - A `Promise<string>` with the absolute path written.
+ */
+export async function saveBaseline(
+  rootDir: string,
+  baseline: Baseline,
+  baselinePath?: string
+): Promise<string> {
+  const file = path.resolve(rootDir, baselinePath ?? DEFAULT_BASELINE_FILE);
+  await fs.writeFile(file, `${JSON.stringify(baseline, null, 2)}\n`, 'utf-8');
+  return file;
+}
+
+/**
+ * 1. FOR:
+ * Comparing a run against the baseline.
+ *
+ * 2. TAKES:
+ * - heuristicResult: The heuristic report of the current run.
+ * - dependencyMap: The dependency graph of the current run.
+ * - baseline: The `Baseline` from `loadBaseline`.
+ *
+ * 3. DOES:
+ * - Cycles: cyclic edges in the run but not in the baseline are new, each
+ * shown with the shortest cycle through it; cyclic edges in the baseline but
+ * not in the run are fixed.
+ * - Hubs: a hub missing from the baseline is new; a hub with more importers
+ * than recorded has grown; a baseline hub that is no longer a hub is fixed.
+ *
+ * 4. RETURNS:
+ * - A `BaselineComparison` (every list sorted).
+ */
+export function compareWithBaseline(
+  heuristicResult: HeuristicAnalysisResult,
+  dependencyMap: DependencyMap,
+  baseline: Baseline
+): BaselineComparison {
+  const current = createBaseline(heuristicResult, dependencyMap);
+  const baselineEdges = new Set(baseline.cycleEdges);
+  const currentEdges = new Set(current.cycleEdges);
+  const baselineHubs = new Map(baseline.hubs.map((hub) => [hub.module, hub.importerCount]));
+  const currentHubs = new Map(current.hubs.map((hub) => [hub.module, hub.importerCount]));
+
+  return {
+    newCycleEdges: current.cycleEdges
+      .filter((edge) => !baselineEdges.has(edge))
+      .map((edge) => {
+        const [from, to] = edge.split(' -> ');
+        const cycle = [from, ...(findImportPath(dependencyMap, to, from) ?? [to])];
+        return { edge, cycle: cycle.join(' -> ') };
+      }),
+    fixedCycleEdges: [...baselineEdges].filter((edge) => !currentEdges.has(edge)).sort(),
+    newHubs: current.hubs.filter((hub) => !baselineHubs.has(hub.module)),
+    grownHubs: current.hubs
+      .filter((hub) => baselineHubs.has(hub.module) && hub.importerCount > baselineHubs.get(hub.module)!)
+      .map((hub) => ({
+        module: hub.module,
+        baselineCount: baselineHubs.get(hub.module)!,
+        importerCount: hub.importerCount,
+      })),
+    fixedHubs: baseline.hubs
+      .filter((hub) => !currentHubs.has(hub.module))
+      .map((hub) => ({ module: hub.module, baselineCount: hub.importerCount }))
+      .sort((a, b) => a.module.localeCompare(b.module)),
+  };
+}
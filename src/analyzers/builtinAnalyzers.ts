@@ -0,0 +1,79 @@
+/**
+ * @file builtinAnalyzers.ts
+ *
+ * 1. FILE PURPOSE
+ * This file wraps the analyses the tool ships with as pipeline `Analyzer`s
+ * (see `analyzerPipeline.ts`), so the CLI and the server run them the same
+ * way as custom analyzers. Each wrapper only adapts the shared context to
+ * the analysis function it calls.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - LLM_ANALYZER_TIMEOUT_MS (Constant): The LLM's pipeline timeout, long
+ * enough for a chunked analysis with repairs.
+ * - heuristicAnalyzer (Constant): `heuristic`, the programmatic graph analysis.
+ * - packageAuditAnalyzer (Constant): `packageAudit`, the package.json audit.
+ * - llmAnalyzer (Constant): `llm`, the LLM analysis; it uses the heuristic
+ * per-edge symbols, stops between requests once its signal is aborted and
+ * fails when the LLM gives no usable answer.
+ * - reconciliationAnalyzer (Constant): `reconciliation`, the cross-check of the
+ * LLM findings against the graph and the heuristics.
+ * - BUILTIN_ANALYZERS (Constant): The built-in analyzers, in report order.
+ *
+ * 3. FUNCTIONALITIES
+ * - None (analyzer definitions only).
+ */
+
+import { Analyzer } from './analyzerPipeline';
+import { analyzeHeuristically, HeuristicAnalysisResult } from './heuristicAnalyzer';
+import { auditPackages, PackageAuditResult } from './packageAudit';
+import { analyzeDependencies, AnalysisResult as LlmAnalysisResult } from './llmAnalyzer';
+import { reconcileFindings, FindingReconciliation } from './findingReconciliation';
+
+const LLM_ANALYZER_TIMEOUT_MS = 900000;
+
+export const heuristicAnalyzer: Analyzer<HeuristicAnalysisResult> = {
+  name: 'heuristic',
+  description: 'Cycles, hubs, coupling metrics, architecture rules, layers and symbols',
+  run: ({ graph, rules, heuristicOptions }) =>
+    analyzeHeuristically(graph.dependencyMap, { ...heuristicOptions, graph, rules }),
+};
+
+export const packageAuditAnalyzer: Analyzer<PackageAuditResult> = {
+  name: 'packageAudit',
+  description: 'Third-party packages compared with package.json',
+  run: ({ graph }) => auditPackages(graph),
+};
+
+export const llmAnalyzer: Analyzer<LlmAnalysisResult> = {
+  name: 'llm',
+  description: 'Semantic analysis of the graph by the configured LLM',
+  dependsOn: ['heuristic'],
+  timeoutMs: LLM_ANALYZER_TIMEOUT_MS,
+  run: async ({ graph, results, llmOptions, signal }) => {
+    const heuristic = results.heuristic as HeuristicAnalysisResult;
+    const result = await analyzeDependencies(graph.dependencyMap, heuristic.edgeSymbols, { ...llmOptions, signal });
+    if (!result) {
+      throw new Error('no usable LLM answer (see the log above)');
+    }
+    return result;
+  },
+};
+
+export const reconciliationAnalyzer: Analyzer<FindingReconciliation> = {
+  name: 'reconciliation',
+  description: 'LLM findings checked against the graph and the heuristic findings',
+  dependsOn: ['heuristic', 'llm'],
+  run: ({ graph, results }) =>
+    reconcileFindings(
+      graph.dependencyMap,
+      results.heuristic as HeuristicAnalysisResult,
+      results.llm as LlmAnalysisResult
+    ),
+};
+
+export const BUILTIN_ANALYZERS: Analyzer[] = [
+  heuristicAnalyzer,
+  packageAuditAnalyzer,
+  llmAnalyzer,
+  reconciliationAnalyzer,
+];
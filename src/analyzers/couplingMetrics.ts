@@ -0,0 +1,227 @@
+/**
+ * @file couplingMetrics.ts
+ *
+ * 1. FILE PURPOSE
+ * This file computes Robert C. Martin's package metrics for every module and
+ * every directory of the dependency graph: afferent coupling (Ca), efferent
+ * coupling (Ce), instability (I), abstractness (A) and distance from the main
+ * sequence (D). They make "zone of pain" modules (stable and concrete, such
+ * as a utility everything depends on) visible and trackable over time.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - MainSequenceZone (Type): Where a module sits relative to the main sequence.
+ * - CouplingMetrics (Interface): The metric values shared by modules and directories.
+ * - ModuleMetrics / DirectoryMetrics (Interfaces): Per-module and per-directory rows.
+ * - CouplingMetricsResult (Interface): The full metrics report.
+ * - DISTANCE_THRESHOLD (Constant): The distance above which a module is
+ * considered off the main sequence.
+ * - ABSTRACT_EXPORT_KINDS (Constant): Export kinds counted as abstract.
+ *
+ * 3. FUNCTIONALITIES
+ * - computeCouplingMetrics(dependencyMap, exports): The main public function.
+ * - buildMetrics(afferent, efferent, abstractCount, exportCount): A private
+ * helper that derives I, A, D and the zone from the raw counts.
+ */
+
+import * as path from 'path';
+import { DependencyMap } from '../core/parser';
+import { ExportKind, ExtractedExport } from '../core/importExtractor';
+
+export type MainSequenceZone =
+  | 'zone-of-pain'
+  | 'zone-of-uselessness'
+  | 'main-sequence'
+  | 'isolated';
+
+export interface CouplingMetrics {
+  afferentCoupling: number;
+  efferentCoupling: number;
+  instability: number;
+  abstractness: number;
+  distance: number;
+  zone: MainSequenceZone;
+}
+
+export interface ModuleMetrics extends CouplingMetrics {
+  module: string;
+}
+
+export interface DirectoryMetrics extends CouplingMetrics {
+  directory: string;
+  moduleCount: number;
+}
+
+export interface CouplingMetricsResult {
+  modules: ModuleMetrics[];
+  directories: DirectoryMetrics[];
+}
+
+const DISTANCE_THRESHOLD = 0.5;
+
+const ABSTRACT_EXPORT_KINDS: ExportKind[] = ['interface', 'type', 'abstract-class'];
+
+/**
+ * 1. FOR:
+ * Deriving the Martin metrics from raw counts.
+ *
+ * 2. TAKES:
+ * - afferent: Ca, the number of outside modules that depend on this unit.
+ * - efferent: Ce, the number of outside modules this unit depends on.
+ * - abstractCount: Exported interfaces, type aliases and abstract classes.
+ * - exportCount: All exports whose kind is known (re-exports excluded).
+ *
+ * 3. DOES:
+ * - I = Ce / (Ca + Ce), or 0 for a unit with no couplings.
+ * - A = abstractCount / exportCount, or 0 when nothing is exported.
+ * - D = |A + I - 1|, or 0 for a unit with no couplings.
+ * - Classifies the unit: off the main sequence (D > DISTANCE_THRESHOLD) with
+ * A + I < 1 is the zone of pain, with A + I > 1 the zone of uselessness.
+ * A unit with no couplings at all is `isolated`: its instability is undefined,
+ * so it gets I = 0 and D = 0 and is not ranked among the worst offenders.
+ * - Rounds the ratios to two decimals for readable reports.
+ *
+ * 4. RETURNS:
+ * - A `CouplingMetrics` object.
+ */
+function buildMetrics(
+  afferent: number,
+  efferent: number,
+  abstractCount: number,
+  exportCount: number
+): CouplingMetrics {
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  const isolated = afferent + efferent === 0;
+  const instability = isolated ? 0 : efferent / (afferent + efferent);
+  const abstractness = exportCount === 0 ? 0 : abstractCount / exportCount;
+  const distance = isolated ? 0 : Math.abs(abstractness + instability - 1);
+
+  let zone: MainSequenceZone = 'main-sequence';
+  if (isolated) {
+    zone = 'isolated';
+  } else if (distance > DISTANCE_THRESHOLD) {
+    zone = abstractness + instability < 1 ? 'zone-of-pain' : 'zone-of-uselessness';
+  }
+
+  return {
+    afferentCoupling: afferent,
+    efferentCoupling: efferent,
+    instability: round(instability),
+    abstractness: round(abstractness),
+    distance: round(distance),
+    zone,
+  };
+}
+
+/**
+ * 1. FOR:
+ * Computing per-module and per-directory coupling metrics.
+ *
+ * 2. TAKES:
+ * - dependencyMap: The dependency graph.
+ * - exports: Optional exports per module (from the parser's AST pass). Without
+ * them, abstractness is 0 everywhere.
+ *
+ * 3. DOES:
+ * - 1. Builds the set of importers (Ca) and dependencies (Ce) of every module.
+ * - 2. Counts abstract exports (`ABSTRACT_EXPORT_KINDS`) and known exports.
+ * - 3. Computes the module rows with `buildMetrics`.
+ * - 4. Groups modules by directory; a directory's Ca/Ce only count modules
+ * outside the directory, and its abstractness pools its modules' exports.
+ * - 5. Sorts both lists by distance (worst first), then by name.
+ *
+ * 4. RETURNS:
+ * - A `CouplingMetricsResult`.
+ */
+export function computeCouplingMetrics(
+  dependencyMap: DependencyMap,
+  exports: Map<string, ExtractedExport[]> = new Map()
+): CouplingMetricsResult {
+  const importers = new Map<string, Set<string>>();
+  const dependencies = new Map<string, Set<string>>();
+  const ensure = (map: Map<string, Set<string>>, key: string) => {
+    const set = map.get(key) ?? new Set<string>();
+    map.set(key, set);
+    return set;
+  };
+
+  for (const [module, deps] of dependencyMap.entries()) {
+    ensure(importers, module);
+    ensure(dependencies, module);
+    for (const dep of deps) {
+      if (dep === module) {
+        continue;
+      }
+      ensure(dependencies, module).add(dep);
+      ensure(importers, dep).add(module);
+      ensure(dependencies, dep);
+    }
+  }
+
+  const exportCounts = (module: string) => {
+    const known = (exports.get(module) ?? []).filter((entry) => entry.kind !== 're-export');
+    return {
+      abstractCount: known.filter((entry) => ABSTRACT_EXPORT_KINDS.includes(entry.kind)).length,
+      exportCount: known.length,
+    };
+  };
+
+  const byDistance = <T extends CouplingMetrics>(name: (row: T) => string) => (a: T, b: T) =>
+    b.distance - a.distance || name(a).localeCompare(name(b));
+
+  const modules: ModuleMetrics[] = [...importers.keys()]
+    .map((module) => {
+      const { abstractCount, exportCount } = exportCounts(module);
+      return {
+        module,
+        ...buildMetrics(
+          importers.get(module)!.size,
+          dependencies.get(module)!.size,
+          abstractCount,
+          exportCount
+        ),
+      };
+    })
+    .sort(byDistance((row) => row.module));
+
+  const directoryMembers = new Map<string, string[]>();
+  for (const module of importers.keys()) {
+    const directory = path.posix.dirname(module);
+    const members = directoryMembers.get(directory);
+    if (members) {
+      members.push(module);
+    } else {
+      directoryMembers.set(directory, [module]);
+    }
+  }
+
+  const directories: DirectoryMetrics[] = [...directoryMembers.entries()]
+    .map(([directory, members]) => {
+      const inside = new Set(members);
+      const outsideImporters = new Set<string>();
+      const outsideDependencies = new Set<string>();
+      let abstractCount = 0;
+      let exportCount = 0;
+
+      for (const member of members) {
+        importers.get(member)!.forEach((importer) => {
+          if (!inside.has(importer)) outsideImporters.add(importer);
+        });
+        dependencies.get(member)!.forEach((dep) => {
+          if (!inside.has(dep)) outsideDependencies.add(dep);
+        });
+        const counts = exportCounts(member);
+        abstractCount += counts.abstractCount;
+        exportCount += counts.exportCount;
+      }
+
+      return {
+        directory,
+        moduleCount: members.length,
+        ...buildMetrics(outsideImporters.size, outsideDependencies.size, abstractCount, exportCount),
+      };
+    })
+    .sort(byDistance((row) => row.directory));
+
+  return { modules, directories };
+}
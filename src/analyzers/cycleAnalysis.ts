@@ -0,0 +1,445 @@
+/**
+ * @file cycleAnalysis.ts
+ *
+ * 1. FILE PURPOSE
+ * This file provides the graph algorithms behind circular-dependency
+ * detection. Cycles are found per strongly connected component (SCC): every
+ * tangled cluster of modules is reported exactly once with its members, and
+ * the elementary cycles inside each cluster can optionally be enumerated.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - StronglyConnectedComponent (Interface): One tangled cluster of modules.
+ * - CycleAnalysisOptions (Interface): Controls cycle enumeration.
+ * - CycleAnalysisResult (Interface): The components and the cycles found in them.
+ * - DEFAULT_MAX_CYCLES_PER_COMPONENT (Constant): The default enumeration cap.
+ *
+ * 3. FUNCTIONALITIES
+ * - analyzeCycles(dependencyMap, options): The main public function. Finds
+ * all SCCs and their cycles.
+ * - findStronglyConnectedComponents(dependencyMap): Tarjan's algorithm
+ * (iterative, so deep graphs cannot overflow the call stack).
+ * - enumerateElementaryCycles(dependencyMap, members, maxCycles): Johnson's
+ * algorithm restricted to one component, stopping at `maxCycles`.
+ * - findShortestCycle(dependencyMap, members): A BFS used when enumeration
+ * is turned off, to give each component one representative cycle.
+ * - findCycleEdges(dependencyMap): Lists the imports that lie on a cycle, the
+ * enumeration-independent description of the cycles used by the baseline and the graph diff.
+ * - canonicalizeCycle(path) / cycleKey(path): Put cycle paths in a stable
+ * form so the same cycle is never listed twice, whatever node it started at.
+ */
+
+import { DependencyMap } from '../core/parser';
+
+export interface StronglyConnectedComponent {
+  members: string[];
+  cycleCount: number;
+  truncated: boolean;
+}
+
+export interface CycleAnalysisOptions {
+  enumerateCycles?: boolean;
+  maxCyclesPerComponent?: number;
+}
+
+export interface CycleAnalysisResult {
+  components: StronglyConnectedComponent[];
+  cycles: { path: string[] }[];
+}
+
+export const DEFAULT_MAX_CYCLES_PER_COMPONENT = 100;
+
+/**
+ * 1. FOR:
+ * Giving a cycle a single, stable representation.
+ *
+ * 2. TAKES:
+ * - path: A cycle, either closed (`[a, b, a]`) or open (`[a, b]`).
+ *
+ * 3. DOES:
+ * - Drops the closing node, rotates the cycle so it starts at its
+ * alphabetically smallest module, and closes it again.
+ *
+ * 4. RETURNS:
+ * - The canonical closed path, e.g. `[a, b, a]` for both `[b, a, b]` and `[a, b]`.
+ */
+export function canonicalizeCycle(path: string[]): string[] {
+  const open =
+    path.length > 1 && path[0] === path[path.length - 1] ? path.slice(0, -1) : [...path];
+  if (open.length === 0) {
+    return [];
+  }
+
+  let start = 0;
+  open.forEach((node, index) => {
+    if (node < open[start]) {
+      start = index;
+    }
+  });
+
+  const rotated = [...open.slice(start), ...open.slice(0, start)];
+  return [...rotated, rotated[0]];
+}
+
+/**
+ * 1. FOR:
+ * Producing a string key to compare or store cycles.
+ *
+ * 2. TAKES:
+ * - path: A cycle path in any rotation.
+ *
+ * 3. DOES:
+ * - Canonicalizes the path and joins it with ` -> `.
+ *
+ * 4. RETURNS:
+ * - The key string.
+ */
+export function cycleKey(path: string[]): string {
+  return canonicalizeCycle(path).join(' -> ');
+}
+
+/**
+ * 1. FOR:
+ * Listing every node of the graph (importers and imported modules) in a
+ * deterministic order, so results do not depend on Map insertion order.
+ *
+ * 2. TAKES:
+ * - dependencyMap: The dependency graph.
+ *
+ * 3. DOES:
+ * - Collects keys and values and sorts them.
+ *
+ * 4. RETURNS:
+ * - A sorted array of node names.
+ */
+function collectNodes(dependencyMap: DependencyMap): string[] {
+  const nodes = new Set<string>(dependencyMap.keys());
+  dependencyMap.forEach((deps) => deps.forEach((dep) => nodes.add(dep)));
+  return [...nodes].sort();
+}
+
+/**
+ * 1. FOR:
+ * Finding the strongly connected components of the dependency graph with
+ * Tarjan's algorithm.
+ *
+ * 2. TAKES:
+ * - dependencyMap: The dependency graph.
+ * - allowed: Optional set of nodes to restrict the search to (used by
+ * Johnson's algorithm on sub-graphs).
+ *
+ * 3. DOES:
+ * - Runs an iterative DFS that assigns each node an index and a low-link.
+ * - Pops a component off the stack whenever a node's low-link equals its index.
+ * - Keeps only components that contain a cycle: more than one member, or a
+ * single module that imports itself.
+ *
+ * 4. RETURNS:
+ * - An array of components, each a sorted array of module names, ordered by
+ * their first member.
+ */
+export function findStronglyConnectedComponents(
+  dependencyMap: DependencyMap,
+  allowed?: Set<string>
+): string[][] {
+  const nodes = collectNodes(dependencyMap).filter((node) => !allowed || allowed.has(node));
+  const successors = (node: string) =>
+    (dependencyMap.get(node) ?? []).filter((dep) => !allowed || allowed.has(dep));
+
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  for (const root of nodes) {
+    if (index.has(root)) {
+      continue;
+    }
+
+    const frames: { node: string; next: number; deps: string[] }[] = [];
+    const enter = (node: string) => {
+      index.set(node, nextIndex);
+      lowLink.set(node, nextIndex);
+      nextIndex++;
+      stack.push(node);
+      onStack.add(node);
+      frames.push({ node, next: 0, deps: successors(node) });
+    };
+
+    enter(root);
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+
+      if (frame.next < frame.deps.length) {
+        const dep = frame.deps[frame.next++];
+        if (!index.has(dep)) {
+          enter(dep);
+        } else if (onStack.has(dep)) {
+          lowLink.set(frame.node, Math.min(lowLink.get(frame.node)!, index.get(dep)!));
+        }
+        continue;
+      }
+
+      frames.pop();
+      if (frames.length > 0) {
+        const parent = frames[frames.length - 1].node;
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.node)!));
+      }
+
+      if (lowLink.get(frame.node) === index.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+
+        const isSelfLoop =
+          component.length === 1 && successors(component[0]).includes(component[0]);
+        if (component.length > 1 || isSelfLoop) {
+          components.push(component.sort());
+        }
+      }
+    }
+  }
+
+  return components.sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+/**
+ * 1. FOR:
+ * Listing the elementary cycles (no repeated module) inside one component
+ * with Johnson's algorithm.
+ *
+ * 2. TAKES:
+ * - dependencyMap: The dependency graph.
+ * - members: The members of one strongly connected component.
+ * - maxCycles: Stop after this many cycles.
+ *
+ * 3. DOES:
+ * - Copies the component into its own sub-graph once, so the searches below
+ * never look at the rest of the graph.
+ * - Repeatedly takes the SCC of the sub-graph with the smallest member `s`,
+ * searches it for circuits that start and end at `s`, using Johnson's
+ * blocked-set bookkeeping so each cycle is produced exactly once, and then
+ * removes `s` and every smaller member from the sub-graph. Members on no
+ * remaining cycle are skipped without a search of their own. The search and the
+ * unblocking run on explicit stacks, so long cycles cannot overflow the call stack.
+ * - Stops as soon as `maxCycles` cycles have been found.
+ *
+ * 4. RETURNS:
+ * - The canonical closed cycle paths, and whether the cap cut the search short.
+ */
+export function enumerateElementaryCycles(
+  dependencyMap: DependencyMap,
+  members: string[],
+  maxCycles: number
+): { cycles: string[][]; truncated: boolean } {
+  const sorted = [...members].sort();
+  const memberSet = new Set(sorted);
+  const subGraph: DependencyMap = new Map(
+    sorted.map((member) => [member, (dependencyMap.get(member) ?? []).filter((dep) => memberSet.has(dep))])
+  );
+  const cycles: string[][] = [];
+  let truncated = false;
+
+  while (!truncated) {
+    const component = findStronglyConnectedComponents(subGraph)[0];
+    if (!component) {
+      break;
+    }
+    const start = component[0];
+    const allowed = new Set(component);
+    const blocked = new Set<string>();
+    const blockMap = new Map<string, Set<string>>();
+    const path: string[] = [];
+
+    const unblock = (node: string) => {
+      const pending = [node];
+      while (pending.length > 0) {
+        const current = pending.pop()!;
+        blocked.delete(current);
+        const dependents = blockMap.get(current);
+        blockMap.delete(current);
+        dependents?.forEach((dependent) => {
+          if (blocked.has(dependent)) {
+            pending.push(dependent);
+          }
+        });
+      }
+    };
+
+    const frames: { node: string; deps: string[]; next: number; foundCycle: boolean }[] = [];
+    const enter = (node: string) => {
+      path.push(node);
+      blocked.add(node);
+      frames.push({ node, deps: (subGraph.get(node) ?? []).filter((dep) => allowed.has(dep)), next: 0, foundCycle: false });
+    };
+
+    enter(start);
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+
+      if (!truncated && frame.next < frame.deps.length) {
+        const dep = frame.deps[frame.next++];
+        if (dep === start) {
+          cycles.push(canonicalizeCycle(path));
+          frame.foundCycle = true;
+          if (cycles.length >= maxCycles) {
+            truncated = true;
+          }
+        } else if (!blocked.has(dep)) {
+          enter(dep);
+        }
+        continue;
+      }
+
+      if (frame.foundCycle) {
+        unblock(frame.node);
+      } else {
+        for (const dep of frame.deps) {
+          const dependents = blockMap.get(dep) ?? new Set<string>();
+          dependents.add(frame.node);
+          blockMap.set(dep, dependents);
+        }
+      }
+
+      path.pop();
+      frames.pop();
+      if (frame.foundCycle && frames.length > 0) {
+        frames[frames.length - 1].foundCycle = true;
+      }
+    }
+
+    subGraph.forEach((deps, member) => {
+      if (member <= start) {
+        subGraph.delete(member);
+      } else if (deps.some((dep) => dep <= start)) {
+        subGraph.set(member, deps.filter((dep) => dep > start));
+      }
+    });
+  }
+
+  return { cycles, truncated };
+}
+
+/**
+ * 1. FOR:
+ * Describing the cycles of a graph independently of how many are enumerated,
+ * so the baseline and the graph diff compare the same thing.
+ *
+ * 2. TAKES:
+ * - dependencyMap: The dependency graph.
+ *
+ * 3. DOES:
+ * - Collects every import whose two modules are in the same strongly
+ * connected component (including a module importing itself), as `from -> to`.
+ *
+ * 4. RETURNS:
+ * - The sorted edge keys.
+ */
+export function findCycleEdges(dependencyMap: DependencyMap): string[] {
+  return findStronglyConnectedComponents(dependencyMap)
+    .flatMap((members) => {
+      const inComponent = new Set(members);
+      return members.flatMap((from) =>
+        (dependencyMap.get(from) ?? []).filter((to) => inComponent.has(to)).map((to) => `${from} -> ${to}`)
+      );
+    })
+    .sort();
+}
+
+/**
+ * 1. FOR:
+ * Picking one representative cycle for a component when full enumeration
+ * is turned off.
+ *
+ * 2. TAKES:
+ * - dependencyMap: The dependency graph.
+ * - members: The members of one strongly connected component.
+ *
+ * 3. DOES:
+ * - Runs a breadth-first search from the component's smallest member back
+ * to itself, staying inside the component.
+ *
+ * 4. RETURNS:
+ * - The shortest cycle through that member, as a canonical closed path.
+ */
+export function findShortestCycle(dependencyMap: DependencyMap, members: string[]): string[] {
+  const allowed = new Set(members);
+  const start = [...members].sort()[0];
+  const previous = new Map<string, string>();
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    for (const dep of dependencyMap.get(node) ?? []) {
+      if (!allowed.has(dep)) {
+        continue;
+      }
+
+      if (dep === start) {
+        const path = [node];
+        while (path[0] !== start) {
+          path.unshift(previous.get(path[0])!);
+        }
+        return canonicalizeCycle(path);
+      }
+
+      if (!previous.has(dep)) {
+        previous.set(dep, node);
+        queue.push(dep);
+      }
+    }
+  }
+
+  return [];
+}
+
+/**
+ * 1. FOR:
+ * Running the complete cycle analysis.
+ *
+ * 2. TAKES:
+ * - dependencyMap: The dependency graph.
+ * - options: Optional `CycleAnalysisOptions` (`enumerateCycles`, default
+ * `true`; `maxCyclesPerComponent`, default `DEFAULT_MAX_CYCLES_PER_COMPONENT`).
+ *
+ * 3. DOES:
+ * - 1. Finds all strongly connected components.
+ * - 2. Enumerates the elementary cycles of each (capped), or picks one
+ * representative cycle per component when enumeration is off.
+ * - 3. De-duplicates cycles by their canonical key.
+ *
+ * 4. RETURNS:
+ * - A `CycleAnalysisResult` with the components and their cycles.
+ */
+export function analyzeCycles(
+  dependencyMap: DependencyMap,
+  options: CycleAnalysisOptions = {}
+): CycleAnalysisResult {
+  const enumerate = options.enumerateCycles ?? true;
+  const maxCycles = options.maxCyclesPerComponent ?? DEFAULT_MAX_CYCLES_PER_COMPONENT;
+
+  const components: StronglyConnectedComponent[] = [];
+  const cycles = new Map<string, { path: string[] }>();
+
+  for (const members of findStronglyConnectedComponents(dependencyMap)) {
+    const found = enumerate
+      ? enumerateElementaryCycles(dependencyMap, members, maxCycles)
+      : { cycles: [findShortestCycle(dependencyMap, members)], truncated: false };
+
+    found.cycles.forEach((path) => cycles.set(cycleKey(path), { path }));
+    components.push({
+      members,
+      cycleCount: found.cycles.length,
+      truncated: found.truncated,
+    });
+  }
+
+  return { components, cycles: [...cycles.values()] };
+}
@@ -0,0 +1,318 @@
+/**
+ * @file cycleBreaking.ts
+ *
+ * 1. FILE PURPOSE
+ * This file turns the cycle analysis into concrete advice: for every tangled
+ * cluster (strongly connected component) it proposes a small set of imports
+ * whose removal makes the cluster acyclic. Finding the true minimum feedback
+ * edge set is NP-hard, so the back edges of a depth-first search are used,
+ * followed by a pruning pass that puts back edges a topological order shows
+ * are not needed. Both run in near-linear time, so large clusters stay cheap.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - EdgeToCut (Interface): One import to remove, with how many of the
+ * cluster's cycles go through it and which symbols cross it.
+ * - CycleBreakingPlan (Interface): The edges to cut for one cluster.
+ * - MAX_PRUNE_ROUNDS (Constant): How many times the pruning pass may repeat.
+ *
+ * 3. FUNCTIONALITIES
+ * - planCycleBreaking(dependencyMap, edgeSymbols, options): The main public
+ * function. Builds one plan per cluster.
+ * - planComponent(...): A private function that runs the edge selection
+ * and pruning for a single cluster.
+ * - findBackEdges(working, members, weightOf): A private helper that collects
+ * the back edges of a depth-first search.
+ * - topologicalPositions(working, members): A private helper that orders an
+ * acyclic graph.
+ * - countCyclesPerEdge(cycles): A private helper that counts, per edge, the
+ * cycles passing through it.
+ * - symbolWeight(symbols): A private helper that scores how costly an edge
+ * is to cut (a whole-module `*` import counts as the most expensive).
+ */
+
+import { DependencyMap } from '../core/parser';
+import { NAMESPACE_SYMBOL } from '../core/importExtractor';
+import {
+  enumerateElementaryCycles,
+  findShortestCycle,
+  findStronglyConnectedComponents,
+  CycleAnalysisOptions,
+  DEFAULT_MAX_CYCLES_PER_COMPONENT,
+} from './cycleAnalysis';
+import { getEdgeSymbols, indexEdgeSymbols, EdgeSymbols } from './symbolAnalysis';
+
+export interface EdgeToCut {
+  from: string;
+  to: string;
+  cyclesBroken: number;
+  symbols: string[];
+}
+
+export interface CycleBreakingPlan {
+  component: string[];
+  cycleCount: number;
+  edgesToRemove: EdgeToCut[];
+}
+
+const MAX_PRUNE_ROUNDS = 5;
+
+/**
+ * 1. FOR:
+ * Counting how many cycles run through each edge.
+ *
+ * 2. TAKES:
+ * - cycles: Closed cycle paths.
+ *
+ * 3. DOES:
+ * - Walks each cycle hop by hop and increments a counter keyed by `from\0to`.
+ *
+ * 4. RETURNS:
+ * - A Map of edge key -> number of cycles.
+ */
+function countCyclesPerEdge(cycles: string[][]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const cycle of cycles) {
+    for (let i = 0; i < cycle.length - 1; i++) {
+      const key = `${cycle[i]}\0${cycle[i + 1]}`;
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * 1. FOR:
+ * Estimating the refactoring cost of cutting an edge.
+ *
+ * 2. TAKES:
+ * - symbols: The symbols crossing the edge.
+ *
+ * 3. DOES:
+ * - Uses the number of symbols; a `*` (whole-module) import is treated as
+ * the most expensive possible edge.
+ *
+ * 4. RETURNS:
+ * - A number; lower means cheaper to cut.
+ */
+function symbolWeight(symbols: string[]): number {
+  return symbols.includes(NAMESPACE_SYMBOL) ? Number.MAX_SAFE_INTEGER : symbols.length;
+}
+
+/**
+ * 1. FOR:
+ * Finding a feedback edge set for one cluster with a depth-first search.
+ *
+ * 2. TAKES:
+ * - working: The cluster's graph (members -> members they import).
+ * - members: The members of the cluster.
+ * - weightOf: Returns the cost of cutting an edge.
+ *
+ * 3. DOES:
+ * - Runs an iterative DFS from each unvisited member in sorted order,
+ * following the most expensive imports first so they tend to become tree
+ * edges, which are never cut.
+ * - Collects the back edges (imports of a module still on the DFS path);
+ * removing them leaves the cluster acyclic.
+ *
+ * 4. RETURNS:
+ * - The back edges, in the order they were found.
+ */
+function findBackEdges(
+  working: DependencyMap,
+  members: string[],
+  weightOf: (from: string, to: string) => number
+): { from: string; to: string }[] {
+  const state = new Map<string, 'open' | 'done'>();
+  const backEdges: { from: string; to: string }[] = [];
+  const successors = (node: string) =>
+    [...(working.get(node) ?? [])].sort(
+      (a, b) => weightOf(node, b) - weightOf(node, a) || a.localeCompare(b)
+    );
+
+  for (const root of [...members].sort()) {
+    if (state.has(root)) {
+      continue;
+    }
+
+    const frames = [{ node: root, next: 0, deps: successors(root) }];
+    state.set(root, 'open');
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      if (frame.next < frame.deps.length) {
+        const dep = frame.deps[frame.next++];
+        if (!state.has(dep)) {
+          state.set(dep, 'open');
+          frames.push({ node: dep, next: 0, deps: successors(dep) });
+        } else if (state.get(dep) === 'open') {
+          backEdges.push({ from: frame.node, to: dep });
+        }
+        continue;
+      }
+      state.set(frame.node, 'done');
+      frames.pop();
+    }
+  }
+
+  return backEdges;
+}
+
+/**
+ * 1. FOR:
+ * Ordering an acyclic graph topologically (Kahn's algorithm).
+ *
+ * 2. TAKES:
+ * - working: An acyclic graph.
+ * - members: Its nodes.
+ *
+ * 3. DOES:
+ * - Repeatedly takes the modules whose imports have all been placed,
+ * starting from the sorted members, so the order is deterministic.
+ *
+ * 4. RETURNS:
+ * - A Map of module -> position, where every import points to a lower position.
+ */
+function topologicalPositions(working: DependencyMap, members: string[]): Map<string, number> {
+  const pending = new Map(members.map((member) => [member, (working.get(member) ?? []).length]));
+  const importers = new Map<string, string[]>(members.map((member) => [member, []]));
+  working.forEach((deps, member) => deps.forEach((dep) => importers.get(dep)?.push(member)));
+
+  const queue = [...members].sort().filter((member) => pending.get(member) === 0);
+  const positions = new Map<string, number>();
+  for (let i = 0; i < queue.length; i++) {
+    positions.set(queue[i], i);
+    for (const importer of importers.get(queue[i]) ?? []) {
+      const remaining = pending.get(importer)! - 1;
+      pending.set(importer, remaining);
+      if (remaining === 0) {
+        queue.push(importer);
+      }
+    }
+  }
+  return positions;
+}
+
+/**
+ * 1. FOR:
+ * Computing the edges to cut for one cluster.
+ *
+ * 2. TAKES:
+ * - dependencyMap: The dependency graph.
+ * - members: The members of the cluster.
+ * - symbolsOf: Returns the symbols crossing an edge.
+ * - maxCycles: The enumeration cap used when counting cycles, or `null` when
+ * enumeration is turned off.
+ *
+ * 3. DOES:
+ * - 1. Copies the cluster into a working graph and enumerates its cycles once
+ * (up to `maxCycles`) to count how many run through each edge. With
+ * enumeration off, only the shortest cycle (`findShortestCycle`) is counted,
+ * the same representative cycle the cycle analysis reports for the cluster.
+ * - 2. Cuts the back edges of a depth-first search (`findBackEdges`), which
+ * follows the imports with the most crossing symbols first, so the cheaper
+ * imports are the ones cut.
+ * - 3. Pruning: orders the remaining acyclic graph topologically and puts back
+ * every cut edge that points "downhill" in that order, since it cannot close
+ * a cycle; this is repeated (at most `MAX_PRUNE_ROUNDS` times) while edges
+ * come back. Every step is linear in the size of the cluster.
+ * - 4. Ranks the remaining cuts by the number of the cluster's original
+ * cycles they break (descending), then by crossing symbols (ascending).
+ *
+ * 4. RETURNS:
+ * - A `CycleBreakingPlan` for the cluster.
+ */
+function planComponent(
+  dependencyMap: DependencyMap,
+  members: string[],
+  symbolsOf: (from: string, to: string) => string[],
+  maxCycles: number | null
+): CycleBreakingPlan {
+  const memberSet = new Set(members);
+  const working: DependencyMap = new Map(
+    members.map((member) => [
+      member,
+      (dependencyMap.get(member) ?? []).filter((dep) => memberSet.has(dep)),
+    ])
+  );
+
+  const originalCycles =
+    maxCycles === null
+      ? [findShortestCycle(working, members)]
+      : enumerateElementaryCycles(working, members, maxCycles).cycles;
+  const originalCounts = countCyclesPerEdge(originalCycles);
+
+  const cutCost = (from: string, to: string) => symbolWeight(symbolsOf(from, to));
+
+  let removed = findBackEdges(working, members, cutCost);
+  const cut = (edges: { from: string; to: string }[], restore: boolean) =>
+    edges.forEach(({ from, to }) =>
+      working.set(
+        from,
+        restore ? [...(working.get(from) ?? []), to] : (working.get(from) ?? []).filter((dep) => dep !== to)
+      )
+    );
+  cut(removed, false);
+
+  for (let round = 0; round < MAX_PRUNE_ROUNDS; round++) {
+    const positions = topologicalPositions(working, members);
+    const restorable = removed.filter(({ from, to }) => positions.get(from)! > positions.get(to)!);
+    if (restorable.length === 0) {
+      break;
+    }
+    cut(restorable, true);
+    const restored = new Set(restorable);
+    removed = removed.filter((edge) => !restored.has(edge));
+  }
+
+  const edgesToRemove = removed
+    .map(({ from, to }) => ({
+      from,
+      to,
+      cyclesBroken: originalCounts.get(`${from}\0${to}`) ?? 0,
+      symbols: symbolsOf(from, to),
+    }))
+    .sort(
+      (a, b) =>
+        b.cyclesBroken - a.cyclesBroken ||
+        symbolWeight(a.symbols) - symbolWeight(b.symbols) ||
+        a.from.localeCompare(b.from) ||
+        a.to.localeCompare(b.to)
+    );
+
+  return { component: members, cycleCount: originalCycles.length, edgesToRemove };
+}
+
+/**
+ * 1. FOR:
+ * Building a cycle-breaking plan for the whole graph: an approximate
+ * minimum feedback edge set, one cluster at a time.
+ *
+ * 2. TAKES:
+ * - dependencyMap: The dependency graph.
+ * - edgeSymbols: The per-edge symbol list (may be empty when only a
+ * `DependencyMap` is available).
+ * - options: Optional `CycleAnalysisOptions`; `maxCyclesPerComponent` caps
+ * the cycle counting used to rank edges, and `enumerateCycles: false` skips
+ * the enumeration, counting only each cluster's shortest cycle.
+ *
+ * 3. DOES:
+ * - Indexes the edge symbols once (`indexEdgeSymbols`), then finds the strongly
+ * connected components and runs `planComponent` on each.
+ *
+ * 4. RETURNS:
+ * - An array of `CycleBreakingPlan` objects, one per cluster.
+ */
+export function planCycleBreaking(
+  dependencyMap: DependencyMap,
+  edgeSymbols: EdgeSymbols[],
+  options: CycleAnalysisOptions = {}
+): CycleBreakingPlan[] {
+  const maxCycles =
+    options.enumerateCycles === false ? null : options.maxCyclesPerComponent ?? DEFAULT_MAX_CYCLES_PER_COMPONENT;
+  const symbolIndex = indexEdgeSymbols(edgeSymbols);
+  const symbolsOf = (from: string, to: string) => getEdgeSymbols(symbolIndex, from, to);
+
+  return findStronglyConnectedComponents(dependencyMap).map((members) =>
+    planComponent(dependencyMap, members, symbolsOf, maxCycles)
+  );
+}
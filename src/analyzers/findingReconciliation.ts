@@ -0,0 +1,188 @@
+/**
+ * @file findingReconciliation.ts
+ *
+ * 1. FILE PURPOSE
+ * This file checks the LLM findings against the real dependency graph and
+ * against the heuristic findings. The model sees the graph but can still
+ * report cycles or importers that do not exist; every edge it claims is
+ * looked up in the `DependencyMap`, so invented edges are flagged, findings
+ * both sources agree on are marked as confirmed, and heuristic findings the
+ * model missed are listed. An agreement score summarizes how far the two
+ * analyses match.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - FindingStatus (Type): How an LLM finding compares with the graph and the heuristics.
+ * - ReconciledCycle (Interface): One LLM-reported cycle and the result of its checks.
+ * - ReconciledHub (Interface): One LLM-reported hub and the result of its checks.
+ * - FindingReconciliation (Interface): The full comparison.
+ *
+ * 3. FUNCTIONALITIES
+ * - reconcileFindings(dependencyMap, heuristicResult, llmResult): The main public function.
+ * - resolveName(dependencyMap, name): A private helper that maps a name the model used to a module.
+ */
+
+import { DependencyMap } from '../core/parser';
+import { canonicalizeCycle, cycleKey } from './cycleAnalysis';
+import { DiffEdge } from './graphDiff';
+import { HeuristicAnalysisResult } from './heuristicAnalyzer';
+import { LlmFindings } from './llmAnalyzer';
+import { findModule } from './moduleExplanation';
+
+export type FindingStatus = 'confirmed' | 'unlisted' | 'hallucinated';
+
+export interface ReconciledCycle {
+  path: string[];
+  reason: string;
+  status: FindingStatus;
+  unknownModules: string[];
+  missingEdges: DiffEdge[];
+}
+
+export interface ReconciledHub {
+  module: string;
+  status: FindingStatus;
+  invalidImporters: string[];
+  missingImporters: string[];
+}
+
+export interface FindingReconciliation {
+  cycles: ReconciledCycle[];
+  hubs: ReconciledHub[];
+  hallucinatedEdges: DiffEdge[];
+  missedCycles: string[][];
+  missedHubs: string[];
+  confirmedFindings: number;
+  agreementScore: number;
+}
+
+/**
+ * 1. FOR:
+ * Mapping a module name used by the model to a module of the graph.
+ *
+ * 2. TAKES:
+ * - dependencyMap: The file-level dependency graph.
+ * - name: The name from the LLM answer (a path, or a unique path suffix such as `mathUtils.ts`).
+ *
+ * 3. DOES:
+ * - Resolves the name with `findModule`, the same rules as `explain <module>`.
+ *
+ * 4. RETURNS:
+ * - The module path, or `null` when the name matches no module or several.
+ */
+function resolveName(dependencyMap: DependencyMap, name: string): string | null {
+  const matches = findModule({ dependencyMap }, name);
+  return matches.length === 1 ? matches[0] : null;
+}
+
+/**
+ * 1. FOR:
+ * Cross-validating the LLM analysis.
+ *
+ * 2. TAKES:
+ * - dependencyMap: The file-level dependency graph.
+ * - heuristicResult: The heuristic analysis of the same graph.
+ * - llmResult: The LLM findings.
+ *
+ * 3. DOES:
+ * - Cycles: resolves every module of the path and looks up every edge of the
+ * closed path. A cycle with an unknown module or a missing edge is
+ * `hallucinated`; one the heuristics also list (same `cycleKey`) is
+ * `confirmed`; a real cycle the heuristics did not list (e.g. beyond
+ * `--max-cycles`) is `unlisted`.
+ * - Hubs: an unknown module, or one that none of the listed importers
+ * actually imports, is `hallucinated`; a heuristic hub is `confirmed`; a
+ * real module below the hub threshold is `unlisted`. Listed importers that do
+ * not import the module are flagged, and real importers the model left out
+ * are listed.
+ * - Lists the heuristic cycles and hubs the model did not report, and every
+ * distinct invented edge.
+ * - Computes the agreement score: confirmed findings divided by all findings
+ * of either source (LLM cycles and hubs plus the missed heuristic ones);
+ * 1 when neither source found anything.
+ *
+ * 4. RETURNS:
+ * - The `FindingReconciliation`.
+ */
+export function reconcileFindings(
+  dependencyMap: DependencyMap,
+  heuristicResult: HeuristicAnalysisResult,
+  llmResult: LlmFindings
+): FindingReconciliation {
+  const imports = (from: string, to: string) => (dependencyMap.get(from) ?? []).includes(to);
+  const hallucinatedEdges = new Map<string, DiffEdge>();
+  const flagEdge = (edge: DiffEdge) => hallucinatedEdges.set(`${edge.from} -> ${edge.to}`, edge);
+
+  const heuristicCycleKeys = new Set(heuristicResult.circularDependencies.map((cycle) => cycleKey(cycle.path)));
+  const reportedCycleKeys = new Set<string>();
+
+  const cycles: ReconciledCycle[] = llmResult.circularDependencies.map((cycle) => {
+    const unknownModules = [...new Set(cycle.path.filter((name) => !resolveName(dependencyMap, name)))];
+    const path = canonicalizeCycle(cycle.path.map((name) => resolveName(dependencyMap, name) ?? name));
+    const missingEdges: DiffEdge[] = [];
+    path.slice(1).forEach((to, index) => {
+      const from = path[index];
+      if (!imports(from, to)) {
+        missingEdges.push({ from, to });
+      }
+    });
+    missingEdges.forEach(flagEdge);
+
+    const key = cycleKey(path);
+    reportedCycleKeys.add(key);
+    const status: FindingStatus =
+      unknownModules.length > 0 || missingEdges.length > 0
+        ? 'hallucinated'
+        : heuristicCycleKeys.has(key)
+          ? 'confirmed'
+          : 'unlisted';
+    return { path, reason: cycle.reason, status, unknownModules, missingEdges };
+  });
+
+  const heuristicHubs = new Set(heuristicResult.tightlyCoupledModules.map((hub) => hub.module));
+  const reportedHubs = new Set<string>();
+
+  const hubs: ReconciledHub[] = llmResult.tightlyCoupledModules.map((hub) => {
+    const module = resolveName(dependencyMap, hub.module);
+    if (!module) {
+      return { module: hub.module, status: 'hallucinated', invalidImporters: hub.importedBy, missingImporters: [] };
+    }
+    reportedHubs.add(module);
+
+    const listed = new Set<string>();
+    const invalidImporters: string[] = [];
+    hub.importedBy.forEach((name) => {
+      const importer = resolveName(dependencyMap, name);
+      if (importer && imports(importer, module)) {
+        listed.add(importer);
+      } else {
+        invalidImporters.push(name);
+        flagEdge({ from: importer ?? name, to: module });
+      }
+    });
+    const missingImporters = [...dependencyMap.keys()]
+      .filter((importer) => imports(importer, module) && !listed.has(importer))
+      .sort();
+
+    const status: FindingStatus =
+      listed.size === 0 ? 'hallucinated' : heuristicHubs.has(module) ? 'confirmed' : 'unlisted';
+    return { module, status, invalidImporters, missingImporters };
+  });
+
+  const missedCycles = heuristicResult.circularDependencies
+    .map((cycle) => cycle.path)
+    .filter((path) => !reportedCycleKeys.has(cycleKey(path)));
+  const missedHubs = [...heuristicHubs].filter((module) => !reportedHubs.has(module));
+
+  const confirmedFindings = [...cycles, ...hubs].filter((finding) => finding.status === 'confirmed').length;
+  const totalFindings = cycles.length + hubs.length + missedCycles.length + missedHubs.length;
+
+  return {
+    cycles,
+    hubs,
+    hallucinatedEdges: [...hallucinatedEdges.values()],
+    missedCycles,
+    missedHubs,
+    confirmedFindings,
+    agreementScore: totalFindings === 0 ? 1 : Math.round((confirmedFindings / totalFindings) * 100) / 100,
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * @file graphDiff.ts
+ *
+ * 1. FILE PURPOSE
+ * This file compares two dependency graphs, e.g. the graph of `main` and the
+ * graph of a feature branch, and reports the architectural change between
+ * them: modules and imports that were added or removed, cycles that were
+ * introduced or resolved, and modules whose importer count crossed the hub
+ * threshold. Cycles are compared by their cyclic edges (the imports inside a
+ * strongly connected component), as in the baseline: the enumerated cycles
+ * are capped per component, so one added import can change which of them are
+ * listed, while the cyclic edges only change when a cycle really appears or
+ * goes away.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - GraphSnapshot (Interface): One side of the comparison, with a label for the report.
+ * - DiffEdge (Interface): One added or removed import.
+ * - CycleEdgeChange (Interface): An import that started or stopped lying on a cycle.
+ * - HubChange (Interface): A module that became, or stopped being, a hub.
+ * - GraphDiff (Interface): The full comparison.
+ * - GraphDiffOptions (Interface): The hub threshold.
+ *
+ * 3. FUNCTIONALITIES
+ * - loadGraphSnapshot(file): Reads a dependency map saved as JSON.
+ * - diffGraphs(base, head, options): The main public function.
+ * - countImporters(dependencyMap): A private helper that counts the importers of every module.
+ */
+
+import * as fs from 'fs/promises';
+import { DependencyMap } from '../core/parser';
+import { findCycleEdges } from './cycleAnalysis';
+import { findImportPath } from './graphQueries';
+import { HUB_THRESHOLD } from './heuristicAnalyzer';
+
+export interface GraphSnapshot {
+  label: string;
+  dependencyMap: DependencyMap;
+}
+
+export interface DiffEdge {
+  from: string;
+  to: string;
+}
+
+export interface CycleEdgeChange {
+  from: string;
+  to: string;
+  cycle: string[];
+}
+
+export interface HubChange {
+  module: string;
+  baseImporters: number;
+  headImporters: number;
+}
+
+export interface GraphDiff {
+  base: string;
+  head: string;
+  hubThreshold: number;
+  addedModules: string[];
+  removedModules: string[];
+  addedEdges: DiffEdge[];
+  removedEdges: DiffEdge[];
+  newCycleEdges: CycleEdgeChange[];
+  resolvedCycleEdges: CycleEdgeChange[];
+  newHubs: HubChange[];
+  removedHubs: HubChange[];
+}
+
+export interface GraphDiffOptions {
+  hubThreshold?: number;
+}
+
+/**
+ * 1. FOR:
+ * Reading a graph saved by an earlier run, so two snapshots can be compared
+ * without a git repository.
+ *
+ * 2. TAKES:
+ * - file: The path of a JSON file in one of these shapes:
+ *   - a report with a `dependencyMap` object (`analyze --format json`, or the
+ *   `data` of the `/api/analysis` response);
+ *   - a module-level graph export (`graph --format json`).
+ *
+ * 3. DOES:
+ * - Reads and parses the file and rebuilds the `DependencyMap`; throws an
+ * `Error` naming the file when it cannot be read or has neither shape.
+ *
+ * 4. RETURNS:
+ * - A `Promise<DependencyMap>`.
+ */
+export async function loadGraphSnapshot(file: string): Promise<DependencyMap> {
+  let content;
+  try {
+    content = JSON.parse(await fs.readFile(file, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Could not read graph snapshot ${file}: ${err}`);
+  }
+
+  const report = content?.data?.dependencyMap ? content.data : content;
+  if (report?.dependencyMap && typeof report.dependencyMap === 'object') {
+    return new Map(Object.entries(report.dependencyMap as Record<string, string[]>));
+  }
+
+  if (content?.level === 'module' && Array.isArray(content.nodes) && Array.isArray(content.edges)) {
+    const dependencyMap: DependencyMap = new Map(
+      content.nodes.map((node: { id: string }) => [node.id, [] as string[]])
+    );
+    content.edges.forEach((edge: DiffEdge) => {
+      dependencyMap.get(edge.from)?.push(edge.to);
+    });
+    return dependencyMap;
+  }
+
+  throw new Error(`Graph snapshot ${file} has no dependencyMap and is not a module-level graph export.`);
+}
+
+/**
+ * 1. FOR:
+ * Counting how many modules import each module.
+ *
+ * 2. TAKES:
+ * - dependencyMap: The file-level dependency graph.
+ *
+ * 3. DOES:
+ * - Counts, for every module of the graph, the modules listing it as a dependency.
+ *
+ * 4. RETURNS:
+ * - A `Map` of module -> importer count (0 for modules nobody imports).
+ */
+function countImporters(dependencyMap: DependencyMap): Map<string, number> {
+  const counts = new Map<string, number>([...dependencyMap.keys()].map((module) => [module, 0]));
+  dependencyMap.forEach((dependencies) => {
+    new Set(dependencies).forEach((dependency) => {
+      counts.set(dependency, (counts.get(dependency) ?? 0) + 1);
+    });
+  });
+  return counts;
+}
+
+/**
+ * 1. FOR:
+ * Comparing two dependency graphs.
+ *
+ * 2. TAKES:
+ * - base: The `GraphSnapshot` before the change (e.g. `main`).
+ * - head: The `GraphSnapshot` after the change (e.g. the feature branch).
+ * - options: Optional `GraphDiffOptions` (hub threshold, default `HUB_THRESHOLD`).
+ *
+ * 3. DOES:
+ * - Lists the modules and edges present on only one side.
+ * - Lists the cyclic edges of both graphs (`findCycleEdges`, shared with the
+ * baseline); an import that is
+ * cyclic only in `head` is new and one cyclic only in `base` is resolved, each
+ * shown with the shortest cycle through it on the side where it is cyclic.
+ * - Counts the importers of every module on both sides; a module at or over
+ * the threshold only in `head` is a new hub, one only in `base` no longer is.
+ *
+ * 4. RETURNS:
+ * - A `GraphDiff` (every list sorted).
+ */
+export function diffGraphs(
+  base: GraphSnapshot,
+  head: GraphSnapshot,
+  options: GraphDiffOptions = {}
+): GraphDiff {
+  const hubThreshold = options.hubThreshold ?? HUB_THRESHOLD;
+
+  const edgeKeys = (map: DependencyMap) =>
+    new Set([...map].flatMap(([from, dependencies]) => dependencies.map((to) => `${from}\n${to}`)));
+  const baseEdges = edgeKeys(base.dependencyMap);
+  const headEdges = edgeKeys(head.dependencyMap);
+  const onlyIn = (edges: Set<string>, other: Set<string>): DiffEdge[] =>
+    [...edges]
+      .filter((key) => !other.has(key))
+      .sort()
+      .map((key) => {
+        const [from, to] = key.split('\n');
+        return { from, to };
+      });
+
+  const baseCycleEdges = new Set(findCycleEdges(base.dependencyMap));
+  const headCycleEdges = new Set(findCycleEdges(head.dependencyMap));
+  const cycleEdgesOnlyIn = (map: DependencyMap, edges: Set<string>, other: Set<string>): CycleEdgeChange[] =>
+    [...edges]
+      .filter((edge) => !other.has(edge))
+      .sort()
+      .map((edge) => {
+        const [from, to] = edge.split(' -> ');
+        return { from, to, cycle: [from, ...(findImportPath(map, to, from) ?? [to])] };
+      });
+
+  const baseImporters = countImporters(base.dependencyMap);
+  const headImporters = countImporters(head.dependencyMap);
+  const hubChanges = (hubSide: Map<string, number>, otherSide: Map<string, number>) =>
+    [...hubSide]
+      .filter(([module, count]) => count >= hubThreshold && (otherSide.get(module) ?? 0) < hubThreshold)
+      .map(([module]) => ({
+        module,
+        baseImporters: baseImporters.get(module) ?? 0,
+        headImporters: headImporters.get(module) ?? 0,
+      }))
+      .sort((a, b) => a.module.localeCompare(b.module));
+
+  return {
+    base: base.label,
+    head: head.label,
+    hubThreshold,
+    addedModules: [...head.dependencyMap.keys()].filter((module) => !base.dependencyMap.has(module)).sort(),
+    removedModules: [...base.dependencyMap.keys()].filter((module) => !head.dependencyMap.has(module)).sort(),
+    addedEdges: onlyIn(headEdges, baseEdges),
+    removedEdges: onlyIn(baseEdges, headEdges),
+    newCycleEdges: cycleEdgesOnlyIn(head.dependencyMap, headCycleEdges, baseCycleEdges),
+    resolvedCycleEdges: cycleEdgesOnlyIn(base.dependencyMap, baseCycleEdges, headCycleEdges),
+    newHubs: hubChanges(headImporters, baseImporters),
+    removedHubs: hubChanges(baseImporters, headImporters),
+  };
+}
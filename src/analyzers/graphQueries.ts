@@ -0,0 +1,214 @@
+/**
+ * @file graphQueries.ts
+ *
+ * 1. FILE PURPOSE
+ * This file answers targeted questions about the dependency graph instead of
+ * reporting on all of it: what a module depends on, what depends on it
+ * (directly or transitively), the shortest import chain between two modules
+ * and every module within N hops. Dependents are found through the reverse
+ * index (module -> importers), which the hub detection uses as well. The
+ * queries back the `dependencies`, `dependents`, `path` and `neighbors`
+ * commands and the `/api/query/:kind` route.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - GraphQueryKind (Type): The supported queries.
+ * - GraphQuery (Interface): One query: its kind, module(s) and depth limit.
+ * - ReachableModule (Interface): A module found by a query, with its distance.
+ * - GraphQueryResult (Interface): The answer to a query.
+ * - GRAPH_QUERY_KINDS (Constant): The accepted query kinds.
+ *
+ * 3. FUNCTIONALITIES
+ * - buildReverseIndex(dependencyMap): Maps every imported module to its importers.
+ * - findReachable(dependencyMap, reverseIndex, module, direction, maxDepth): Breadth-first search from a module.
+ * - findImportPath(dependencyMap, from, to): The shortest import chain between two modules.
+ * - queryGraph(dependencyMap, query): The main public function.
+ */
+
+import { DependencyMap } from '../core/parser';
+
+export type GraphQueryKind = 'dependencies' | 'dependents' | 'path' | 'neighbors';
+
+export interface GraphQuery {
+  kind: GraphQueryKind;
+  module: string;
+  target?: string;
+  depth: number | null;
+}
+
+export interface ReachableModule {
+  module: string;
+  depth: number;
+}
+
+export interface GraphQueryResult {
+  kind: GraphQueryKind;
+  module: string;
+  target?: string;
+  depth: number | null;
+  modules: ReachableModule[];
+  path?: string[] | null;
+}
+
+export const GRAPH_QUERY_KINDS: GraphQueryKind[] = ['dependencies', 'dependents', 'path', 'neighbors'];
+
+/**
+ * 1. FOR:
+ * Looking up the importers of a module without scanning the whole graph.
+ *
+ * 2. TAKES:
+ * - dependencyMap: The file-level dependency graph.
+ *
+ * 3. DOES:
+ * - Walks every import once and records the importer under the imported
+ * module, in the order of the `dependencyMap`.
+ *
+ * 4. RETURNS:
+ * - A `DependencyMap` of module -> importers. Modules nobody imports have no entry.
+ */
+export function buildReverseIndex(dependencyMap: DependencyMap): DependencyMap {
+  const reverseIndex: DependencyMap = new Map();
+
+  for (const [importer, dependencies] of dependencyMap.entries()) {
+    for (const importedModule of dependencies) {
+      const importers = reverseIndex.get(importedModule) || [];
+      importers.push(importer);
+      reverseIndex.set(importedModule, importers);
+    }
+  }
+
+  return reverseIndex;
+}
+
+/**
+ * 1. FOR:
+ * Collecting the modules reachable from one module.
+ *
+ * 2. TAKES:
+ * - dependencyMap: The file-level dependency graph.
+ * - reverseIndex: Its `buildReverseIndex`.
+ * - module: The start module.
+ * - direction: `dependencies` follows imports, `dependents` follows importers
+ * and `both` follows either (an undirected neighborhood).
+ * - maxDepth: The number of hops to go at most (`Infinity` for the transitive closure).
+ *
+ * 3. DOES:
+ * - Runs a breadth-first search, so each module is listed at its smallest
+ * distance. The start module is left out, even when a cycle leads back to it.
+ *
+ * 4. RETURNS:
+ * - The `ReachableModule[]`, nearest first, then by path.
+ */
+export function findReachable(
+  dependencyMap: DependencyMap,
+  reverseIndex: DependencyMap,
+  module: string,
+  direction: 'dependencies' | 'dependents' | 'both',
+  maxDepth: number
+): ReachableModule[] {
+  const next = (current: string) => [
+    ...(direction !== 'dependents' ? dependencyMap.get(current) ?? [] : []),
+    ...(direction !== 'dependencies' ? reverseIndex.get(current) ?? [] : []),
+  ];
+
+  const depths = new Map<string, number>([[module, 0]]);
+  let frontier = [module];
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    frontier = frontier.flatMap(next).filter((candidate) => {
+      if (depths.has(candidate)) {
+        return false;
+      }
+      depths.set(candidate, depth);
+      return true;
+    });
+  }
+
+  depths.delete(module);
+  return [...depths.entries()]
+    .map(([reached, depth]) => ({ module: reached, depth }))
+    .sort((a, b) => a.depth - b.depth || a.module.localeCompare(b.module));
+}
+
+/**
+ * 1. FOR:
+ * Explaining how one module ends up depending on another.
+ *
+ * 2. TAKES:
+ * - dependencyMap: The file-level dependency graph.
+ * - from: The importing module.
+ * - to: The module to reach.
+ *
+ * 3. DOES:
+ * - Runs a breadth-first search along the imports and walks the recorded
+ * predecessors back from `to`.
+ *
+ * 4. RETURNS:
+ * - The shortest chain `[from, ..., to]` (just `[from]` when both are the
+ * same module), or `null` when `from` does not depend on `to`.
+ */
+export function findImportPath(dependencyMap: DependencyMap, from: string, to: string): string[] | null {
+  const previous = new Map<string, string | null>([[from, null]]);
+  const queue = [from];
+
+  while (queue.length > 0 && !previous.has(to)) {
+    const current = queue.shift()!;
+    for (const dependency of dependencyMap.get(current) ?? []) {
+      if (!previous.has(dependency)) {
+        previous.set(dependency, current);
+        queue.push(dependency);
+      }
+    }
+  }
+
+  if (!previous.has(to)) {
+    return null;
+  }
+  const path = [to];
+  for (let step = previous.get(to); step; step = previous.get(step)) {
+    path.unshift(step);
+  }
+  return path;
+}
+
+/**
+ * 1. FOR:
+ * Answering one graph query, for the CLI and the REST API alike.
+ *
+ * 2. TAKES:
+ * - dependencyMap: The file-level dependency graph.
+ * - query: The `GraphQuery`; `module` and `target` must be modules of the
+ * graph (see `findModule`). `depth` limits the hops (`null`: no limit) and
+ * is ignored by `path`.
+ *
+ * 3. DOES:
+ * - `dependencies` / `dependents`: the modules the module imports / that
+ * import it, within `depth` hops.
+ * - `neighbors`: the modules within `depth` hops in either direction.
+ * - `path`: the shortest import chain from `module` to `target`, with its
+ * modules numbered by hop.
+ *
+ * 4. RETURNS:
+ * - The `GraphQueryResult`.
+ */
+export function queryGraph(dependencyMap: DependencyMap, query: GraphQuery): GraphQueryResult {
+  const { kind, module, target, depth } = query;
+
+  if (kind === 'path') {
+    const path = findImportPath(dependencyMap, module, target ?? module);
+    return {
+      kind,
+      module,
+      target,
+      depth: null,
+      modules: (path ?? []).slice(1).map((step, index) => ({ module: step, depth: index + 1 })),
+      path,
+    };
+  }
+
+  const direction = kind === 'neighbors' ? 'both' : kind;
+  return {
+    kind,
+    module,
+    depth,
+    modules: findReachable(dependencyMap, buildReverseIndex(dependencyMap), module, direction, depth ?? Infinity),
+  };
+}
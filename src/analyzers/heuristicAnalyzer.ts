@@ -8,31 +8,78 @@
  *
  * 2. VARIABLES / CONSTANTS
  * - HeuristicAnalysisResult (Interface): Defines the shape of the report this analyzer produces.
- * - HUB_THRESHOLD (Constant): A configuration value that defines the minimum number
- *   of incoming imports for a module to be considered a "tightly coupled" hub.
+ * - HeuristicOptions (Interface): Optional inputs. When the full `ProjectGraph`
+ *   is given, the symbol-level findings (unused exports, symbols per edge) are added.
+ *   `enumerateCycles` / `maxCyclesPerComponent` control cycle enumeration, and
+ *   `rules` holds the architecture rules to check, `layerDepth` the directory
+ *   depth of the layer-level graph and `hubThreshold` overrides HUB_THRESHOLD.
+ * - HUB_THRESHOLD (Constant): The default minimum number of incoming imports for a
+ *   module to be considered a "tightly coupled" hub.
  *
  * 3. FUNCTIONALITIES
- * - analyzeHeuristically(dependencyMap): The main public function that runs all
+ * - analyzeHeuristically(dependencyMap, options): The main public function that runs all
  *   heuristic checks and returns a combined report.
- * - findCircularDependencies(dependencyMap): A private function that uses a
- *   Depth-First Search (DFS) algorithm to find all cyclical import paths.
+ * - analyzeCycles(dependencyMap, options): From `cycleAnalysis.ts`. Finds every
+ *   strongly connected component (Tarjan) and the elementary cycles inside
+ *   each one (Johnson, capped), in canonical form.
+ * - planCycleBreaking(dependencyMap, edgeSymbols, options): From `cycleBreaking.ts`.
+ *   Proposes, per cluster, the smallest set of imports to remove to break all cycles.
  * - findTightlyCoupledModules(dependencyMap, threshold): A private function that
- *   counts incoming imports for all modules to identify hubs.
+ *   counts incoming imports for all modules to identify hubs, using the reverse
+ *   index from `graphQueries.ts`.
+ * - computeCouplingMetrics(dependencyMap, exports): From `couplingMetrics.ts`. Computes
+ *   Ca, Ce, instability, abstractness and distance from the main sequence.
+ * - checkArchitectureRules(dependencyMap, rules, graph): From `architectureRules.ts`.
+ *   Reports every import that breaks a configured architecture rule.
+ * - buildLayerGraph(dependencyMap, options): From `layerGraph.ts`. Collapses the graph
+ *   by directory and finds cycles and hubs between layers.
+ * - attachSymbols(result, edgeSymbols): A private function that annotates cycles
+ *   and hubs with the symbols that cross their edges.
  */
 
-import { DependencyMap } from '../core/parser';
+import { DependencyMap, ProjectGraph } from '../core/parser';
+import { analyzeCycles, CycleAnalysisOptions, StronglyConnectedComponent } from './cycleAnalysis';
+import { planCycleBreaking, CycleBreakingPlan } from './cycleBreaking';
+import { computeCouplingMetrics, CouplingMetricsResult } from './couplingMetrics';
+import { checkArchitectureRules, ArchitectureRule, RuleViolation } from './architectureRules';
+import { buildLayerGraph, LayerGraphResult } from './layerGraph';
+import { buildReverseIndex } from './graphQueries';
+import {
+  buildEdgeSymbols,
+  findUnusedExports,
+  getEdgeSymbols,
+  indexEdgeSymbols,
+  EdgeSymbols,
+  UnusedExport,
+} from './symbolAnalysis';
 
 export interface HeuristicAnalysisResult {
   circularDependencies: {
     path: string[];
+    edgeSymbols: EdgeSymbols[];
   }[];
+  stronglyConnectedComponents: StronglyConnectedComponent[];
+  cycleBreakingPlan: CycleBreakingPlan[];
   tightlyCoupledModules: {
     module: string;
     importedBy: string[];
+    importedSymbols: string[];
   }[];
+  couplingMetrics: CouplingMetricsResult;
+  ruleViolations: RuleViolation[];
+  layerGraph: LayerGraphResult;
+  unusedExports: UnusedExport[];
+  edgeSymbols: EdgeSymbols[];
 }
 
-const HUB_THRESHOLD = 3;
+export interface HeuristicOptions extends CycleAnalysisOptions {
+  graph?: ProjectGraph;
+  rules?: ArchitectureRule[];
+  layerDepth?: number;
+  hubThreshold?: number;
+}
+
+export const HUB_THRESHOLD = 3;
 
 /**
  * 1. FOR:
@@ -42,105 +89,101 @@ const HUB_THRESHOLD = 3;
  * 2. TAKES:
  * - dependencyMap: The dependency graph (Map<string, string[]>) where
  * each module maps to its direct dependencies.
+ * - options: Optional `HeuristicOptions` (the full `ProjectGraph`, cycle
+ * enumeration settings).
  *
  * 3. DOES:
  * - Logs the start of the analysis.
- * - Calls `findCircularDependencies` to detect cycles.
- * - Calls `findTightlyCoupledModules` to identify hubs based on the HUB_THRESHOLD.
+ * - Calls `analyzeCycles` to find the strongly connected components and their cycles.
+ * - Calls `findTightlyCoupledModules` to identify hubs based on `hubThreshold` (default HUB_THRESHOLD).
+ * - If a `ProjectGraph` is available, builds the symbols crossing each edge,
+ * finds unused exports and annotates cycles and hubs with their symbols.
+ * - Calls `planCycleBreaking` to rank the imports to cut in each cluster.
+ * - Calls `computeCouplingMetrics`, using the AST exports for abstractness when available.
+ * - Calls `checkArchitectureRules` when rules are configured.
+ * - Calls `buildLayerGraph` at `layerDepth`, with the same hub threshold and cycle settings.
  * - Logs the completion of the analysis.
  *
  * 4. RETURNS:
  * - HeuristicAnalysisResult: An object containing the structured results
  * from both analysis steps.
  */
-export function analyzeHeuristically(dependencyMap: DependencyMap): HeuristicAnalysisResult {
+export function analyzeHeuristically(dependencyMap: DependencyMap, options: HeuristicOptions = {}): HeuristicAnalysisResult {
 
   console.log('Running heuristic analysis...');
-  const circularDependencies = findCircularDependencies(dependencyMap);
-  const tightlyCoupledModules = findTightlyCoupledModules(dependencyMap, HUB_THRESHOLD);
+  const hubThreshold = options.hubThreshold ?? HUB_THRESHOLD;
+  const { components, cycles } = analyzeCycles(dependencyMap, options);
+  const circularDependencies = cycles.map(({ path }) => ({ path, edgeSymbols: [] }));
+  const tightlyCoupledModules = findTightlyCoupledModules(dependencyMap, hubThreshold);
+
+  const edgeSymbols = options.graph ? buildEdgeSymbols(options.graph) : [];
+  const unusedExports = options.graph ? findUnusedExports(options.graph) : [];
+  const cycleBreakingPlan = planCycleBreaking(dependencyMap, edgeSymbols, options);
+  const couplingMetrics = computeCouplingMetrics(dependencyMap, options.graph?.exports);
+  const ruleViolations = checkArchitectureRules(dependencyMap, options.rules ?? [], options.graph);
+  const layerGraph = buildLayerGraph(dependencyMap, {
+    ...options,
+    depth: options.layerDepth,
+    hubThreshold,
+  });
 
   console.log('Heuristic analysis complete.');
-  return { circularDependencies, tightlyCoupledModules};
+  return attachSymbols(
+    {
+      circularDependencies,
+      stronglyConnectedComponents: components,
+      cycleBreakingPlan,
+      tightlyCoupledModules,
+      couplingMetrics,
+      ruleViolations,
+      layerGraph,
+      unusedExports,
+      edgeSymbols,
+    },
+    edgeSymbols
+  );
 }
 
 /**
  * 1. FOR:
- * Detects circular dependencies in the dependency graph.
+ * Linking the cycle and hub findings to the symbol-level layer, so a reader can
+ * see exactly which exports create each coupling.
  *
  * 2. TAKES:
- * - dependencyMap: The dependency graph (Map<string, string[]>) to analyze.
+ * - result: The heuristic report (cycles and hubs without symbols).
+ * - edgeSymbols: The per-edge symbol list from `buildEdgeSymbols`.
  *
  * 3. DOES:
- * - Uses a Depth-First Search (DFS) algorithm.
- * - It maintains two sets: `visited` (for all nodes) and `recursionStack`
- * (for nodes in the current path).
- * - It defines a recursive helper function `detectCycle` to perform the traversal.
- * - If it encounters a node that is already in the `recursionStack`,
- * it identifies this as a cycle and records the path.
+ * - Indexes the symbol lists once (`indexEdgeSymbols`), then, for each cycle,
+ * lists the symbols crossing every hop of its path.
+ * - For each hub, lists the union of the symbols its importers use.
  *
  * 4. RETURNS:
- * - An array of objects. Each object contains a `path` (string array)
- * that describes one detected circular dependency.
+ * - The same report with `edgeSymbols` / `importedSymbols` filled in.
  */
-function findCircularDependencies(dependencyMap: DependencyMap): {path: string[];}[] {
-
-  const cycles: { path: string[] }[] = [];
-  const visited = new Set<string>();
-  const recursionStack = new Set<string>();
-  const allNodes = new Set<string>(dependencyMap.keys());
-
-  dependencyMap.forEach((deps) => deps.forEach((dep) => allNodes.add(dep)));
-
-  /**
-   * 1. FOR:
-   * A recursive helper function to perform the DFS traversal for cycle detection.
-   *
-   * 2. TAKES:
-   * - node: The string name of the current module being explored.
-   * - path: An array of strings representing the current import path being followed.
-   *
-   * 3. DOES:
-   * - Marks the current node as visited and adds it to the recursion stack and path.
-   * - Iterates through all dependencies of the current node.
-   * - If a dependency is already in the `recursionStack`, a cycle is found,
-   * and its path is constructed and stored in the `cycles` array.
-   * - If a dependency has not been visited, it calls itself recursively.
-   * - After exploring all dependencies, it "backtracks" by removing the node
-   * from the path and recursion stack.
-   *
-   * 4. RETURNS:
-   * - void (it modifies the `cycles` array directly via closure).
-   */
-  function detectCycle(node: string, path: string[]) {
-    visited.add(node);
-    recursionStack.add(node);
-    path.push(node);
-
-    const dependencies = dependencyMap.get(node) || [];
-
-    for (const dependency of dependencies) {
-      if (recursionStack.has(dependency)) {
-        const cyclePath = [...path.slice(path.indexOf(dependency)), dependency];
-        cycles.push({ path: cyclePath });
-        continue;
-      }
-
-      if (!visited.has(dependency)) {
-        detectCycle(dependency, path);
-      }
-    }
-
-    path.pop();
-    recursionStack.delete(node);
-  }
-
-  for (const node of allNodes) {
-    if (!visited.has(node)) {
-      detectCycle(node, []);
-    }
-  }
-
-  return cycles;
+function attachSymbols(
+  result: HeuristicAnalysisResult,
+  edgeSymbols: EdgeSymbols[]
+): HeuristicAnalysisResult {
+  const symbolIndex = indexEdgeSymbols(edgeSymbols);
+  const circularDependencies = result.circularDependencies.map(({ path }) => ({
+    path,
+    edgeSymbols: path.slice(0, -1).map((from, index) => ({
+      from,
+      to: path[index + 1],
+      symbols: getEdgeSymbols(symbolIndex, from, path[index + 1]),
+    })),
+  }));
+
+  const tightlyCoupledModules = result.tightlyCoupledModules.map(({ module, importedBy }) => ({
+    module,
+    importedBy,
+    importedSymbols: [
+      ...new Set(importedBy.flatMap((importer) => getEdgeSymbols(symbolIndex, importer, module))),
+    ].sort(),
+  }));
+
+  return { ...result, circularDependencies, tightlyCoupledModules };
 }
 
 /**
@@ -154,8 +197,8 @@ function findCircularDependencies(dependencyMap: DependencyMap): {path: string[]
  * be considered a hub.
  *
  * 3. DOES:
- * - 1. Builds a reverse mapping (`incomingMap`) by iterating the
- * `dependencyMap`. This new map stores: moduleName -> [importer1, importer2].
+ * - 1. Builds the reverse mapping (`incomingMap`) with `buildReverseIndex`.
+ * This map stores: moduleName -> [importer1, importer2].
  * - 2. Filters the `incomingMap` to find all modules where the
  * number of importers is greater than or equal to the `threshold`.
  * - 3. Sorts the final list of hubs in descending order (most imported first).
@@ -164,22 +207,14 @@ function findCircularDependencies(dependencyMap: DependencyMap): {path: string[]
  * - A list of objects, where each object contains the `module` name
  * and an array `importedBy` listing the files that import it.
  */
-function findTightlyCoupledModules( dependencyMap: DependencyMap, threshold: number): { module: string; importedBy: string[] }[] {
+function findTightlyCoupledModules( dependencyMap: DependencyMap, threshold: number): { module: string; importedBy: string[]; importedSymbols: string[] }[] {
   
-  const incomingMap = new Map<string, string[]>();
-
-  for (const [importer, dependencies] of dependencyMap.entries()) {
-    for (const importedModule of dependencies) {
-      const importers = incomingMap.get(importedModule) || [];
-      importers.push(importer);
-      incomingMap.set(importedModule, importers);
-    }
-  }
+  const incomingMap = buildReverseIndex(dependencyMap);
 
-  const hubs: { module: string; importedBy: string[] }[] = [];
+  const hubs: { module: string; importedBy: string[]; importedSymbols: string[] }[] = [];
   for (const [module, importedBy] of incomingMap.entries()) {
     if (importedBy.length >= threshold) {
-      hubs.push({ module, importedBy });
+      hubs.push({ module, importedBy, importedSymbols: [] });
     }
   }
 
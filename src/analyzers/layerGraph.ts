@@ -0,0 +1,190 @@
+/**
+ * @file layerGraph.ts
+ *
+ * 1. FILE PURPOSE
+ * This file collapses the file-level dependency graph into a layer-level
+ * graph: every module is grouped under its directory, cut to a configurable
+ * depth (`src/utils`, `src/core`, ...). Each layer edge carries the number of
+ * file imports behind it, and cycles and hubs are computed between layers, so
+ * coupling can be discussed between parts of the system instead of files.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - LayerNode (Interface): One layer, with its module count and the imports
+ * that stay inside it.
+ * - LayerEdge (Interface): One aggregated dependency between two layers.
+ * - LayerGraphOptions (Interface): The grouping depth, the hub threshold and
+ * the cycle enumeration settings.
+ * - LayerGraphResult (Interface): The collapsed graph and its cycles and hubs.
+ * - DEFAULT_LAYER_DEPTH (Constant): The default number of directory segments
+ * kept in a layer name.
+ *
+ * 3. FUNCTIONALITIES
+ * - getLayer(module, depth): Maps a module path to its layer name.
+ * - buildLayerGraph(dependencyMap, options): The main public function. Builds
+ * the weighted layer graph and runs the cycle and hub analysis on it.
+ */
+
+import * as path from 'path';
+import { DependencyMap } from '../core/parser';
+import { analyzeCycles, CycleAnalysisOptions, StronglyConnectedComponent } from './cycleAnalysis';
+
+export interface LayerNode {
+  layer: string;
+  moduleCount: number;
+  internalImports: number;
+}
+
+export interface LayerEdge {
+  from: string;
+  to: string;
+  weight: number;
+}
+
+export interface LayerGraphOptions extends CycleAnalysisOptions {
+  depth?: number;
+  hubThreshold?: number;
+}
+
+export interface LayerGraphResult {
+  depth: number;
+  layers: LayerNode[];
+  edges: LayerEdge[];
+  stronglyConnectedComponents: StronglyConnectedComponent[];
+  cycles: {
+    path: string[];
+    weight: number;
+  }[];
+  hubs: {
+    layer: string;
+    importedBy: string[];
+    weight: number;
+  }[];
+}
+
+export const DEFAULT_LAYER_DEPTH = 2;
+
+/**
+ * 1. FOR:
+ * Finding the layer a module belongs to.
+ *
+ * 2. TAKES:
+ * - module: A root-relative, `/`-separated module path.
+ * - depth: The number of directory segments to keep.
+ *
+ * 3. DOES:
+ * - Takes the module's directory and keeps its first `depth` segments
+ * (`src/core/parser.ts` is `src` at depth 1 and `src/core` at depth 2).
+ * - Modules shallower than `depth` keep their whole directory; files in the
+ * project root belong to the `.` layer.
+ *
+ * 4. RETURNS:
+ * - The layer name.
+ */
+export function getLayer(module: string, depth: number): string {
+  const directory = path.posix.dirname(module);
+  if (directory === '.') {
+    return '.';
+  }
+  return directory.split('/').slice(0, Math.max(1, depth)).join('/');
+}
+
+/**
+ * 1. FOR:
+ * Building the layer-level view of the dependency graph.
+ *
+ * 2. TAKES:
+ * - dependencyMap: The file-level dependency graph.
+ * - options: Optional `LayerGraphOptions` (`depth`, default `DEFAULT_LAYER_DEPTH`;
+ * `hubThreshold`, the minimum number of importing layers for a hub, default 3;
+ * plus the `CycleAnalysisOptions`).
+ *
+ * 3. DOES:
+ * - 1. Maps every module to its layer and counts the modules per layer.
+ * - 2. Aggregates the file imports: imports between two layers become one edge
+ * weighted by their count, imports inside a layer add to its `internalImports`.
+ * - 3. Runs `analyzeCycles` on the layer graph; each cycle's weight is the
+ * smallest edge weight on it (the fewest file imports to move to break it).
+ * - 4. Flags as hubs the layers imported by at least `hubThreshold` other layers.
+ *
+ * 4. RETURNS:
+ * - A `LayerGraphResult`, with edges sorted by weight (heaviest first) and
+ * hubs by number of importing layers.
+ */
+export function buildLayerGraph(
+  dependencyMap: DependencyMap,
+  options: LayerGraphOptions = {}
+): LayerGraphResult {
+  const depth = options.depth ?? DEFAULT_LAYER_DEPTH;
+  const hubThreshold = options.hubThreshold ?? 3;
+
+  const members = new Map<string, Set<string>>();
+  const internalImports = new Map<string, number>();
+  const weights = new Map<string, number>();
+
+  const addModule = (module: string) => {
+    const layer = getLayer(module, depth);
+    const set = members.get(layer) ?? new Set<string>();
+    set.add(module);
+    members.set(layer, set);
+    return layer;
+  };
+
+  for (const [module, dependencies] of dependencyMap.entries()) {
+    const from = addModule(module);
+    for (const dependency of dependencies) {
+      const to = addModule(dependency);
+      if (from === to) {
+        internalImports.set(from, (internalImports.get(from) ?? 0) + 1);
+      } else {
+        const key = `${from}\0${to}`;
+        weights.set(key, (weights.get(key) ?? 0) + 1);
+      }
+    }
+  }
+
+  const edges: LayerEdge[] = [...weights.entries()]
+    .map(([key, weight]) => {
+      const [from, to] = key.split('\0');
+      return { from, to, weight };
+    })
+    .sort((a, b) => b.weight - a.weight || a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+
+  const layerMap: DependencyMap = new Map([...members.keys()].sort().map((layer) => [layer, []]));
+  edges.forEach((edge) => layerMap.get(edge.from)!.push(edge.to));
+  layerMap.forEach((dependencies) => dependencies.sort());
+
+  const { components, cycles } = analyzeCycles(layerMap, options);
+  const weightedCycles = cycles.map(({ path: cyclePath }) => ({
+    path: cyclePath,
+    weight: Math.min(
+      ...cyclePath.slice(0, -1).map((from, index) => weights.get(`${from}\0${cyclePath[index + 1]}`) ?? 0)
+    ),
+  }));
+
+  const hubs = [...layerMap.keys()]
+    .map((layer) => {
+      const incoming = edges.filter((edge) => edge.to === layer);
+      return {
+        layer,
+        importedBy: incoming.map((edge) => edge.from).sort(),
+        weight: incoming.reduce((sum, edge) => sum + edge.weight, 0),
+      };
+    })
+    .filter((hub) => hub.importedBy.length >= hubThreshold)
+    .sort((a, b) => b.importedBy.length - a.importedBy.length || b.weight - a.weight);
+
+  const layers: LayerNode[] = [...layerMap.keys()].map((layer) => ({
+    layer,
+    moduleCount: members.get(layer)!.size,
+    internalImports: internalImports.get(layer) ?? 0,
+  }));
+
+  return {
+    depth,
+    layers,
+    edges,
+    stronglyConnectedComponents: components,
+    cycles: weightedCycles,
+    hubs,
+  };
+}
@@ -2,34 +2,55 @@
  * @file llmAnalyzer.ts
  *
  * 1. FILE PURPOSE
- * This file is responsible for connecting to the Google Gemini Generative AI
- * service. It sends the project's dependency graph to the AI model and
- * requests an intelligent, semantic analysis.
+ * This file is responsible for the LLM-driven analysis. It sends the
+ * project's dependency graph to the configured model (Gemini, an
+ * OpenAI-compatible server or the fixture-backed mock, see `llm/providers.ts`)
+ * and requests an intelligent, semantic analysis. Graphs too large for one
+ * request are split into chunks (see `llmChunking.ts`) that are analyzed
+ * separately; their findings are merged and a final pass writes the
+ * project-wide recommendations. Complete results are kept in the on-disk
+ * cache (see `llm/resultCache.ts`), so an unchanged graph is not sent again.
  *
  * 2. VARIABLES / CONSTANTS
  * - AnalysisResult (Interface): Defines the structured JSON format that
- * we expect the LLM to return.
- * - generationConfig (Object): Configuration for the Gemini model to control
- * its creativity (temperature) and ensure it returns JSON.
- * - safetySettings (Array): Configuration to disable content safety filters,
- * as code analysis is a safe context.
+ * we expect the LLM to return, plus the `validationIssues` the analyzer adds.
+ * - LlmFindings (Type): The part of `AnalysisResult` the model answers with.
+ * - LlmAnalysisOptions (Interface): The provider, the number of repair
+ * attempts, the token budget of one graph message, whether to read the cache
+ * and a signal that stops the analysis.
+ * - PROMPT_VERSION (Constant): Part of the cache key; bump it whenever the
+ * prompts or the schemas change, so cached answers to the old prompts are not reused.
+ * - ANALYSIS_RESULT_SCHEMA (Constant): The runtime schema of the LLM answer.
+ * Invalid list entries are dropped and an invalid top-level field becomes an
+ * empty list, so one bad entry does not discard the whole answer.
+ * - SUMMARY_SCHEMA (Constant): The runtime schema of the summary answer.
  * - systemPrompt (String): The detailed instructions that tell the LLM
  * how to act (as an architect) and what to analyze.
+ * - summaryPrompt (String): The instructions of the cross-chunk summary pass.
  *
  * 3. FUNCTIONALITIES
- * - analyzeDependencies(dependencyMap): The main public function. It formats
- * the dependency data, sends it to the Gemini API, and parses the
- * resulting JSON analysis.
+ * - analyzeDependencies(dependencyMap, edgeSymbols, options): The main public function. It formats
+ * the dependency data (and, when given, the symbols crossing each edge),
+ * sends it to the LLM provider in one or more chunks, validates the JSON
+ * analysis and asks the model to repair it when it does not match the schema.
+ * - analysisCacheKey(dependencyMap, edgeSymbols, llm, maxInputTokens): A private
+ * helper that hashes the normalized graph, the prompt version and the model.
+ * - parseResponse(text, schema): A private helper that extracts, parses and validates one answer.
+ * - requestValidated(llm, prompt, message, schema, repairAttempts): A private
+ * helper that runs one request with its repair attempts.
+ * - mergeFindings(results): A private helper that merges and de-duplicates chunk findings.
+ * - summarizeFindings(llm, findings, chunks, repairAttempts): A private helper
+ * that runs the cross-chunk summary pass.
  */
 
-import {
-  GoogleGenerativeAI,
-  GenerationConfig,
-  SafetySetting,
-  HarmCategory,
-  HarmBlockThreshold,
-} from '@google/generative-ai';
-import { DependencyMap } from '../core/parser'; 
+import { DependencyMap } from '../core/parser';
+import { EdgeSymbols } from './symbolAnalysis';
+import { Schema, validateSchema, ValidationIssue, ValidationResult } from './schemaValidation';
+import { cycleKey } from './cycleAnalysis';
+import { chunkDependencyGraph, GraphChunk } from './llmChunking';
+import { createLlmProvider, loadLlmConfig } from '../llm/providers';
+import { hashCacheKey, readCacheEntry, writeCacheEntry } from '../llm/resultCache';
+import { LlmConfig, LlmProvider } from '../llm/types';
 
 export interface AnalysisResult {
   circularDependencies: {
@@ -42,87 +63,74 @@ export interface AnalysisResult {
     recommendation: string;
   }[];
   refactoringRecommendations: string[];
+  validationIssues: ValidationIssue[];
 }
 
-/**
- * 1. FOR:
- * Analyzes a given dependency map using the Google Gemini LLM to identify
- * circular dependencies, hubs, and refactoring opportunities.
- *
- * 2. TAKES:
- * - dependencyMap: A Map<string, string[]> representing the project's
- * dependency graph.
- *
- * 3. DOES:
- * - 1. Loads the `GEMINI_API_KEY` from environment variables.
- * - 2. Initializes the `GoogleGenerativeAI` client and selects a model.
- * - 3. Defines model configurations (e.g., `generationConfig`, `safetySettings`).
- * - 4. Converts the `dependencyMap` (a Map) into a JSON string that the
- * model can understand.
- * - 5. Defines a `systemPrompt` instructing the LLM on its role and task.
- * - 6. Starts a chat session and sends the prompt and dependency JSON.
- * - 7. Receives the text response and performs robust JSON parsing,
- * handling potential markdown wrappers (```json) or extra text.
- * - 8. Handles errors, including API failures or response blocking.
- *
- * 4. RETURNS:
- * - A Promise that resolves to a structured `AnalysisResult` object if
- * successful, or `null` if an error occurs.
- */
-export async function analyzeDependencies( dependencyMap: DependencyMap): Promise<AnalysisResult | null> {
-
-    const apiKey = process.env.GEMINI_API_KEY;
-
-    if (!apiKey) {
-    console.error(
-      'GEMINI_API_KEY is not found. Please create a .env file and add it.'
-    );
-    return null;
-  }
+export type LlmFindings = Omit<AnalysisResult, 'validationIssues'>;
 
-  console.log('Gemini API key found. Initializing client...');
+export interface LlmAnalysisOptions {
+  provider?: LlmProvider;
+  repairAttempts?: number;
+  maxInputTokens?: number;
+  useCache?: boolean;
+  signal?: AbortSignal;
+}
 
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({
-    model: 'gemini-2.5-flash-preview-09-2025',
-  });
+export const PROMPT_VERSION = 1;
 
-  const generationConfig: GenerationConfig = {
-    temperature: 0.2,
-    topK: 1,
-    topP: 1,
-    maxOutputTokens: 8192,
-    responseMimeType: 'application/json', 
-  };
-
-  const safetySettings: SafetySetting[] = [
-    {
-      category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-      threshold: HarmBlockThreshold.BLOCK_NONE,
-    },
-    {
-      category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-      threshold: HarmBlockThreshold.BLOCK_NONE,
+const ANALYSIS_RESULT_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    circularDependencies: {
+      type: 'array',
+      dropInvalidItems: true,
+      fallback: [],
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'array', minItems: 2, items: { type: 'string', minLength: 1 } },
+          reason: { type: 'string', minLength: 1 },
+        },
+      },
     },
-    {
-      category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-      threshold: HarmBlockThreshold.BLOCK_NONE,
+    tightlyCoupledModules: {
+      type: 'array',
+      dropInvalidItems: true,
+      fallback: [],
+      items: {
+        type: 'object',
+        properties: {
+          module: { type: 'string', minLength: 1 },
+          importedBy: { type: 'array', dropInvalidItems: true, items: { type: 'string', minLength: 1 } },
+          recommendation: { type: 'string', minLength: 1 },
+        },
+      },
     },
-    {
-      category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-      threshold: HarmBlockThreshold.BLOCK_NONE,
+    refactoringRecommendations: {
+      type: 'array',
+      dropInvalidItems: true,
+      fallback: [],
+      items: { type: 'string', minLength: 1 },
     },
-  ];
+  },
+};
 
-  const dependencyObject: { [key: string]: string[] } = {}; 
-    dependencyMap.forEach((value, key) => {
-    dependencyObject[key] = value;
-  });
-  
-  const dependencyJson = JSON.stringify(dependencyObject, null, 2);
+const SUMMARY_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    refactoringRecommendations: {
+      type: 'array',
+      dropInvalidItems: true,
+      minItems: 1,
+      items: { type: 'string', minLength: 1 },
+    },
+  },
+};
 
-  const systemPrompt = `You are a senior software architect reviewing a TypeScript project's dependency graph.
+const systemPrompt = `You are a senior software architect reviewing a TypeScript project's dependency graph.
 The user will provide a JSON object where each key is a file and its value is an array of the local files it imports.
+It may instead provide { "dependencies": <that object>, "symbolsCrossingEdges": <object> }, where each key of "symbolsCrossingEdges" is an edge "importer -> imported" and its value lists the exported names used across that edge ("*" means the whole module). When present, refer to these symbols in your reasons and recommendations.
+For large projects the graph is split into parts: imported files that are not keys of the object belong to another part of the project.
 
 Your task is to analyze this graph and provide a structured JSON response with three properties:
 1.  "circularDependencies": An array of objects. Each object should have:
@@ -139,51 +147,450 @@ Your task is to analyze this graph and provide a structured JSON response with t
 Analyze the following dependency graph:
 `;
 
-  console.log('Sending dependency graph to LLM for analysis...');
+const summaryPrompt = `You are a senior software architect. A large TypeScript project's dependency graph was reviewed in several parts.
+The user will provide a JSON object with the parts ("parts": label and module count), the circular dependencies and hub modules found across all parts, and the recommendations made for each part.
 
-  let responseText = '';
+Write project-wide recommendations that look across the parts: recurring patterns, dependencies between parts, and which changes would help most.
+Respond with a JSON object with one property, "refactoringRecommendations": an array of 3-5 strings.
+`;
+
+/**
+ * 1. FOR:
+ * Naming the cache entry of an analysis.
+ *
+ * 2. TAKES:
+ * - dependencyMap: The file-level dependency graph.
+ * - edgeSymbols: The symbols crossing each edge.
+ * - llm: The `LlmProvider` (its name and model).
+ * - maxInputTokens: The chunk budget, which changes what the model sees.
+ *
+ * 3. DOES:
+ * - Normalizes the graph (modules, imports, edges and symbols sorted, duplicate
+ * imports removed) so the key does not depend on file discovery order.
+ * - Hashes it together with `PROMPT_VERSION`, the provider and the model.
+ *
+ * 4. RETURNS:
+ * - The cache key.
+ */
+function analysisCacheKey(
+  dependencyMap: DependencyMap,
+  edgeSymbols: EdgeSymbols[],
+  llm: LlmProvider,
+  maxInputTokens: number
+): string {
+  return hashCacheKey({
+    promptVersion: PROMPT_VERSION,
+    provider: llm.name,
+    model: llm.model,
+    maxInputTokens,
+    dependencies: [...dependencyMap.keys()]
+      .sort()
+      .map((module) => [module, [...new Set(dependencyMap.get(module))].sort()]),
+    edgeSymbols: edgeSymbols
+      .map((edge) => [`${edge.from} -> ${edge.to}`, [...edge.symbols].sort()] as const)
+      .sort((a, b) => a[0].localeCompare(b[0])),
+  });
+}
+
+/**
+ * 1. FOR:
+ * Turning one raw LLM answer into a validated value.
+ *
+ * 2. TAKES:
+ * - text: The model's answer.
+ * - schema: The `Schema` the answer must match.
+ *
+ * 3. DOES:
+ * - Strips a markdown wrapper (```json) or text around the JSON object.
+ * - Parses the JSON (a syntax error becomes an issue at `$`) and validates it
+ * against the schema.
+ *
+ * 4. RETURNS:
+ * - The `ValidationResult`; its `value` is `undefined` when the answer is not
+ * a JSON object at all.
+ */
+function parseResponse<T>(text: string, schema: Schema): ValidationResult<T> {
+  let responseText = text;
+
+  const jsonMatch = responseText.match(/```json([\s\S]*)```/);
+  if (jsonMatch && jsonMatch[1]) {
+    responseText = jsonMatch[1];
+  }
+
+  const objectMatch = responseText.match(/\{[\s\S]*\}/);
+  if (objectMatch && objectMatch[0]) {
+    responseText = objectMatch[0];
+  }
+
+  let data: unknown;
   try {
-    const chat = model.startChat({
-      generationConfig,
-      safetySettings,
-      history: [{ role: 'user', parts: [{ text: systemPrompt }] }],
-    });
+    data = JSON.parse(responseText);
+  } catch (err) {
+    return { valid: false, value: undefined, issues: [{ path: '$', message: `not valid JSON (${(err as Error).message})` }] };
+  }
+  return validateSchema(data, schema);
+}
+
+/**
+ * 1. FOR:
+ * Running one LLM request until its answer matches the schema.
+ *
+ * 2. TAKES:
+ * - llm: The `LlmProvider`.
+ * - prompt: The system prompt.
+ * - message: The user message.
+ * - schema: The `Schema` the answer must match.
+ * - repairAttempts: How many times an invalid answer may be sent back.
+ * - signal: Optional signal that cancels the request and its repairs.
+ *
+ * 3. DOES:
+ * - Sends the request and validates the answer with `parseResponse`. When it
+ * does not match, re-sends the message together with the invalid answer and
+ * its issues, up to `repairAttempts` times.
+ * - Passes `signal` to the provider and checks it before every attempt.
+ * - Keeps the attempt with the fewest issues. Provider errors (including an
+ * abort) are thrown.
+ *
+ * 4. RETURNS:
+ * - A `Promise` of the best `ValidationResult` (its `value` is `undefined`
+ * when no attempt produced a JSON object) and the last raw answer.
+ */
+async function requestValidated<T>(
+  llm: LlmProvider,
+  prompt: string,
+  message: string,
+  schema: Schema,
+  repairAttempts: number,
+  signal?: AbortSignal
+): Promise<{ result: ValidationResult<T>; responseText: string }> {
+  let responseText = '';
+  let last: ValidationResult<T> | null = null;
+  let best: ValidationResult<T> | null = null;
 
-    const result = await chat.sendMessage(dependencyJson);
-    const response = result.response;
+  for (let attempt = 0; attempt <= repairAttempts; attempt++) {
+    signal?.throwIfAborted();
+    const userMessage = !last
+      ? message
+      : `${message}
 
-    if (response.promptFeedback?.blockReason) {
-      console.error(
-        `LLM response was blocked. Reason: ${response.promptFeedback.blockReason}`
+Your previous answer did not match the required JSON structure:
+${last.issues.map((issue) => `- ${issue.path}: ${issue.message}`).join('\n')}
+
+Your previous answer was:
+${responseText}
+
+Return the corrected JSON object only.`;
+
+    const response = await llm.generate({ systemPrompt: prompt, userMessage, signal });
+
+    if (response.truncated) {
+      console.warn(
+        `LLM response may have been truncated (output token limit reached).`
       );
-      return null;
     }
 
-    if (response.candidates?.[0]?.finishReason === 'MAX_TOKENS') {
+    responseText = response.text;
+    last = parseResponse<T>(responseText, schema);
+    if (!best || (last.value && (!best.value || last.issues.length < best.issues.length))) {
+      best = last;
+    }
+    if (last.valid) {
+      break;
+    }
+    console.warn(
+      `LLM response failed validation (${last.issues.length} issue(s))` +
+        (attempt < repairAttempts ? ', asking the model to repair it...' : '.')
+    );
+  }
+
+  return { result: best!, responseText };
+}
+
+/**
+ * 1. FOR:
+ * Combining the findings of several chunks.
+ *
+ * 2. TAKES:
+ * - results: The validated findings of every chunk.
+ *
+ * 3. DOES:
+ * - Cycles: de-duplicated by `cycleKey`, keeping the first reason.
+ * - Hubs: merged by module, with the union of their importers (a hub's
+ * importers may be spread over several chunks) and every distinct recommendation.
+ * - Recommendations: de-duplicated, ignoring case and surrounding whitespace.
+ *
+ * 4. RETURNS:
+ * - The merged `LlmFindings`.
+ */
+function mergeFindings(results: LlmFindings[]): LlmFindings {
+  const cycles = new Map<string, LlmFindings['circularDependencies'][number]>();
+  const hubs = new Map<string, { importedBy: Set<string>; recommendations: string[] }>();
+  const recommendations = new Map<string, string>();
+
+  results.forEach((result) => {
+    result.circularDependencies.forEach((cycle) => {
+      const key = cycleKey(cycle.path);
+      if (!cycles.has(key)) {
+        cycles.set(key, cycle);
+      }
+    });
+    result.tightlyCoupledModules.forEach((hub) => {
+      const merged = hubs.get(hub.module) ?? { importedBy: new Set<string>(), recommendations: [] };
+      hub.importedBy.forEach((importer) => merged.importedBy.add(importer));
+      if (!merged.recommendations.includes(hub.recommendation)) {
+        merged.recommendations.push(hub.recommendation);
+      }
+      hubs.set(hub.module, merged);
+    });
+    result.refactoringRecommendations.forEach((recommendation) => {
+      const key = recommendation.trim().toLowerCase();
+      if (!recommendations.has(key)) {
+        recommendations.set(key, recommendation.trim());
+      }
+    });
+  });
+
+  return {
+    circularDependencies: [...cycles.values()],
+    tightlyCoupledModules: [...hubs].map(([module, hub]) => ({
+      module,
+      importedBy: [...hub.importedBy].sort(),
+      recommendation: hub.recommendations.join(' '),
+    })),
+    refactoringRecommendations: [...recommendations.values()],
+  };
+}
+
+/**
+ * 1. FOR:
+ * The final pass over a chunked analysis: recommendations for the whole project.
+ *
+ * 2. TAKES:
+ * - llm: The `LlmProvider`.
+ * - findings: The merged findings of all chunks.
+ * - chunks: The chunks, for their labels and sizes.
+ * - repairAttempts: How many times an invalid answer may be sent back.
+ * - signal: Optional signal that cancels the request.
+ *
+ * 3. DOES:
+ * - Sends the merged cycles, hubs (with importer counts instead of importer
+ * lists, to stay small) and per-chunk recommendations with `summaryPrompt`.
+ *
+ * 4. RETURNS:
+ * - A `Promise` of the validated summary (`value` is `undefined` when the
+ * answer was unusable). Provider errors are thrown.
+ */
+async function summarizeFindings(
+  llm: LlmProvider,
+  findings: LlmFindings,
+  chunks: GraphChunk[],
+  repairAttempts: number,
+  signal?: AbortSignal
+): Promise<ValidationResult<Pick<LlmFindings, 'refactoringRecommendations'>>> {
+  const message = JSON.stringify({
+    parts: chunks.map((chunk) => ({ label: chunk.label, modules: chunk.modules.length })),
+    circularDependencies: findings.circularDependencies,
+    tightlyCoupledModules: findings.tightlyCoupledModules.map((hub) => ({
+      module: hub.module,
+      importerCount: hub.importedBy.length,
+      recommendation: hub.recommendation,
+    })),
+    recommendationsPerPart: findings.refactoringRecommendations,
+  });
+
+  const { result } = await requestValidated<Pick<LlmFindings, 'refactoringRecommendations'>>(
+    llm,
+    summaryPrompt,
+    message,
+    SUMMARY_SCHEMA,
+    repairAttempts,
+    signal
+  );
+  return result;
+}
+
+/**
+ * 1. FOR:
+ * Analyzes a given dependency map using the configured LLM to identify
+ * circular dependencies, hubs, and refactoring opportunities.
+ *
+ * 2. TAKES:
+ * - dependencyMap: A Map<string, string[]> representing the project's
+ * dependency graph.
+ * - edgeSymbols: Optional list of the exported names crossing each edge
+ * (names only, never source code).
+ * - options: Optional `LlmAnalysisOptions`: the `provider` (by default the one
+ * configured by the `LLM_*` environment variables, see `createLlmProvider`),
+ * `repairAttempts` (by default `LLM_REPAIR_ATTEMPTS`, 2), `maxInputTokens`
+ * (by default `LLM_MAX_INPUT_TOKENS`) and `useCache` (default `true`; `false`
+ * skips the cache lookup but still stores the fresh result). An aborted
+ * `signal` cancels the request in flight and ends the analysis with `null`,
+ * without writing the cache.
+ *
+ * 3. DOES:
+ * - 1. Builds the provider (a missing API key or an invalid `LLM_*` value is
+ * reported and ends the analysis).
+ * - 2. Looks the graph up in the result cache (`LLM_CACHE_DIR`, entries older
+ * than `LLM_CACHE_TTL_HOURS` are ignored) and returns the cached result on a
+ * hit. A cached result is validated against `ANALYSIS_RESULT_SCHEMA` like a
+ * fresh answer, and any issue (e.g. a hand-edited or corrupted file) makes it
+ * a miss. The mock provider is never cached, so fixture edits take effect.
+ * - 3. Converts the `dependencyMap` into compact JSON that the model can
+ * understand, and splits it with `chunkDependencyGraph` when its estimated
+ * size exceeds `maxInputTokens`. When `edgeSymbols` are given, the graph is
+ * sent as `{ dependencies, symbolsCrossingEdges }` so the model can name the
+ * exact exports behind each coupling.
+ * - 4. Sends every chunk with `systemPrompt` through `requestValidated`, which
+ * validates the answer and asks the model to repair it when needed.
+ * - 5. With several chunks, merges the findings with `mergeFindings` and runs
+ * the `summarizeFindings` pass; its recommendations replace the per-chunk
+ * ones. A failed chunk or summary is reported as a validation issue and the
+ * analysis goes on with the rest.
+ * - 6. Stores the result in the cache when it has no validation issues, so a
+ * partly invalid answer is asked again next time.
+ * - 7. Handles errors, including API failures or response blocking.
+ *
+ * 4. RETURNS:
+ * - A Promise that resolves to the `AnalysisResult` (the valid part of the
+ * answers, with the remaining issues in `validationIssues`), or `null` if the
+ * provider failed or no answer was usable.
+ */
+export async function analyzeDependencies(
+  dependencyMap: DependencyMap,
+  edgeSymbols: EdgeSymbols[] = [],
+  options: LlmAnalysisOptions = {}
+): Promise<AnalysisResult | null> {
+  let config: LlmConfig;
+  let llm: LlmProvider;
+  let repairAttempts: number;
+  let maxInputTokens: number;
+  try {
+    config = loadLlmConfig();
+    llm = options.provider ?? createLlmProvider(config);
+    repairAttempts = options.repairAttempts ?? config.repairAttempts;
+    maxInputTokens = options.maxInputTokens ?? config.maxInputTokens;
+  } catch (err) {
+    console.error((err as Error).message);
+    return null;
+  }
+
+  console.log(`Using LLM provider "${llm.name}" (model ${llm.model}).`);
+
+  const cacheKey = analysisCacheKey(dependencyMap, edgeSymbols, llm, maxInputTokens);
+  const cacheEnabled = llm.name !== 'mock' && config.cacheTtlHours > 0;
+  if (cacheEnabled && options.useCache !== false) {
+    const cached = await readCacheEntry<unknown>(config.cacheDir, cacheKey, config.cacheTtlHours);
+    const checked = cached && validateSchema<LlmFindings>(cached.result, ANALYSIS_RESULT_SCHEMA);
+    if (cached && checked?.valid && checked.value) {
+      console.log(`Using the cached LLM analysis from ${cached.createdAt} (${cacheKey.slice(0, 12)}).`);
+      return { ...checked.value, validationIssues: [] };
+    }
+    if (checked) {
       console.warn(
-        `LLM response may have been truncated (MAX_TOKENS reached).`
+        `Ignoring the cached LLM analysis ${cacheKey.slice(0, 12)}: ${checked.issues[0]?.path} ${checked.issues[0]?.message}.`
       );
     }
+  }
 
-    responseText = response.text();
+  const chunks = chunkDependencyGraph(dependencyMap, edgeSymbols, maxInputTokens);
+  if (chunks.length > 1) {
+    console.log(`Dependency graph exceeds ${maxInputTokens} tokens; analyzing it in ${chunks.length} chunks.`);
+  }
+
+  const results: LlmFindings[] = [];
+  const validationIssues: ValidationIssue[] = [];
+  let lastError: unknown = null;
+  let responseText = '';
 
-    const jsonMatch = responseText.match(/```json([\s\S]*)```/);
-    if (jsonMatch && jsonMatch[1]) {
-      responseText = jsonMatch[1];
+  for (const [index, chunk] of chunks.entries()) {
+    if (options.signal?.aborted) {
+      break;
+    }
+    const prefix = chunks.length > 1 ? `chunk ${index + 1}/${chunks.length} ` : '';
+    if (chunks.length > 1) {
+      console.log(`Sending chunk ${index + 1}/${chunks.length} (${chunk.label}, ~${chunk.estimatedTokens} tokens) to LLM...`);
+    } else {
+      console.log('Sending dependency graph to LLM for analysis...');
     }
 
-    const objectMatch = responseText.match(/\{[\s\S]*\}/);
-    if (objectMatch && objectMatch[0]) {
-      responseText = objectMatch[0];
+    try {
+      const answer = await requestValidated<LlmFindings>(
+        llm,
+        systemPrompt,
+        chunk.payload,
+        ANALYSIS_RESULT_SCHEMA,
+        repairAttempts,
+        options.signal
+      );
+      responseText = answer.responseText;
+      if (answer.result.value) {
+        results.push(answer.result.value);
+      }
+      answer.result.issues.forEach((issue) => validationIssues.push({ ...issue, path: `${prefix}${issue.path}` }));
+    } catch (err) {
+      lastError = err;
+      validationIssues.push({ path: `${prefix}$`, message: `request failed (${(err as Error).message})` });
     }
+  }
 
-    return JSON.parse(responseText) as AnalysisResult;
-  } catch (err) {
-    console.error('Error analyzing dependencies with LLM:', err);
+  if (options.signal?.aborted) {
+    console.warn('LLM analysis stopped.');
+    return null;
+  }
+
+  if (results.length === 0) {
+    if (lastError) {
+      console.error('Error analyzing dependencies with LLM:', lastError);
+    } else {
+      console.error('LLM response is not a JSON object:', validationIssues[0]?.message);
+    }
     console.error('--- LLM Response Text (on failure) ---');
     console.error(responseText);
     console.error('--------------------------------------');
 
     return null;
   }
+
+  const findings = mergeFindings(results);
+
+  if (chunks.length > 1 && !options.signal?.aborted) {
+    console.log('Summarizing the chunk findings...');
+    try {
+      const summary = await summarizeFindings(llm, findings, chunks, repairAttempts, options.signal);
+      if (summary.value) {
+        findings.refactoringRecommendations = summary.value.refactoringRecommendations;
+      }
+      summary.issues.forEach((issue) => validationIssues.push({ ...issue, path: `summary ${issue.path}` }));
+    } catch (err) {
+      console.error('Error summarizing the chunk findings with LLM:', err);
+      validationIssues.push({ path: 'summary $', message: `request failed (${(err as Error).message})` });
+    }
+  }
+
+  if (options.signal?.aborted) {
+    console.warn('LLM analysis stopped.');
+    return null;
+  }
+
+  validationIssues.forEach((issue) => {
+    console.warn(`LLM response issue at ${issue.path}: ${issue.message}`);
+  });
+
+  const result = { ...findings, validationIssues };
+  if (cacheEnabled && validationIssues.length === 0) {
+    try {
+      await writeCacheEntry(config.cacheDir, {
+        key: cacheKey,
+        createdAt: new Date().toISOString(),
+        provider: llm.name,
+        model: llm.model,
+        promptVersion: PROMPT_VERSION,
+        modules: dependencyMap.size,
+        result,
+      });
+    } catch (err) {
+      console.warn(`Could not write the LLM cache: ${(err as Error).message}`);
+    }
+  }
+  return result;
 }
@@ -0,0 +1,241 @@
+/**
+ * @file llmChunking.ts
+ *
+ * 1. FILE PURPOSE
+ * This file keeps large dependency graphs within the LLM's context. It
+ * estimates the token size of the graph message and, when the graph is over
+ * budget, splits it into chunks along architectural boundaries: every tangled
+ * cluster (strongly connected component) stays in one chunk, so no cycle is
+ * cut in half, and the remaining modules are grouped by directory. Each chunk
+ * still lists every import of its modules, so imports into other chunks stay
+ * visible to the model.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - GraphChunk (Interface): One chunk: a label, its modules, the message sent
+ * to the model and its estimated size.
+ * - CHARS_PER_TOKEN (Constant): The characters-per-token ratio used for estimates.
+ * - ChunkUnit (Interface): A private group of modules that must stay together.
+ *
+ * 3. FUNCTIONALITIES
+ * - estimateTokens(text): Estimates the token count of a text.
+ * - indexEdgesBySource(edgeSymbols): Groups the edge symbols by importing module.
+ * - buildGraphPayload(dependencyMap, edgesBySource, modules): The graph message for some modules.
+ * - chunkDependencyGraph(dependencyMap, edgeSymbols, maxTokens): Splits the graph into chunks.
+ * - describeModules(modules): A private helper that labels a chunk by its directories.
+ */
+
+import * as path from 'path';
+import { DependencyMap } from '../core/parser';
+import { findStronglyConnectedComponents } from './cycleAnalysis';
+import { EdgeSymbols } from './symbolAnalysis';
+
+export interface GraphChunk {
+  label: string;
+  modules: string[];
+  payload: string;
+  estimatedTokens: number;
+}
+
+interface ChunkUnit {
+  modules: string[];
+  tokens: number;
+}
+
+export const CHARS_PER_TOKEN = 4;
+
+/**
+ * 1. FOR:
+ * Estimating how many tokens a text takes, without a model-specific tokenizer.
+ *
+ * 2. TAKES:
+ * - text: The text.
+ *
+ * 3. DOES:
+ * - Divides the length by `CHARS_PER_TOKEN` (about right for JSON with file paths).
+ *
+ * 4. RETURNS:
+ * - The estimated token count.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * 1. FOR:
+ * Indexing the edge symbols once, so building a payload for a few modules
+ * does not scan every edge of the graph.
+ *
+ * 2. TAKES:
+ * - edgeSymbols: The symbols crossing each edge.
+ *
+ * 3. DOES:
+ * - Groups the entries by their importing module, keeping their order.
+ *
+ * 4. RETURNS:
+ * - A Map of importing module -> its `EdgeSymbols` entries.
+ */
+export function indexEdgesBySource(edgeSymbols: EdgeSymbols[]): Map<string, EdgeSymbols[]> {
+  const bySource = new Map<string, EdgeSymbols[]>();
+  edgeSymbols.forEach((edge) => {
+    const entries = bySource.get(edge.from);
+    if (entries) {
+      entries.push(edge);
+    } else {
+      bySource.set(edge.from, [edge]);
+    }
+  });
+  return bySource;
+}
+
+/**
+ * 1. FOR:
+ * Building the graph message sent to the model.
+ *
+ * 2. TAKES:
+ * - dependencyMap: The file-level dependency graph.
+ * - edgesBySource: The symbols crossing each edge, from `indexEdgesBySource` (may be empty).
+ * - modules: Optional subset of importing modules (default: all).
+ *
+ * 3. DOES:
+ * - Keeps the dependency lists of the selected modules (including imports of
+ * modules outside the selection) and the symbols of their edges, ordered by
+ * importer and imported module.
+ * - Serializes compactly: `{ dependencies, symbolsCrossingEdges }` when there
+ * are symbols, otherwise the plain module -> imports object.
+ *
+ * 4. RETURNS:
+ * - The JSON string.
+ */
+export function buildGraphPayload(
+  dependencyMap: DependencyMap,
+  edgesBySource: Map<string, EdgeSymbols[]>,
+  modules: string[] = [...dependencyMap.keys()]
+): string {
+  const dependencyObject: { [key: string]: string[] } = {};
+  modules.forEach((module) => {
+    dependencyObject[module] = dependencyMap.get(module) ?? [];
+  });
+
+  const symbolObject: { [edge: string]: string[] } = {};
+  modules
+    .flatMap((module) => edgesBySource.get(module) ?? [])
+    .sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to))
+    .forEach((edge) => {
+      symbolObject[`${edge.from} -> ${edge.to}`] = edge.symbols;
+    });
+
+  return JSON.stringify(
+    edgesBySource.size > 0
+      ? { dependencies: dependencyObject, symbolsCrossingEdges: symbolObject }
+      : dependencyObject
+  );
+}
+
+/**
+ * 1. FOR:
+ * Labelling a chunk for logs and validation issues.
+ *
+ * 2. TAKES:
+ * - modules: The modules of the chunk.
+ *
+ * 3. DOES:
+ * - Lists the distinct directories, at most three, with a count of the rest.
+ *
+ * 4. RETURNS:
+ * - The label, e.g. `src/core, src/utils (+2 more)`.
+ */
+function describeModules(modules: string[]): string {
+  const directories = [...new Set(modules.map((module) => path.posix.dirname(module)))].sort();
+  const shown = directories.slice(0, 3).join(', ');
+  return directories.length > 3 ? `${shown} (+${directories.length - 3} more)` : shown;
+}
+
+/**
+ * 1. FOR:
+ * Splitting a graph that is too large for one LLM request.
+ *
+ * 2. TAKES:
+ * - dependencyMap: The file-level dependency graph.
+ * - edgeSymbols: The symbols crossing each edge.
+ * - maxTokens: The token budget of one graph message.
+ *
+ * 3. DOES:
+ * - Indexes the edge symbols by importer once (`indexEdgesBySource`), so
+ * every size estimate only touches the edges of its own modules.
+ * - Returns a single chunk when the whole graph fits.
+ * - Otherwise builds units: one per strongly connected component, and one
+ * per directory for the other modules (a directory over budget is split
+ * module by module). A component over budget is kept whole and sent alone.
+ * - Packs the units, in path order so neighbouring directories stay
+ * together, into as few chunks as the budget allows.
+ *
+ * 4. RETURNS:
+ * - The `GraphChunk[]`, in path order.
+ */
+export function chunkDependencyGraph(
+  dependencyMap: DependencyMap,
+  edgeSymbols: EdgeSymbols[],
+  maxTokens: number
+): GraphChunk[] {
+  const edgesBySource = indexEdgesBySource(edgeSymbols);
+  const toChunk = (modules: string[]): GraphChunk => {
+    const payload = buildGraphPayload(dependencyMap, edgesBySource, modules);
+    return { label: describeModules(modules), modules, payload, estimatedTokens: estimateTokens(payload) };
+  };
+  const sizeOf = (modules: string[]) => estimateTokens(buildGraphPayload(dependencyMap, edgesBySource, modules));
+
+  const whole = toChunk([...dependencyMap.keys()]);
+  if (whole.estimatedTokens <= maxTokens) {
+    return [whole];
+  }
+
+  const units: ChunkUnit[] = [];
+  const clustered = new Set<string>();
+  findStronglyConnectedComponents(dependencyMap).forEach((component) => {
+    const modules = component.filter((module) => dependencyMap.has(module));
+    modules.forEach((module) => clustered.add(module));
+    units.push({ modules, tokens: sizeOf(modules) });
+  });
+
+  const byDirectory = new Map<string, string[]>();
+  [...dependencyMap.keys()]
+    .filter((module) => !clustered.has(module))
+    .forEach((module) => {
+      const directory = path.posix.dirname(module);
+      const members = byDirectory.get(directory);
+      if (members) {
+        members.push(module);
+      } else {
+        byDirectory.set(directory, [module]);
+      }
+    });
+  byDirectory.forEach((modules) => {
+    const tokens = sizeOf(modules);
+    if (tokens <= maxTokens) {
+      units.push({ modules, tokens });
+    } else {
+      modules.forEach((module) => units.push({ modules: [module], tokens: sizeOf([module]) }));
+    }
+  });
+
+  const firstModule = new Map(units.map((unit) => [unit, [...unit.modules].sort()[0]]));
+  units.sort((a, b) => firstModule.get(a)!.localeCompare(firstModule.get(b)!));
+
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+  units.forEach((unit) => {
+    if (current.length > 0 && currentTokens + unit.tokens > maxTokens) {
+      chunks.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    unit.modules.forEach((module) => current.push(module));
+    currentTokens += unit.tokens;
+  });
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+
+  return chunks.map(toChunk);
+}
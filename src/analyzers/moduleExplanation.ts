@@ -0,0 +1,139 @@
+/**
+ * @file moduleExplanation.ts
+ *
+ * 1. FILE PURPOSE
+ * This file gathers everything the analysis knows about one module: who
+ * imports it and which symbols they use, what it depends on, the cycles and
+ * rule violations it takes part in, its coupling metrics and its unused
+ * exports. It backs the `explain <module>` command.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - ModuleLink (Interface): One importer or dependency, with the symbols
+ * crossing the edge and the line of the import.
+ * - ModuleExplanation (Interface): The full explanation of one module.
+ *
+ * 3. FUNCTIONALITIES
+ * - findModule(graph, query): Resolves a user-supplied module name.
+ * - explainModule(module, graph, heuristicResult): The main public function.
+ */
+
+import { ProjectGraph } from '../core/parser';
+import { HeuristicAnalysisResult } from './heuristicAnalyzer';
+import { edgeKey, getEdgeSymbols, indexEdgeSymbols, UnusedExport } from './symbolAnalysis';
+import { ModuleMetrics } from './couplingMetrics';
+import { RuleViolation } from './architectureRules';
+import { getLayer } from './layerGraph';
+
+export interface ModuleLink {
+  module: string;
+  symbols: string[];
+  line: number | null;
+}
+
+export interface ModuleExplanation {
+  module: string;
+  layer: string;
+  hub: boolean;
+  importers: ModuleLink[];
+  dependencies: ModuleLink[];
+  externalDependencies: string[];
+  cycles: string[][];
+  metrics: ModuleMetrics | null;
+  ruleViolations: RuleViolation[];
+  unusedExports: UnusedExport[];
+}
+
+/**
+ * 1. FOR:
+ * Resolving the module a user asked about.
+ *
+ * 2. TAKES:
+ * - graph: The `ProjectGraph` (only its dependency map is used).
+ * - query: A root-relative path (`src/utils/mathUtils.ts`) or any unique
+ * path suffix (`mathUtils.ts`, `utils/mathUtils`).
+ *
+ * 3. DOES:
+ * - Returns an exact match first. Otherwise collects the modules whose path
+ * (with or without extension) ends with `/<query>`.
+ *
+ * 4. RETURNS:
+ * - The matching module paths: exactly one on success, none or several otherwise.
+ */
+export function findModule(graph: Pick<ProjectGraph, 'dependencyMap'>, query: string): string[] {
+  const normalized = query.replace(/\\/g, '/').replace(/^\.\//, '');
+  const modules = [...graph.dependencyMap.keys()];
+
+  if (modules.includes(normalized)) {
+    return [normalized];
+  }
+
+  return modules.filter((module) => {
+    const withoutExtension = module.replace(/\.[^./]+$/, '');
+    return [module, withoutExtension].some(
+      (candidate) => candidate === normalized || candidate.endsWith(`/${normalized}`)
+    );
+  });
+}
+
+/**
+ * 1. FOR:
+ * Explaining one module.
+ *
+ * 2. TAKES:
+ * - module: The root-relative module path (see `findModule`).
+ * - graph: The `ProjectGraph`.
+ * - heuristicResult: The heuristic report of the same graph.
+ *
+ * 3. DOES:
+ * - Lists its importers and dependencies with the symbols and import line of
+ * each edge, and its third-party packages.
+ * - Picks out the cycles, rule violations and unused exports that involve it,
+ * its coupling metrics and whether it is a hub.
+ *
+ * 4. RETURNS:
+ * - A `ModuleExplanation`.
+ */
+export function explainModule(
+  module: string,
+  graph: ProjectGraph,
+  heuristicResult: HeuristicAnalysisResult
+): ModuleExplanation {
+  const symbolIndex = indexEdgeSymbols(heuristicResult.edgeSymbols);
+  const lines = new Map<string, number>();
+  graph.edges.forEach((edge) => {
+    if (!lines.has(edgeKey(edge.from, edge.to))) {
+      lines.set(edgeKey(edge.from, edge.to), edge.line);
+    }
+  });
+  const link = (from: string, to: string, other: string): ModuleLink => ({
+    module: other,
+    symbols: getEdgeSymbols(symbolIndex, from, to),
+    line: lines.get(edgeKey(from, to)) ?? null,
+  });
+
+  const importers = [...graph.dependencyMap.entries()]
+    .filter(([, dependencies]) => dependencies.includes(module))
+    .map(([importer]) => link(importer, module, importer))
+    .sort((a, b) => a.module.localeCompare(b.module));
+
+  const dependencies = (graph.dependencyMap.get(module) ?? [])
+    .map((dependency) => link(module, dependency, dependency))
+    .sort((a, b) => a.module.localeCompare(b.module));
+
+  return {
+    module,
+    layer: getLayer(module, heuristicResult.layerGraph.depth),
+    hub: heuristicResult.tightlyCoupledModules.some((hub) => hub.module === module),
+    importers,
+    dependencies,
+    externalDependencies: [...(graph.externalDependencies.get(module) ?? [])].sort(),
+    cycles: heuristicResult.circularDependencies
+      .map((cycle) => cycle.path)
+      .filter((path) => path.includes(module)),
+    metrics: heuristicResult.couplingMetrics.modules.find((row) => row.module === module) ?? null,
+    ruleViolations: heuristicResult.ruleViolations.filter(
+      (violation) => violation.from === module || violation.to === module
+    ),
+    unusedExports: heuristicResult.unusedExports.filter((entry) => entry.module === module),
+  };
+}
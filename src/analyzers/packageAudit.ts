@@ -0,0 +1,277 @@
+/**
+ * @file packageAudit.ts
+ *
+ * 1. FILE PURPOSE
+ * This file audits a project's third-party package usage. It compares the
+ * external imports found by the parser against the dependencies declared in
+ * the project's `package.json`, and shows which modules lean most heavily on
+ * each package.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - PackageAuditResult (Interface): Defines the shape of the audit report.
+ * - DependencyField (Type): The `package.json` sections that declare packages.
+ * - DEPENDENCY_FIELDS (Constant): The sections read from `package.json`.
+ *
+ * 3. FUNCTIONALITIES
+ * - auditPackages(graph): The main public function. It loads `package.json`
+ * from the project root and builds the audit report.
+ * - loadDeclaredPackages(rootDir): A private function that reads the
+ * declared packages, the section each one is declared in and the scripts.
+ * - findToolPackages(rootDir, declared, scripts, used): A private function
+ * that finds the declared packages used without being imported.
+ * - isTypesPackageUsed(typesPackage, used): A private helper that treats
+ * `@types/x` as used whenever `x` is imported.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ProjectGraph } from '../core/parser';
+import { isBuiltinModule } from '../core/resolver';
+
+type DependencyField =
+  | 'dependencies'
+  | 'devDependencies'
+  | 'peerDependencies'
+  | 'optionalDependencies';
+
+export interface PackageAuditResult {
+  manifestPath: string | null;
+  undeclaredPackages: {
+    package: string;
+    importedBy: string[];
+  }[];
+  unusedPackages: {
+    package: string;
+    declaredIn: DependencyField;
+  }[];
+  packageUsage: {
+    package: string;
+    declared: boolean;
+    importCount: number;
+    importers: {
+      module: string;
+      importCount: number;
+    }[];
+  }[];
+}
+
+const DEPENDENCY_FIELDS: DependencyField[] = [
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'optionalDependencies',
+];
+
+/**
+ * 1. FOR:
+ * Reading the packages a project declares.
+ *
+ * 2. TAKES:
+ * - rootDir: The absolute project root.
+ *
+ * 3. DOES:
+ * - Reads and parses `<rootDir>/package.json`.
+ * - Collects every package from the `DEPENDENCY_FIELDS` sections, keeping
+ * the first section it appears in, and the commands of the `scripts` section.
+ * - Logs a warning (instead of throwing) if the file is missing or invalid.
+ *
+ * 4. RETURNS:
+ * - The manifest path (or `null`), a Map of package name -> section and the script commands.
+ */
+async function loadDeclaredPackages(
+  rootDir: string
+): Promise<{ manifestPath: string | null; declared: Map<string, DependencyField>; scripts: string[] }> {
+  const manifestPath = path.join(rootDir, 'package.json');
+  const declared = new Map<string, DependencyField>();
+
+  try {
+    const manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+    for (const field of DEPENDENCY_FIELDS) {
+      for (const name of Object.keys(manifest[field] ?? {})) {
+        if (!declared.has(name)) {
+          declared.set(name, field);
+        }
+      }
+    }
+    const scripts = Object.values(manifest.scripts ?? {}).filter(
+      (command): command is string => typeof command === 'string'
+    );
+    return { manifestPath, declared, scripts };
+  } catch (err) {
+    console.warn(`Could not read ${manifestPath}, skipping declared-package checks: ${err}`);
+    return { manifestPath: null, declared, scripts: [] };
+  }
+}
+
+/**
+ * 1. FOR:
+ * Keeping command-line tools and the packages they need out of `unusedPackages`.
+ *
+ * 2. TAKES:
+ * - rootDir: The absolute project root.
+ * - declared: The declared packages.
+ * - scripts: The commands of the `scripts` section.
+ * - used: The set of imported package names.
+ *
+ * 3. DOES:
+ * - Reads the installed `node_modules/<package>/package.json` of each
+ * declared package for its `bin` names (falling back to the unscoped package
+ * name when it is not installed) and counts the package as used when a
+ * script runs one of them (e.g. `ts-node`, or `tsc` for `typescript`).
+ * - Counts the declared peer dependencies of every imported or script-run
+ * package as used as well (e.g. `typescript` for `ts-node`).
+ *
+ * 4. RETURNS:
+ * - A `Promise` of the set of package names used without being imported.
+ */
+async function findToolPackages(
+  rootDir: string,
+  declared: Map<string, DependencyField>,
+  scripts: string[],
+  used: Set<string>
+): Promise<Set<string>> {
+  const readInstalled = async (
+    name: string
+  ): Promise<{ bin?: unknown; peerDependencies?: Record<string, string> } | null> => {
+    try {
+      return JSON.parse(await fs.readFile(path.join(rootDir, 'node_modules', name, 'package.json'), 'utf-8'));
+    } catch {
+      return null;
+    }
+  };
+  const scriptWords = new Set(scripts.flatMap((command) => command.split(/[\s;&|()]+/)));
+
+  const installed = new Map<string, Awaited<ReturnType<typeof readInstalled>>>();
+  for (const name of declared.keys()) {
+    installed.set(name, await readInstalled(name));
+  }
+
+  const tools = new Set<string>();
+  for (const [name, manifest] of installed.entries()) {
+    const bin = manifest?.bin;
+    const binNames =
+      typeof bin === 'object' && bin !== null ? Object.keys(bin) : [name.split('/').pop()!];
+    if (binNames.some((binName) => scriptWords.has(binName))) {
+      tools.add(name);
+    }
+  }
+
+  for (const name of [...used, ...tools]) {
+    const manifest = installed.has(name) ? installed.get(name) : await readInstalled(name);
+    for (const peer of Object.keys(manifest?.peerDependencies ?? {})) {
+      if (declared.has(peer) && !used.has(peer)) {
+        tools.add(peer);
+      }
+    }
+  }
+
+  return tools;
+}
+
+/**
+ * 1. FOR:
+ * Deciding whether a type declaration package is in use.
+ *
+ * 2. TAKES:
+ * - typesPackage: A package name starting with `@types/`.
+ * - used: The set of imported package names (builtins included).
+ *
+ * 3. DOES:
+ * - Maps `@types/x` to `x` and `@types/scope__x` to `@scope/x`.
+ * - Treats `@types/node` as used whenever any Node.js builtin is imported.
+ *
+ * 4. RETURNS:
+ * - `true` if the package the types describe is imported.
+ */
+function isTypesPackageUsed(typesPackage: string, used: Set<string>): boolean {
+  const target = typesPackage.slice('@types/'.length);
+
+  if (target === 'node') {
+    return [...used].some(isBuiltinModule);
+  }
+
+  const packageName = target.includes('__') ? `@${target.replace('__', '/')}` : target;
+  return used.has(packageName);
+}
+
+/**
+ * 1. FOR:
+ * Auditing third-party package usage against `package.json`.
+ *
+ * 2. TAKES:
+ * - graph: The `ProjectGraph` produced by `parseProject`.
+ *
+ * 3. DOES:
+ * - 1. Counts, per package, how many import statements each module has
+ * for it, using the graph's `external` edges (Node.js builtins are skipped).
+ * - 2. Loads the declared packages from `package.json`.
+ * - 3. Lists imported packages that are not declared (`undeclaredPackages`).
+ * - 4. Lists declared packages that are never imported (`unusedPackages`),
+ * counting `@types/*` packages as used when their package is imported, and
+ * command-line tools run by the `scripts` (with their peer dependencies) as used.
+ * - 5. Builds `packageUsage`, sorted by total import count, with the
+ * importers of each package sorted from heaviest to lightest user.
+ *
+ * 4. RETURNS:
+ * - A `Promise<PackageAuditResult>`.
+ */
+export async function auditPackages(graph: ProjectGraph): Promise<PackageAuditResult> {
+  console.log('Auditing third-party packages...');
+
+  const usage = new Map<string, Map<string, number>>();
+  const usedNames = new Set<string>();
+
+  for (const edge of graph.edges) {
+    if (!edge.external) {
+      continue;
+    }
+
+    usedNames.add(edge.to);
+    if (isBuiltinModule(edge.to)) {
+      continue;
+    }
+
+    const importers = usage.get(edge.to) ?? new Map<string, number>();
+    importers.set(edge.from, (importers.get(edge.from) ?? 0) + 1);
+    usage.set(edge.to, importers);
+  }
+
+  const { manifestPath, declared, scripts } = await loadDeclaredPackages(graph.rootDir);
+  const toolPackages = await findToolPackages(graph.rootDir, declared, scripts, usedNames);
+
+  const packageUsage = [...usage.entries()]
+    .map(([name, importers]) => {
+      const sortedImporters = [...importers.entries()]
+        .map(([module, importCount]) => ({ module, importCount }))
+        .sort((a, b) => b.importCount - a.importCount || a.module.localeCompare(b.module));
+
+      return {
+        package: name,
+        declared: declared.has(name),
+        importCount: sortedImporters.reduce((sum, entry) => sum + entry.importCount, 0),
+        importers: sortedImporters,
+      };
+    })
+    .sort((a, b) => b.importCount - a.importCount || a.package.localeCompare(b.package));
+
+  const undeclaredPackages = manifestPath
+    ? packageUsage
+        .filter((entry) => !entry.declared)
+        .map((entry) => ({
+          package: entry.package,
+          importedBy: entry.importers.map((importer) => importer.module),
+        }))
+    : [];
+
+  const unusedPackages = [...declared.entries()]
+    .filter(([name]) =>
+      name.startsWith('@types/')
+        ? !isTypesPackageUsed(name, usedNames)
+        : !usedNames.has(name) && !toolPackages.has(name)
+    )
+    .map(([name, declaredIn]) => ({ package: name, declaredIn }))
+    .sort((a, b) => a.package.localeCompare(b.package));
+
+  console.log('Package audit complete.');
+  return { manifestPath, undeclaredPackages, unusedPackages, packageUsage };
+}
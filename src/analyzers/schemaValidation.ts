@@ -0,0 +1,176 @@
+/**
+ * @file schemaValidation.ts
+ *
+ * 1. FILE PURPOSE
+ * This file validates untrusted JSON (the LLM's answer) against a small
+ * declarative schema at runtime. Instead of accepting or rejecting the
+ * whole document, it reports every field that does not match, by path, and
+ * keeps what is usable: invalid list entries can be dropped and invalid
+ * fields replaced by a fallback, so one bad entry does not discard a
+ * whole analysis.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - Schema (Type): A schema node (`string`, `array` or `object`), optionally
+ * with a `fallback` used in place of an invalid value.
+ * - ValidationIssue (Interface): One mismatch: the JSON path and what was wrong.
+ * - ValidationResult (Interface): The cleaned value and the issues found.
+ *
+ * 3. FUNCTIONALITIES
+ * - validateSchema(value, schema): The main public function.
+ * - checkNode(value, schema, path, issues): A private recursive helper.
+ * - describe(value): A private helper that names the type of a JSON value.
+ */
+
+export type Schema = (
+  | { type: 'string'; minLength?: number }
+  | { type: 'array'; items: Schema; minItems?: number; dropInvalidItems?: boolean }
+  | { type: 'object'; properties: Record<string, Schema> }
+) & { fallback?: unknown };
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  valid: boolean;
+  value: T | undefined;
+  issues: ValidationIssue[];
+}
+
+/**
+ * 1. FOR:
+ * Naming the type of a JSON value in an issue message.
+ *
+ * 2. TAKES:
+ * - value: Any value.
+ *
+ * 3. DOES:
+ * - Distinguishes `null` and arrays from the other `typeof` results.
+ *
+ * 4. RETURNS:
+ * - `null`, `array`, `string`, `number`, `boolean`, `object` or `undefined`.
+ */
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+/**
+ * 1. FOR:
+ * Validating one value against one schema node.
+ *
+ * 2. TAKES:
+ * - value: The value to check.
+ * - schema: The schema node.
+ * - path: The JSON path of the value (`$`, `$.items[2].name`), for the issues.
+ * - issues: The list the issues are appended to.
+ *
+ * 3. DOES:
+ * - `string`: checks the type and `minLength`.
+ * - `array`: checks every item; with `dropInvalidItems` invalid items are
+ * left out, otherwise one invalid item invalidates the array. Then checks `minItems`.
+ * - `object`: checks every declared property (a missing property is checked
+ * as `undefined`) and drops undeclared ones.
+ * - Records one issue per mismatch, at the deepest path (an object or array
+ * that is only invalid because of its children adds no issue of its own).
+ * - When the value is invalid and the node has a `fallback`, returns the
+ * fallback as a valid value (the issues are kept).
+ *
+ * 4. RETURNS:
+ * - `{ ok, value }`: whether the value is usable, and the cleaned value.
+ */
+function checkNode(
+  value: unknown,
+  schema: Schema,
+  path: string,
+  issues: ValidationIssue[]
+): { ok: boolean; value: unknown } {
+  const fail = (message?: string) => {
+    if (message) {
+      issues.push({ path, message });
+    }
+    return schema.fallback !== undefined
+      ? { ok: true, value: schema.fallback }
+      : { ok: false, value: undefined };
+  };
+
+  if (schema.type === 'string') {
+    if (typeof value !== 'string') {
+      return fail(value === undefined ? 'missing; expected a string' : `expected a string, got ${describe(value)}`);
+    }
+    if (value.trim().length < (schema.minLength ?? 0)) {
+      return fail(`expected at least ${schema.minLength} character(s)`);
+    }
+    return { ok: true, value };
+  }
+
+  if (schema.type === 'array') {
+    if (!Array.isArray(value)) {
+      return fail(value === undefined ? 'missing; expected an array' : `expected an array, got ${describe(value)}`);
+    }
+    const items: unknown[] = [];
+    let itemsValid = true;
+    value.forEach((item, index) => {
+      const result = checkNode(item, schema.items, `${path}[${index}]`, issues);
+      if (result.ok) {
+        items.push(result.value);
+      } else {
+        itemsValid = false;
+      }
+    });
+    if (!itemsValid && !schema.dropInvalidItems) {
+      return fail();
+    }
+    if (items.length < (schema.minItems ?? 0)) {
+      return fail(`expected at least ${schema.minItems} item(s), got ${items.length}`);
+    }
+    return { ok: true, value: items };
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return fail(value === undefined ? 'missing; expected an object' : `expected an object, got ${describe(value)}`);
+  }
+  const cleaned: Record<string, unknown> = {};
+  let propertiesValid = true;
+  Object.entries(schema.properties).forEach(([key, propertySchema]) => {
+    const result = checkNode((value as Record<string, unknown>)[key], propertySchema, `${path}.${key}`, issues);
+    if (result.ok) {
+      cleaned[key] = result.value;
+    } else {
+      propertiesValid = false;
+    }
+  });
+  if (!propertiesValid) {
+    return fail();
+  }
+  return { ok: true, value: cleaned };
+}
+
+/**
+ * 1. FOR:
+ * Validating untrusted JSON against a schema.
+ *
+ * 2. TAKES:
+ * - value: The parsed JSON.
+ * - schema: The root `Schema`.
+ *
+ * 3. DOES:
+ * - Walks the value with `checkNode`, collecting one issue per mismatch.
+ *
+ * 4. RETURNS:
+ * - A `ValidationResult`: `valid` is `true` only when there were no issues at
+ * all; `value` is the cleaned value (with invalid items dropped and fallbacks
+ * applied), or `undefined` when even that is not possible.
+ */
+export function validateSchema<T>(value: unknown, schema: Schema): ValidationResult<T> {
+  const issues: ValidationIssue[] = [];
+  const result = checkNode(value, schema, '$', issues);
+  return {
+    valid: issues.length === 0,
+    value: result.ok ? (result.value as T) : undefined,
+    issues,
+  };
+}
@@ -0,0 +1,187 @@
+/**
+ * @file symbolAnalysis.ts
+ *
+ * 1. FILE PURPOSE
+ * This file provides the symbol-level layer on top of the file-level
+ * dependency graph. It answers "which exports travel along each import
+ * edge?" and "which exports are never imported by anyone?".
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - EdgeSymbols (Interface): The symbols crossing one file-to-file edge.
+ * - UnusedExport (Interface): An export that no module in the graph imports.
+ * - EdgeSymbolIndex (Type): The per-edge symbol lists keyed by `edgeKey`, for constant-time lookups.
+ *
+ * 3. FUNCTIONALITIES
+ * - buildEdgeSymbols(graph): Merges the symbols of all imports between the
+ * same two files into one list per edge.
+ * - findUnusedExports(graph): Lists every export without a consumer.
+ * - edgeKey(from, to): The key of one edge in an index.
+ * - indexEdgeSymbols(edgeSymbols): Builds the `EdgeSymbolIndex`.
+ * - getEdgeSymbols(index, from, to): Looks up the symbols of one edge.
+ */
+
+import { NAMESPACE_SYMBOL, ExportKind } from '../core/importExtractor';
+import { ProjectGraph } from '../core/parser';
+
+export interface EdgeSymbols {
+  from: string;
+  to: string;
+  symbols: string[];
+}
+
+export type EdgeSymbolIndex = Map<string, string[]>;
+
+export interface UnusedExport {
+  module: string;
+  name: string;
+  kind: ExportKind;
+  line: number;
+}
+
+/**
+ * 1. FOR:
+ * Building the per-edge "symbols crossing this edge" list.
+ *
+ * 2. TAKES:
+ * - graph: The `ProjectGraph` produced by `parseProject`.
+ *
+ * 3. DOES:
+ * - Groups the local (non-external) edges by importer and imported file.
+ * - Merges and de-duplicates the symbols of every import between the pair.
+ * `*` means the whole module is used (namespace import, `export *`,
+ * `import()` or `require()`).
+ *
+ * 4. RETURNS:
+ * - An array of `EdgeSymbols`, sorted by importer then imported file.
+ */
+export function buildEdgeSymbols(graph: ProjectGraph): EdgeSymbols[] {
+  const edges = new Map<string, EdgeSymbols>();
+
+  for (const edge of graph.edges) {
+    if (edge.external) {
+      continue;
+    }
+
+    const key = edgeKey(edge.from, edge.to);
+    const entry = edges.get(key) ?? { from: edge.from, to: edge.to, symbols: [] };
+    for (const symbol of edge.symbols) {
+      if (!entry.symbols.includes(symbol)) {
+        entry.symbols.push(symbol);
+      }
+    }
+    edges.set(key, entry);
+  }
+
+  return [...edges.values()]
+    .map((entry) => ({ ...entry, symbols: [...entry.symbols].sort() }))
+    .sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+}
+
+/**
+ * 1. FOR:
+ * Keying an edge in a Map, so edge lookups do not scan a list.
+ *
+ * 2. TAKES:
+ * - from: The importing module.
+ * - to: The imported module.
+ *
+ * 3. DOES:
+ * - Joins both with a NUL character, which cannot occur in a path.
+ *
+ * 4. RETURNS:
+ * - The edge key.
+ */
+export function edgeKey(from: string, to: string): string {
+  return `${from}\0${to}`;
+}
+
+/**
+ * 1. FOR:
+ * Indexing the per-edge symbol lists once, for callers that look up many edges.
+ *
+ * 2. TAKES:
+ * - edgeSymbols: The list produced by `buildEdgeSymbols`.
+ *
+ * 3. DOES:
+ * - Maps every entry's `edgeKey` to its symbols.
+ *
+ * 4. RETURNS:
+ * - An `EdgeSymbolIndex`.
+ */
+export function indexEdgeSymbols(edgeSymbols: EdgeSymbols[]): EdgeSymbolIndex {
+  return new Map(edgeSymbols.map((entry) => [edgeKey(entry.from, entry.to), entry.symbols]));
+}
+
+/**
+ * 1. FOR:
+ * Looking up the symbols that cross one edge.
+ *
+ * 2. TAKES:
+ * - index: The `EdgeSymbolIndex` built by `indexEdgeSymbols`.
+ * - from: The importing module.
+ * - to: The imported module.
+ *
+ * 3. DOES:
+ * - Reads the entry of the edge from the index.
+ *
+ * 4. RETURNS:
+ * - The symbol names, or an empty array if the edge is unknown.
+ */
+export function getEdgeSymbols(index: EdgeSymbolIndex, from: string, to: string): string[] {
+  return index.get(edgeKey(from, to)) ?? [];
+}
+
+/**
+ * 1. FOR:
+ * Detecting exports that no module consumes.
+ *
+ * 2. TAKES:
+ * - graph: The `ProjectGraph` produced by `parseProject`.
+ *
+ * 3. DOES:
+ * - 1. Collects, for every module, the names imported from it by other
+ * modules (including names pulled through `export { x } from` re-exports).
+ * - 2. Treats a module as fully used when it is imported as a whole
+ * (`*`: namespace import, `export *`, `import()` or `require()`).
+ * - 3. Reports each export of each parsed module whose name was never imported.
+ * Modules nobody imports (e.g. entry points) are included, since their
+ * exports have no consumers in the graph either.
+ *
+ * 4. RETURNS:
+ * - An array of `UnusedExport` objects, sorted by module and line.
+ */
+export function findUnusedExports(graph: ProjectGraph): UnusedExport[] {
+  const usedNames = new Map<string, Set<string>>();
+
+  for (const edge of graph.edges) {
+    if (edge.external) {
+      continue;
+    }
+
+    const names = usedNames.get(edge.to) ?? new Set<string>();
+    edge.symbols.forEach((symbol) => names.add(symbol));
+    usedNames.set(edge.to, names);
+  }
+
+  const unused: UnusedExport[] = [];
+
+  for (const [module, moduleExports] of graph.exports.entries()) {
+    const names = usedNames.get(module) ?? new Set<string>();
+    if (names.has(NAMESPACE_SYMBOL)) {
+      continue;
+    }
+
+    for (const moduleExport of moduleExports) {
+      if (!names.has(moduleExport.name)) {
+        unused.push({
+          module,
+          name: moduleExport.name,
+          kind: moduleExport.kind,
+          line: moduleExport.line,
+        });
+      }
+    }
+  }
+
+  return unused.sort((a, b) => a.module.localeCompare(b.module) || a.line - b.line);
+}
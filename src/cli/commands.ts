@@ -0,0 +1,558 @@
+/**
+ * @file commands.ts
+ *
+ * 1. FILE PURPOSE
+ * This file implements the CLI subcommands. Each command runs the part of
+ * the analysis it needs (only `analyze` calls the LLM), writes its output in
+ * the requested format, and returns the process exit code, so CI can gate
+ * merges on the result without reading the console output.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - AnalysisRun (Interface): The results of one analysis run.
+ *
+ * 3. FUNCTIONALITIES
+ * - runAnalyzeCommand(options): `analyze`, the full comparative report.
+ * - runCheckCommand(options): `check`, the heuristic-only CI gate.
+ * - runGraphCommand(options): `graph`, the graph in DOT / Mermaid / GraphML / JSON.
+ * - runExplainCommand(options): `explain <module>`.
+ * - runDiffCommand(options): `diff <base> [head]`, the graph changes between two revisions or snapshots.
+ * - runCacheCommand(options): `cache [list|prune|clear]`, inspects or empties the LLM result cache.
+ * - runQueryCommand(options): `dependencies`, `dependents`, `path` and `neighbors`, the graph queries.
+ * - collectFailures(heuristicResult, failOn, comparison): Lists the findings that match `--fail-on`.
+ * - runAnalysis(options, full): A private function that parses the project
+ * and runs the analyzer pipeline: the heuristic analysis only, or every analyzer.
+ * - buildReport(run, failures): A private helper that assembles a `CliReport`.
+ * - writeOutput(content, output): A private helper that writes to stdout or a file.
+ * - loadSnapshot(reference, options): A private helper that builds one side of a `diff`.
+ * - resolveModule(graph, query): A private helper that resolves a module argument.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parseListOption, parseProject, ProjectGraph } from '../core/parser';
+import { parseRevision } from '../core/gitRevision';
+import { AnalysisResult as LlmAnalysisResult } from '../analyzers/llmAnalyzer';
+import { HeuristicAnalysisResult, HUB_THRESHOLD } from '../analyzers/heuristicAnalyzer';
+import { PackageAuditResult } from '../analyzers/packageAudit';
+import { AnalyzerStatus, loadAnalyzerPlugins, runAnalyzers } from '../analyzers/analyzerPipeline';
+import { BUILTIN_ANALYZERS } from '../analyzers/builtinAnalyzers';
+import { loadArchitectureRules, ArchitectureRule } from '../analyzers/architectureRules';
+import { explainModule, findModule } from '../analyzers/moduleExplanation';
+import { queryGraph, GraphQueryKind } from '../analyzers/graphQueries';
+import {
+  compareWithBaseline,
+  createBaseline,
+  loadBaseline,
+  saveBaseline,
+  BaselineComparison,
+} from '../analyzers/baseline';
+import { diffGraphs, loadGraphSnapshot, GraphSnapshot } from '../analyzers/graphDiff';
+import { FindingReconciliation } from '../analyzers/findingReconciliation';
+import { loadLlmConfig } from '../llm/providers';
+import { clearCache, listCacheEntries } from '../llm/resultCache';
+import { buildExportGraph, exportGraph } from '../exporters/graphExport';
+import { renderHtmlReport } from '../exporters/htmlReport';
+import { toSarif } from '../exporters/sarif';
+import { CliOptions, CliUsageError, EXIT_CODES, FailOnCategory } from './options';
+import {
+  CliReport,
+  renderBaselineFixes,
+  renderCacheEntries,
+  renderExplanation,
+  renderGraphDiff,
+  renderGraphQuery,
+  renderMarkdownReport,
+  renderTextReport,
+} from './reports';
+
+interface AnalysisRun {
+  graph: ProjectGraph;
+  rules: ArchitectureRule[];
+  heuristicResult: HeuristicAnalysisResult;
+  packageAudit: PackageAuditResult | null;
+  llmResult: LlmAnalysisResult | null;
+  reconciliation: FindingReconciliation | null;
+  pluginResults: Record<string, unknown>;
+  analyzers: AnalyzerStatus[];
+}
+
+/**
+ * 1. FOR:
+ * Running the analyzers a command needs.
+ *
+ * 2. TAKES:
+ * - options: The `CliOptions`.
+ * - full: `true` to run the whole pipeline (`analyze`), `false` for the
+ * heuristic analysis only.
+ *
+ * 3. DOES:
+ * - Parses the project (throws if no files are found) and loads the architecture rules.
+ * - In a full run, loads the analyzer plugins (`ANALYSIS_PLUGINS`, then
+ * `--plugin`) and runs every registered analyzer, leaving out `llm` and
+ * `reconciliation` with `--no-llm` (`--no-cache` skips the cached LLM result).
+ * Otherwise runs the `heuristic` analyzer alone.
+ * - Throws when the heuristic analysis failed, since every command needs it;
+ * any other analyzer's failure only leaves its result empty.
+ * - Writes the SARIF log when `--sarif` is given.
+ *
+ * 4. RETURNS:
+ * - A `Promise<AnalysisRun>`, with the status of every analyzer that was run.
+ */
+async function runAnalysis(options: CliOptions, full = false): Promise<AnalysisRun> {
+  const graph = await parseProject(options.parseOptions);
+  if (graph.dependencyMap.size === 0) {
+    throw new Error('No dependencies found or files could not be read.');
+  }
+
+  const rules = await loadArchitectureRules(graph.rootDir, options.rulesPath);
+  if (full) {
+    await loadAnalyzerPlugins([...parseListOption(process.env.ANALYSIS_PLUGINS), ...options.plugins]);
+  }
+  const { results, statuses } = await runAnalyzers(
+    { graph, rules, heuristicOptions: options.heuristicOptions, llmOptions: { useCache: options.useLlmCache } },
+    full ? { skip: options.useLlm ? [] : ['llm', 'reconciliation'] } : { only: ['heuristic'] }
+  );
+
+  const heuristicResult = results.heuristic as HeuristicAnalysisResult | undefined;
+  if (!heuristicResult) {
+    throw new Error(`Heuristic analysis failed: ${statuses.find((status) => status.name === 'heuristic')?.error}`);
+  }
+
+  if (options.sarifPath) {
+    await fs.writeFile(options.sarifPath, JSON.stringify(toSarif(graph, heuristicResult), null, 2), 'utf-8');
+    console.log(`Wrote SARIF log to ${options.sarifPath}.`);
+  }
+
+  const builtin = new Set(BUILTIN_ANALYZERS.map((analyzer) => analyzer.name));
+  return {
+    graph,
+    rules,
+    heuristicResult,
+    packageAudit: (results.packageAudit as PackageAuditResult | undefined) ?? null,
+    llmResult: (results.llm as LlmAnalysisResult | undefined) ?? null,
+    reconciliation: (results.reconciliation as FindingReconciliation | undefined) ?? null,
+    pluginResults: Object.fromEntries(Object.entries(results).filter(([name]) => !builtin.has(name))),
+    analyzers: statuses,
+  };
+}
+
+/**
+ * 1. FOR:
+ * Deciding which findings fail the run.
+ *
+ * 2. TAKES:
+ * - heuristicResult: The heuristic report.
+ * - failOn: The categories from `--fail-on`.
+ * - comparison: Optional `BaselineComparison`; in baseline mode only new
+ * cyclic imports, new hubs and grown hubs count.
+ *
+ * 3. DOES:
+ * - `cycles`: every circular dependency (or every import that newly lies on a cycle).
+ * - `hubs`: every tightly coupled module (or every new or grown one).
+ * - `violations`: every architecture rule violation with severity `error`
+ * (warnings and infos are reported but never fail the run).
+ *
+ * 4. RETURNS:
+ * - One message per failing finding (empty when the run passes).
+ */
+export function collectFailures(
+  heuristicResult: HeuristicAnalysisResult,
+  failOn: FailOnCategory[],
+  comparison: BaselineComparison | null = null
+): string[] {
+  const failures: string[] = [];
+
+  if (failOn.includes('cycles')) {
+    if (comparison) {
+      comparison.newCycleEdges.forEach(({ edge, cycle }) => {
+        failures.push(`New circular dependency: ${edge} (in ${cycle})`);
+      });
+    } else {
+      heuristicResult.circularDependencies.forEach((cycle) => {
+        failures.push(`Circular dependency: ${cycle.path.join(' -> ')}`);
+      });
+    }
+  }
+  if (failOn.includes('hubs')) {
+    if (comparison) {
+      comparison.newHubs.forEach((hub) => {
+        failures.push(`New hub module: ${hub.module} (imported by ${hub.importerCount} modules)`);
+      });
+      comparison.grownHubs.forEach((hub) => {
+        failures.push(`Hub module grew: ${hub.module} (${hub.baselineCount} -> ${hub.importerCount} importers)`);
+      });
+    } else {
+      heuristicResult.tightlyCoupledModules.forEach((hub) => {
+        failures.push(`Hub module: ${hub.module} (imported by ${hub.importedBy.length} modules)`);
+      });
+    }
+  }
+  if (failOn.includes('violations')) {
+    heuristicResult.ruleViolations
+      .filter((violation) => violation.severity === 'error')
+      .forEach((violation) => {
+        const location = violation.line ? `:${violation.line}` : '';
+        failures.push(`Rule violation (${violation.rule}): ${violation.from}${location} -> ${violation.to}`);
+      });
+  }
+
+  return failures;
+}
+
+/**
+ * 1. FOR:
+ * Assembling the report shared by `analyze` and `check`.
+ *
+ * 2. TAKES:
+ * - run: The `AnalysisRun`.
+ * - failures: The `--fail-on` findings.
+ * - comparison: The baseline comparison, when running in baseline mode.
+ *
+ * 3. DOES:
+ * - Copies the results and the analyzer statuses into a `CliReport` with a timestamp.
+ *
+ * 4. RETURNS:
+ * - The `CliReport`.
+ */
+function buildReport(
+  run: AnalysisRun,
+  failures: string[],
+  comparison: BaselineComparison | null = null
+): CliReport {
+  return {
+    timestamp: new Date().toISOString(),
+    dependencyMap: Object.fromEntries(run.graph.dependencyMap),
+    unresolvedImports: run.graph.unresolved,
+    rulesConfigured: run.rules.length,
+    heuristicAnalysis: run.heuristicResult,
+    packageAudit: run.packageAudit,
+    llmAnalysis: run.llmResult,
+    reconciliation: run.reconciliation,
+    pluginResults: run.pluginResults,
+    analyzers: run.analyzers,
+    baseline: comparison,
+    failures,
+  };
+}
+
+/**
+ * 1. FOR:
+ * Writing a command's output.
+ *
+ * 2. TAKES:
+ * - content: The rendered output.
+ * - output: Optional file path (`--output`).
+ *
+ * 3. DOES:
+ * - Writes to the file (and logs where), or to stdout.
+ *
+ * 4. RETURNS:
+ * - A `Promise<void>`.
+ */
+async function writeOutput(content: string, output?: string): Promise<void> {
+  if (output) {
+    await fs.writeFile(output, content, 'utf-8');
+    console.log(`Wrote output to ${output}.`);
+    return;
+  }
+  process.stdout.write(content);
+}
+
+/**
+ * 1. FOR:
+ * The `analyze` command: the full comparative report.
+ *
+ * 2. TAKES:
+ * - options: The `CliOptions`.
+ *
+ * 3. DOES:
+ * - Runs the analyzer pipeline: the heuristic analysis, the package audit,
+ * (unless `--no-llm`) the LLM and its cross-check, and the plugin analyzers.
+ * - Writes the report as text, JSON or Markdown, and the HTML report when
+ * `--html` is given, even when some analyzers failed (their sections say so).
+ *
+ * 4. RETURNS:
+ * - `EXIT_CODES.error` if an analyzer failed, timed out or was skipped, `EXIT_CODES.findings`
+ * if `--fail-on` findings exist, `EXIT_CODES.success` otherwise.
+ */
+export async function runAnalyzeCommand(options: CliOptions): Promise<number> {
+  const run = await runAnalysis(options, true);
+  const report = buildReport(run, collectFailures(run.heuristicResult, options.failOn));
+
+  if (options.htmlPath) {
+    const html = renderHtmlReport({
+      generatedAt: report.timestamp,
+      dependencyMap: report.dependencyMap,
+      heuristicAnalysis: report.heuristicAnalysis,
+      llmAnalysis: report.llmAnalysis,
+    });
+    await fs.writeFile(options.htmlPath, html, 'utf-8');
+    console.log(`Wrote HTML report to ${options.htmlPath}.`);
+  }
+
+  const content =
+    options.format === 'json'
+      ? `${JSON.stringify(report, null, 2)}\n`
+      : options.format === 'markdown'
+        ? renderMarkdownReport(report)
+        : renderTextReport(report, options.heuristicOptions.hubThreshold ?? HUB_THRESHOLD);
+  await writeOutput(content, options.output);
+
+  const failed = run.analyzers.filter((analyzer) => analyzer.status !== 'succeeded');
+  if (failed.length > 0) {
+    console.error(`Report is partial; analyzer(s) did not succeed: ${failed.map((analyzer) => `${analyzer.name} (${analyzer.status})`).join(', ')}.`);
+    return EXIT_CODES.error;
+  }
+  return report.failures.length > 0 ? EXIT_CODES.findings : EXIT_CODES.success;
+}
+
+/**
+ * 1. FOR:
+ * The `check` command: a fast, deterministic CI gate (no LLM, no package audit).
+ *
+ * 2. TAKES:
+ * - options: The `CliOptions`.
+ *
+ * 3. DOES:
+ * - Runs the heuristic analysis.
+ * - With `--update-baseline`, writes the current cycles and hubs to the baseline file and stops.
+ * - With `--baseline`, compares the run with the baseline (ratchet mode).
+ * - Collects the `--fail-on` findings (default `cycles,violations`; in ratchet
+ * mode every category, counting only new or grown cycles and hubs).
+ * - Text output lists the failing findings and the findings fixed since the
+ * baseline; JSON and Markdown output carry the full heuristic report.
+ *
+ * 4. RETURNS:
+ * - `EXIT_CODES.findings` if any finding fails the check, `EXIT_CODES.success` otherwise.
+ */
+export async function runCheckCommand(options: CliOptions): Promise<number> {
+  const run = await runAnalysis(options);
+
+  if (options.updateBaseline) {
+    const baseline = createBaseline(run.heuristicResult, run.graph.dependencyMap);
+    const file = await saveBaseline(run.graph.rootDir, baseline, options.baselinePath);
+    console.log(
+      `Wrote baseline to ${file} (${baseline.cycleEdges.length} cyclic import(s), ${baseline.hubs.length} hub(s)).`
+    );
+    return EXIT_CODES.success;
+  }
+
+  const comparison = options.baselinePath
+    ? compareWithBaseline(
+        run.heuristicResult,
+        run.graph.dependencyMap,
+        await loadBaseline(run.graph.rootDir, options.baselinePath)
+      )
+    : null;
+  const failures = collectFailures(run.heuristicResult, options.failOn, comparison);
+  const report = buildReport(run, failures, comparison);
+
+  let content: string;
+  if (options.format === 'json') {
+    content = `${JSON.stringify(report, null, 2)}\n`;
+  } else if (options.format === 'markdown') {
+    content = renderMarkdownReport(report);
+  } else {
+    const mode = comparison ? ', new since baseline' : '';
+    content =
+      failures.length === 0
+        ? `Check passed (${options.failOn.join(', ') || 'nothing to check'}${mode}).\n`
+        : `Check failed: ${failures.length} finding(s) (${options.failOn.join(', ')}${mode}).\n` +
+          failures.map((failure) => `- ${failure}`).join('\n') +
+          '\n';
+    content += renderBaselineFixes(comparison);
+  }
+  await writeOutput(content, options.output);
+
+  return failures.length > 0 ? EXIT_CODES.findings : EXIT_CODES.success;
+}
+
+/**
+ * 1. FOR:
+ * The `graph` command.
+ *
+ * 2. TAKES:
+ * - options: The `CliOptions` (`--format`, `--graph-level`, `--output`).
+ *
+ * 3. DOES:
+ * - Runs the heuristic analysis (for the cycle and hub markers) and exports the graph.
+ *
+ * 4. RETURNS:
+ * - `EXIT_CODES.success`.
+ */
+export async function runGraphCommand(options: CliOptions): Promise<number> {
+  const { graph, heuristicResult } = await runAnalysis(options);
+  const exported = buildExportGraph(graph.dependencyMap, heuristicResult, options.graphLevel);
+  await writeOutput(exportGraph(exported, options.graphFormat), options.output);
+  return EXIT_CODES.success;
+}
+
+/**
+ * 1. FOR:
+ * Resolving a module given on the command line.
+ *
+ * 2. TAKES:
+ * - graph: The parsed project.
+ * - query: The argument (a path or unique suffix, see `findModule`).
+ *
+ * 3. DOES:
+ * - Throws a `CliUsageError` when no module or several modules match.
+ *
+ * 4. RETURNS:
+ * - The module path.
+ */
+function resolveModule(graph: ProjectGraph, query: string): string {
+  const matches = findModule(graph, query);
+
+  if (matches.length === 0) {
+    throw new CliUsageError(`No module matches "${query}".`);
+  }
+  if (matches.length > 1) {
+    throw new CliUsageError(`"${query}" is ambiguous: ${matches.join(', ')}.`);
+  }
+  return matches[0];
+}
+
+/**
+ * 1. FOR:
+ * The `explain <module>` command.
+ *
+ * 2. TAKES:
+ * - options: The `CliOptions` (`module`, `--format`, `--output`).
+ *
+ * 3. DOES:
+ * - Runs the heuristic analysis and resolves the module with `resolveModule`.
+ * - Writes the `explainModule` result as text, JSON or Markdown.
+ *
+ * 4. RETURNS:
+ * - `EXIT_CODES.success`.
+ */
+export async function runExplainCommand(options: CliOptions): Promise<number> {
+  const { graph, heuristicResult } = await runAnalysis(options);
+  const explanation = explainModule(resolveModule(graph, options.module ?? ''), graph, heuristicResult);
+  const content =
+    options.format === 'json'
+      ? `${JSON.stringify(explanation, null, 2)}\n`
+      : renderExplanation(explanation, options.format);
+  await writeOutput(content, options.output);
+  return EXIT_CODES.success;
+}
+
+/**
+ * 1. FOR:
+ * Building one side of a `diff`.
+ *
+ * 2. TAKES:
+ * - reference: A `.json` snapshot file (relative to the current directory), a
+ * git revision, or `undefined` for the working tree.
+ * - options: The `CliOptions` (parser options).
+ *
+ * 3. DOES:
+ * - Reads the snapshot with `loadGraphSnapshot`, parses the revision in a
+ * temporary worktree with `parseRevision`, or parses the working tree.
+ *
+ * 4. RETURNS:
+ * - A `Promise<GraphSnapshot>` labelled with the reference.
+ */
+async function loadSnapshot(reference: string | undefined, options: CliOptions): Promise<GraphSnapshot> {
+  if (reference === undefined) {
+    const { dependencyMap } = await parseProject(options.parseOptions);
+    return { label: 'working tree', dependencyMap };
+  }
+  if (reference.endsWith('.json')) {
+    return { label: reference, dependencyMap: await loadGraphSnapshot(path.resolve(reference)) };
+  }
+  const { dependencyMap } = await parseRevision(reference, options.parseOptions);
+  return { label: reference, dependencyMap };
+}
+
+/**
+ * 1. FOR:
+ * The `diff <base> [head]` command: the architectural change a branch makes.
+ *
+ * 2. TAKES:
+ * - options: The `CliOptions` (`diffBase`, `diffHead`, `--format`, `--output`
+ * and `--hub-threshold`).
+ *
+ * 3. DOES:
+ * - Builds both graphs (head defaults to the working tree) and compares them with `diffGraphs`.
+ * - Writes the diff as text, JSON or Markdown.
+ *
+ * 4. RETURNS:
+ * - `EXIT_CODES.success`.
+ */
+export async function runDiffCommand(options: CliOptions): Promise<number> {
+  const base = await loadSnapshot(options.diffBase, options);
+  const head = await loadSnapshot(options.diffHead, options);
+  const diff = diffGraphs(base, head, options.heuristicOptions);
+
+  const content =
+    options.format === 'json' ? `${JSON.stringify(diff, null, 2)}\n` : renderGraphDiff(diff, options.format);
+  await writeOutput(content, options.output);
+  return EXIT_CODES.success;
+}
+
+/**
+ * 1. FOR:
+ * The `cache [list|prune|clear]` command: inspecting and emptying the LLM result cache.
+ *
+ * 2. TAKES:
+ * - options: The `CliOptions` (`cacheAction`, `--format`, `--output`).
+ *
+ * 3. DOES:
+ * - Reads the cache directory and TTL from the `LLM_CACHE_*` variables.
+ * - `list` writes the entries as text, JSON or Markdown; `prune` deletes the
+ * expired entries and `clear` every entry.
+ *
+ * 4. RETURNS:
+ * - `EXIT_CODES.success`.
+ */
+export async function runCacheCommand(options: CliOptions): Promise<number> {
+  const { cacheDir, cacheTtlHours } = loadLlmConfig();
+
+  if (options.cacheAction === 'list') {
+    const entries = await listCacheEntries(cacheDir, cacheTtlHours);
+    const content =
+      options.format === 'json'
+        ? `${JSON.stringify({ directory: cacheDir, ttlHours: cacheTtlHours, entries }, null, 2)}\n`
+        : renderCacheEntries(entries, cacheDir, options.format);
+    await writeOutput(content, options.output);
+    return EXIT_CODES.success;
+  }
+
+  const deleted = await clearCache(cacheDir, options.cacheAction === 'prune' ? cacheTtlHours : undefined);
+  console.log(`Deleted ${deleted} ${options.cacheAction === 'prune' ? 'expired ' : ''}LLM cache entr${deleted === 1 ? 'y' : 'ies'} from ${cacheDir}.`);
+  return EXIT_CODES.success;
+}
+
+/**
+ * 1. FOR:
+ * The graph query commands: `dependencies <module>`, `dependents <module>`,
+ * `path <from> <to>` and `neighbors <module>`.
+ *
+ * 2. TAKES:
+ * - options: The `CliOptions` (`command`, `module`, `targetModule`,
+ * `queryDepth`, `--format`, `--output`).
+ *
+ * 3. DOES:
+ * - Parses the project (no analyzer is needed) and resolves the module
+ * arguments with `resolveModule`.
+ * - Runs `queryGraph` and writes the answer as text, JSON or Markdown.
+ *
+ * 4. RETURNS:
+ * - `EXIT_CODES.success`, also when `path` finds no import chain.
+ */
+export async function runQueryCommand(options: CliOptions): Promise<number> {
+  const graph = await parseProject(options.parseOptions);
+  const result = queryGraph(graph.dependencyMap, {
+    kind: options.command as GraphQueryKind,
+    module: resolveModule(graph, options.module ?? ''),
+    target: options.targetModule === undefined ? undefined : resolveModule(graph, options.targetModule),
+    depth: options.queryDepth,
+  });
+
+  const content =
+    options.format === 'json' ? `${JSON.stringify(result, null, 2)}\n` : renderGraphQuery(result, options.format);
+  await writeOutput(content, options.output);
+  return EXIT_CODES.success;
+}
@@ -0,0 +1,327 @@
+/**
+ * @file options.ts
+ *
+ * 1. FILE PURPOSE
+ * This file defines the command-line interface of the analyzer: its
+ * subcommands, its flags, the usage text and the exit codes. It turns
+ * `process.argv` into a validated `CliOptions` object, so the commands never
+ * deal with raw strings.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - CliCommand (Type): `analyze`, `check`, `graph`, `explain`, `diff`, `cache`
+ * or one of the graph queries (`dependencies`, `dependents`, `path`, `neighbors`).
+ * - CacheAction (Type): What `cache` does: `list`, `prune` or `clear`.
+ * - OutputFormat (Type): `text`, `json` or `markdown`.
+ * - FailOnCategory (Type): The finding categories `--fail-on` can gate on.
+ * - CliOptions (Interface): The parsed command line.
+ * - CliUsageError (Class): Thrown for an invalid command line (exit code 2).
+ * - EXIT_CODES (Constant): The documented process exit codes.
+ * - DEFAULT_CHECK_FAIL_ON (Constant): What `check` fails on without `--fail-on`.
+ * - USAGE (Constant): The help text.
+ *
+ * 3. FUNCTIONALITIES
+ * - readCliOptions(argv): Parses and validates the command line.
+ * - parseChoice(value, choices, flag): A private helper that validates one enumerated value.
+ * - parseNumber(value, flag): A private helper that validates a positive integer flag.
+ */
+
+import { parseArgs } from 'util';
+import { parseListOption, ParseOptions } from '../core/parser';
+import { HeuristicOptions } from '../analyzers/heuristicAnalyzer';
+import { GraphQueryKind, GRAPH_QUERY_KINDS } from '../analyzers/graphQueries';
+import { GraphFormat, GraphLevel, GRAPH_FORMATS } from '../exporters/graphExport';
+
+export type CliCommand = 'analyze' | 'check' | 'graph' | 'explain' | 'diff' | 'cache' | GraphQueryKind;
+
+export type CacheAction = 'list' | 'prune' | 'clear';
+
+export type OutputFormat = 'text' | 'json' | 'markdown';
+
+export type FailOnCategory = 'cycles' | 'hubs' | 'violations';
+
+export interface CliOptions {
+  command: CliCommand;
+  module?: string;
+  targetModule?: string;
+  queryDepth: number | null;
+  diffBase?: string;
+  diffHead?: string;
+  cacheAction: CacheAction;
+  help: boolean;
+  parseOptions: Partial<ParseOptions>;
+  heuristicOptions: HeuristicOptions;
+  rulesPath?: string;
+  useLlm: boolean;
+  useLlmCache: boolean;
+  plugins: string[];
+  format: OutputFormat;
+  graphFormat: GraphFormat;
+  graphLevel: GraphLevel;
+  failOn: FailOnCategory[];
+  output?: string;
+  htmlPath?: string;
+  sarifPath?: string;
+  baselinePath?: string;
+  updateBaseline: boolean;
+}
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export const EXIT_CODES = {
+  success: 0,
+  findings: 1,
+  usage: 2,
+  error: 3,
+} as const;
+
+export const DEFAULT_CHECK_FAIL_ON: FailOnCategory[] = ['cycles', 'violations'];
+
+const COMMANDS: CliCommand[] = ['analyze', 'check', 'graph', 'explain', 'diff', 'cache', ...GRAPH_QUERY_KINDS];
+const CACHE_ACTIONS: CacheAction[] = ['list', 'prune', 'clear'];
+const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'markdown'];
+const FAIL_ON_CATEGORIES: FailOnCategory[] = ['cycles', 'hubs', 'violations'];
+
+export const USAGE = `Usage: ts-dependency-analysis [command] [options]
+
+Commands:
+  analyze              Full report: heuristic analysis, package audit and LLM analysis (default)
+  check                Heuristic analysis only; exits 1 when --fail-on findings exist
+  graph                Print the dependency graph (--format dot|mermaid|graphml|json)
+  explain <module>     Everything known about one module (path or unique suffix)
+  diff <base> [head]   Graph changes between two git revisions or saved JSON snapshots
+                       (head defaults to the working tree)
+  cache [action]       The on-disk LLM result cache: list (default), prune (delete
+                       expired entries) or clear (delete everything)
+  dependencies <module>
+                       The modules a module imports (--transitive or --depth for more hops)
+  dependents <module>  The modules importing a module (--transitive or --depth for more hops)
+  path <from> <to>     The shortest import chain from one module to another
+  neighbors <module>   The modules within --depth hops in either direction (default: 1)
+
+Project options:
+  --root <dir>                 Project root (default: current directory)
+  --include <glob>             Files to scan, repeatable or comma-separated (default: src/**/*)
+  --exclude <glob>             Files to skip, repeatable or comma-separated
+  --ext <ext>                  Extensions to analyze (default: .ts,.tsx,.js,.jsx)
+  --tsconfig <file>            tsconfig for paths/baseUrl (default: <root>/tsconfig.json)
+  --rules <file>               Architecture rules (default: dependency-rules.json)
+
+Analysis options:
+  --hub-threshold <n>          Importers needed for a module to be a hub (default: 3)
+  --max-cycles <n>             Cycles listed per tangled cluster (default: 100)
+  --no-cycle-enumeration       One representative cycle per cluster
+  --layer-depth <n>            Directory segments per layer (default: 2)
+  --transitive                 Follow imports without a hop limit (dependencies,
+                               dependents, neighbors)
+  --depth <n>                  Hops to follow (dependencies, dependents, neighbors; default: 1)
+  --no-llm                     Skip the LLM analysis (analyze only)
+  --plugin <module>            Load a custom analyzer plugin, repeatable (analyze; also
+                               ANALYSIS_PLUGINS)
+  --no-cache                   Ask the LLM again instead of using a cached result;
+                               the fresh result replaces the cached one (analyze only)
+
+Output options:
+  --format <format>            text, json or markdown (graph: dot, mermaid, graphml or json)
+  --graph-level <level>        module or layer (graph only, default: module)
+  --output <file>              Write the output to a file instead of stdout
+  --html <file>                Also write the interactive HTML report (analyze)
+  --sarif <file>               Also write a SARIF 2.1.0 log (analyze, check)
+  --fail-on <categories>       cycles, hubs and/or violations, comma-separated
+                               (check default: cycles,violations, or all three with
+                               --baseline; analyze default: none)
+  -h, --help                   Show this help
+
+Baseline options (check):
+  --baseline <file>            Only fail on cycles and hubs that are new or grew since
+                               this baseline (relative to --root)
+  --update-baseline            Write the current cycles and hubs to the baseline file
+                               (--baseline, default: dependency-baseline.json)
+
+Exit codes:
+  0  Success, no --fail-on findings
+  1  Findings matched --fail-on
+  2  Invalid command line, or unknown module for explain or a graph query
+  3  The analysis failed (unreadable rules file, failed analyzer, crash)
+`;
+
+/**
+ * 1. FOR:
+ * Validating an enumerated flag value.
+ *
+ * 2. TAKES:
+ * - value: The raw value.
+ * - choices: The accepted values.
+ * - flag: The flag name, for the error message.
+ *
+ * 3. DOES:
+ * - Throws a `CliUsageError` listing the choices when the value is not one of them.
+ *
+ * 4. RETURNS:
+ * - The value, narrowed to the choice type.
+ */
+function parseChoice<T extends string>(value: string, choices: readonly T[], flag: string): T {
+  if (!choices.includes(value as T)) {
+    throw new CliUsageError(`Invalid ${flag} "${value}". Use one of: ${choices.join(', ')}.`);
+  }
+  return value as T;
+}
+
+/**
+ * 1. FOR:
+ * Validating a numeric flag.
+ *
+ * 2. TAKES:
+ * - value: The raw value, or `undefined` when the flag is absent.
+ * - flag: The flag name, for the error message.
+ *
+ * 3. DOES:
+ * - Requires a positive integer; throws a `CliUsageError` otherwise.
+ *
+ * 4. RETURNS:
+ * - The number, or `undefined` when the flag is absent.
+ */
+function parseNumber(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new CliUsageError(`${flag} expects a positive integer, got "${value}".`);
+  }
+  return number;
+}
+
+/**
+ * 1. FOR:
+ * Reading the command line.
+ *
+ * 2. TAKES:
+ * - argv: The arguments after the script name (default `process.argv.slice(2)`).
+ *
+ * 3. DOES:
+ * - Parses the flags listed in `USAGE` with `util.parseArgs` (strict: unknown
+ * flags are rejected) and the positionals `[command] [arguments]`.
+ * - Defaults the command to `analyze`, and `--format` to `text` (`dot` for `graph`).
+ * - Defaults `--fail-on` per command: nothing for `analyze`, `DEFAULT_CHECK_FAIL_ON`
+ * for `check`, every category for `check --baseline`.
+ * - Validates every enumerated and numeric value; `explain` and the graph
+ * queries require a module (`path` two), `diff` a base and an optional head,
+ * `cache` takes an optional action. A query's depth is `--depth`, no limit
+ * with `--transitive`, and 1 otherwise.
+ * - Wraps any parsing error in a `CliUsageError`.
+ *
+ * 4. RETURNS:
+ * - The `CliOptions`.
+ */
+export function readCliOptions(argv: string[] = process.argv.slice(2)): CliOptions {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        root: { type: 'string' },
+        include: { type: 'string', multiple: true },
+        exclude: { type: 'string', multiple: true },
+        ext: { type: 'string', multiple: true },
+        tsconfig: { type: 'string' },
+        rules: { type: 'string' },
+        'hub-threshold': { type: 'string' },
+        'max-cycles': { type: 'string' },
+        'no-cycle-enumeration': { type: 'boolean' },
+        'layer-depth': { type: 'string' },
+        transitive: { type: 'boolean' },
+        depth: { type: 'string' },
+        'no-llm': { type: 'boolean' },
+        'no-cache': { type: 'boolean' },
+        plugin: { type: 'string', multiple: true },
+        format: { type: 'string' },
+        'graph-level': { type: 'string' },
+        output: { type: 'string' },
+        html: { type: 'string' },
+        sarif: { type: 'string' },
+        'fail-on': { type: 'string', multiple: true },
+        baseline: { type: 'string' },
+        'update-baseline': { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (err) {
+    throw new CliUsageError((err as Error).message);
+  }
+
+  const { values, positionals } = parsed;
+  const [commandName = 'analyze', ...args] = positionals;
+  const command = parseChoice(commandName, COMMANDS, 'command');
+  const isQuery = GRAPH_QUERY_KINDS.includes(command as GraphQueryKind);
+  const maxArgs =
+    command === 'diff' || command === 'path' ? 2 : command === 'explain' || command === 'cache' || isQuery ? 1 : 0;
+
+  if ((command === 'explain' || isQuery) && args.length === 0 && !values.help) {
+    throw new CliUsageError(`${command} expects a module, e.g. "${command} src/utils/mathUtils.ts".`);
+  }
+  if (command === 'path' && args.length === 1 && !values.help) {
+    throw new CliUsageError('path expects two modules, e.g. "path src/index.ts src/utils/mathUtils.ts".');
+  }
+  if (values.transitive && values.depth !== undefined) {
+    throw new CliUsageError('Use either --transitive or --depth, not both.');
+  }
+  if (command === 'diff' && args.length === 0 && !values.help) {
+    throw new CliUsageError('diff expects a base revision or snapshot, e.g. "diff main feature-branch".');
+  }
+  if (args.length > maxArgs) {
+    throw new CliUsageError(`Unexpected argument "${args[maxArgs]}".`);
+  }
+
+  return {
+    command,
+    module: command === 'explain' || isQuery ? args[0] : undefined,
+    targetModule: command === 'path' ? args[1] : undefined,
+    queryDepth: values.transitive ? null : parseNumber(values.depth, '--depth') ?? 1,
+    diffBase: command === 'diff' ? args[0] : undefined,
+    diffHead: command === 'diff' ? args[1] : undefined,
+    cacheAction: command === 'cache' ? parseChoice(args[0] ?? 'list', CACHE_ACTIONS, 'cache action') : 'list',
+    help: values.help ?? false,
+    parseOptions: {
+      rootDir: values.root,
+      include: parseListOption(values.include),
+      exclude: parseListOption(values.exclude),
+      extensions: parseListOption(values.ext),
+      tsconfig: values.tsconfig,
+    },
+    heuristicOptions: {
+      enumerateCycles: !values['no-cycle-enumeration'],
+      maxCyclesPerComponent: parseNumber(values['max-cycles'], '--max-cycles'),
+      layerDepth: parseNumber(values['layer-depth'], '--layer-depth'),
+      hubThreshold: parseNumber(values['hub-threshold'], '--hub-threshold'),
+    },
+    rulesPath: values.rules,
+    useLlm: !values['no-llm'],
+    useLlmCache: !values['no-cache'],
+    plugins: parseListOption(values.plugin),
+    format:
+      command === 'graph' ? 'text' : parseChoice(values.format ?? 'text', OUTPUT_FORMATS, '--format'),
+    graphFormat:
+      command === 'graph' ? parseChoice(values.format ?? 'dot', GRAPH_FORMATS, '--format') : 'dot',
+    graphLevel: parseChoice(values['graph-level'] ?? 'module', ['module', 'layer'] as const, '--graph-level'),
+    failOn: values['fail-on']
+      ? parseListOption(values['fail-on']).map((category) =>
+          parseChoice(category, FAIL_ON_CATEGORIES, '--fail-on')
+        )
+      : command !== 'check'
+        ? []
+        : values.baseline
+          ? FAIL_ON_CATEGORIES
+          : DEFAULT_CHECK_FAIL_ON,
+    output: values.output,
+    htmlPath: values.html,
+    sarifPath: values.sarif,
+    baselinePath: values.baseline,
+    updateBaseline: values['update-baseline'] ?? false,
+  };
+}
@@ -0,0 +1,859 @@
+/**
+ * @file reports.ts
+ *
+ * 1. FILE PURPOSE
+ * This file renders the command-line reports as text or Markdown: the full
+ * comparative report of `analyze`, the findings summary of `check`, the
+ * module explanation of `explain`, the graph changes of `diff`, the LLM cache listing of `cache` and the
+ * answers of the graph queries. Rendering to strings (instead of logging
+ * directly) lets every report go to stdout or to an `--output` file alike.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - CliReport (Interface): Everything `analyze` and `check` produce.
+ * - Row (Type): One table row (column name -> cell value).
+ *
+ * 3. FUNCTIONALITIES
+ * - renderTextReport(report, hubThreshold): The console report.
+ * - renderMarkdownReport(report): The same findings as Markdown (for PR comments, wikis).
+ * - renderExplanation(explanation, format): The `explain` output as text or Markdown.
+ * - renderBaselineFixes(comparison): The findings fixed since the baseline.
+ * - renderGraphDiff(diff, format): The `diff` output as text or Markdown.
+ * - renderCacheEntries(entries, directory, format): The `cache list` output as text or Markdown.
+ * - renderGraphQuery(result, format): A graph query answer as text or Markdown.
+ * - textTable(rows) / markdownTable(rows): Private helpers that lay out a table.
+ * - metricRows(report): A private helper that shapes the coupling metrics as table rows.
+ * - analyzerRows(report): A private helper that shapes the analyzer statuses as table rows.
+ * - reconciliationLines(reconciliation, code): A private helper that lists the
+ * heuristic vs. LLM cross-check.
+ */
+
+import { UnresolvedImport } from '../core/parser';
+import { HeuristicAnalysisResult } from '../analyzers/heuristicAnalyzer';
+import { AnalysisResult as LlmAnalysisResult } from '../analyzers/llmAnalyzer';
+import { PackageAuditResult } from '../analyzers/packageAudit';
+import { ModuleExplanation } from '../analyzers/moduleExplanation';
+import { BaselineComparison } from '../analyzers/baseline';
+import { GraphDiff } from '../analyzers/graphDiff';
+import { FindingReconciliation } from '../analyzers/findingReconciliation';
+import { CacheEntryInfo } from '../llm/resultCache';
+import { GraphQueryResult } from '../analyzers/graphQueries';
+import { AnalyzerStatus } from '../analyzers/analyzerPipeline';
+
+export interface CliReport {
+  timestamp: string;
+  dependencyMap: Record<string, string[]>;
+  unresolvedImports: UnresolvedImport[];
+  rulesConfigured: number;
+  heuristicAnalysis: HeuristicAnalysisResult;
+  packageAudit: PackageAuditResult | null;
+  llmAnalysis: LlmAnalysisResult | null;
+  reconciliation: FindingReconciliation | null;
+  pluginResults: Record<string, unknown>;
+  analyzers: AnalyzerStatus[];
+  baseline: BaselineComparison | null;
+  failures: string[];
+}
+
+type Row = Record<string, string | number>;
+
+/**
+ * 1. FOR:
+ * Laying out rows as an aligned plain-text table.
+ *
+ * 2. TAKES:
+ * - rows: The table rows; the first row's keys are the columns.
+ *
+ * 3. DOES:
+ * - Pads every cell to its column's widest value and underlines the header.
+ *
+ * 4. RETURNS:
+ * - The table lines, or a single "(none)" line when there are no rows.
+ */
+function textTable(rows: Row[]): string[] {
+  if (rows.length === 0) {
+    return ['(none)'];
+  }
+  const columns = Object.keys(rows[0]);
+  const widths = columns.map((column) =>
+    Math.max(column.length, ...rows.map((row) => String(row[column]).length))
+  );
+  const line = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+
+  return [
+    line(columns),
+    line(widths.map((width) => '-'.repeat(width))),
+    ...rows.map((row) => line(columns.map((column) => String(row[column])))),
+  ];
+}
+
+/**
+ * 1. FOR:
+ * Laying out rows as a Markdown table.
+ *
+ * 2. TAKES:
+ * - rows: The table rows; the first row's keys are the columns.
+ *
+ * 3. DOES:
+ * - Writes a header, a separator and one line per row, escaping `|` in cells.
+ *
+ * 4. RETURNS:
+ * - The table lines, or a single "_None._" line when there are no rows.
+ */
+function markdownTable(rows: Row[]): string[] {
+  if (rows.length === 0) {
+    return ['_None._'];
+  }
+  const columns = Object.keys(rows[0]);
+  const cell = (value: string | number) => String(value).replace(/\|/g, '\\|');
+  return [
+    `| ${columns.join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${columns.map((column) => cell(row[column])).join(' | ')} |`),
+  ];
+}
+
+/**
+ * 1. FOR:
+ * Shaping the coupling metrics for the report tables.
+ *
+ * 2. TAKES:
+ * - report: The `CliReport`.
+ *
+ * 3. DOES:
+ * - Maps the module and directory metrics to short column names (Ca, Ce, I, A, D).
+ *
+ * 4. RETURNS:
+ * - The module rows and the directory rows.
+ */
+function metricRows(report: CliReport): { modules: Row[]; directories: Row[] } {
+  const { modules, directories } = report.heuristicAnalysis.couplingMetrics;
+  return {
+    modules: modules.map((row) => ({
+      module: row.module,
+      Ca: row.afferentCoupling,
+      Ce: row.efferentCoupling,
+      I: row.instability,
+      A: row.abstractness,
+      D: row.distance,
+      zone: row.zone,
+    })),
+    directories: directories.map((row) => ({
+      directory: row.directory,
+      modules: row.moduleCount,
+      Ca: row.afferentCoupling,
+      Ce: row.efferentCoupling,
+      I: row.instability,
+      A: row.abstractness,
+      D: row.distance,
+      zone: row.zone,
+    })),
+  };
+}
+
+/**
+ * 1. FOR:
+ * Showing which analyzers contributed to the report.
+ *
+ * 2. TAKES:
+ * - report: The `CliReport`.
+ *
+ * 3. DOES:
+ * - Maps every analyzer status to its name, status, duration and error.
+ *
+ * 4. RETURNS:
+ * - The rows.
+ */
+function analyzerRows(report: CliReport): Row[] {
+  return report.analyzers.map((analyzer) => ({
+    analyzer: analyzer.name,
+    status: analyzer.status,
+    'time (ms)': analyzer.durationMs,
+    error: analyzer.error ?? '',
+  }));
+}
+
+/**
+ * 1. FOR:
+ * Listing the cross-check of the LLM findings against the graph and the heuristics.
+ *
+ * 2. TAKES:
+ * - reconciliation: The `FindingReconciliation`.
+ * - code: Formats a module name (backticks in Markdown, as-is in text).
+ *
+ * 3. DOES:
+ * - Writes the agreement score, every LLM cycle and hub with its status and
+ * failed checks, the invented imports, and the heuristic findings the LLM missed.
+ *
+ * 4. RETURNS:
+ * - The lines, shared by the text and Markdown reports.
+ */
+function reconciliationLines(reconciliation: FindingReconciliation, code: (value: string) => string): string[] {
+  const edge = (entry: { from: string; to: string }) => `${code(entry.from)} -> ${code(entry.to)}`;
+  const total =
+    reconciliation.cycles.length +
+    reconciliation.hubs.length +
+    reconciliation.missedCycles.length +
+    reconciliation.missedHubs.length;
+  const lines = [
+    `Agreement score: ${Math.round(reconciliation.agreementScore * 100)}% ` +
+      `(${reconciliation.confirmedFindings} of ${total} finding(s) confirmed by both analyses)`,
+    '',
+    'LLM cycles:',
+  ];
+
+  if (reconciliation.cycles.length === 0) {
+    lines.push('- None reported.');
+  }
+  reconciliation.cycles.forEach((cycle) => {
+    const problems = [
+      ...(cycle.unknownModules.length > 0 ? [`unknown module(s): ${cycle.unknownModules.map(code).join(', ')}`] : []),
+      ...(cycle.missingEdges.length > 0 ? [`import(s) not in the graph: ${cycle.missingEdges.map(edge).join(', ')}`] : []),
+      ...(cycle.status === 'unlisted' ? ['real cycle, not listed by the heuristics'] : []),
+    ];
+    lines.push(`- [${cycle.status}] ${cycle.path.map(code).join(' -> ')}${problems.length > 0 ? ` — ${problems.join('; ')}` : ''}`);
+  });
+
+  lines.push('', 'LLM hubs:');
+  if (reconciliation.hubs.length === 0) {
+    lines.push('- None reported.');
+  }
+  reconciliation.hubs.forEach((hub) => {
+    const problems = [
+      ...(hub.invalidImporters.length > 0
+        ? [`listed importer(s) that do not import it: ${hub.invalidImporters.map(code).join(', ')}`]
+        : []),
+      ...(hub.missingImporters.length > 0 ? [`${hub.missingImporters.length} real importer(s) not listed`] : []),
+      ...(hub.status === 'unlisted' ? ['below the hub threshold'] : []),
+    ];
+    lines.push(`- [${hub.status}] ${code(hub.module)}${problems.length > 0 ? ` — ${problems.join('; ')}` : ''}`);
+  });
+
+  if (reconciliation.hallucinatedEdges.length > 0) {
+    lines.push('', 'Imports the LLM reported that do not exist:');
+    reconciliation.hallucinatedEdges.forEach((entry) => lines.push(`- ${edge(entry)}`));
+  }
+  if (reconciliation.missedCycles.length > 0 || reconciliation.missedHubs.length > 0) {
+    lines.push('', 'Heuristic findings the LLM missed:');
+    reconciliation.missedCycles.forEach((path) => lines.push(`- Cycle ${path.map(code).join(' -> ')}`));
+    reconciliation.missedHubs.forEach((module) => lines.push(`- Hub ${code(module)}`));
+  }
+
+  return lines;
+}
+
+/**
+ * 1. FOR:
+ * Rendering the comparative console report.
+ *
+ * 2. TAKES:
+ * - report: The `CliReport`.
+ * - hubThreshold: The hub threshold used, for the "no hubs" message.
+ *
+ * 3. DOES:
+ * - Writes, in order: the dependency map and unresolved imports, the analyzer
+ * statuses (when one did not succeed), circular
+ * dependencies (heuristic vs. LLM) and tangled clusters, the cycle-breaking
+ * plan, tightly coupled modules (heuristic vs. LLM), the cross-check of the
+ * LLM findings against the graph, the layer graph, rule
+ * violations, coupling metrics, unused exports, third-party packages, the LLM
+ * recommendations (with any LLM response validation issues), the plugin
+ * analyzer results (as JSON) and the `--fail-on` findings.
+ * - LLM sections say so when the LLM analysis was skipped or failed, and the
+ * package section is left out when no audit was run.
+ *
+ * 4. RETURNS:
+ * - The report text.
+ */
+export function renderTextReport(report: CliReport, hubThreshold: number): string {
+  const heuristic = report.heuristicAnalysis;
+  const llm = report.llmAnalysis;
+  const lines: string[] = [];
+  const out = (...entries: string[]) => lines.push(...entries);
+  const json = (value: unknown) => out(JSON.stringify(value, null, 2));
+  const llmMissing = 'LLM analysis not available (skipped with --no-llm, or failed).';
+
+  out('Discovered Dependency Map:');
+  Object.entries(report.dependencyMap).forEach(([module, dependencies]) => {
+    out(`- ${module}${dependencies.length > 0 ? ` -> ${dependencies.join(', ')}` : ''}`);
+  });
+
+  if (report.unresolvedImports.length > 0) {
+    out('', 'Unresolved Imports:');
+    report.unresolvedImports.forEach((entry) => {
+      out(`- ${entry.file}:${entry.line}:${entry.column} "${entry.specifier}" — ${entry.reason}`);
+    });
+  }
+
+  out('', '=================================', '  Comparative Analysis Report  ', '=================================');
+
+  if (report.analyzers.some((analyzer) => analyzer.status !== 'succeeded')) {
+    out('', '--- Analyzers (partial report) ---', ...textTable(analyzerRows(report)));
+  }
+
+  out('', '--- Circular Dependencies ---', '', '[ Heuristic Analysis ]');
+  if (heuristic.circularDependencies.length === 0) {
+    out('No circular dependencies found.');
+  } else {
+    json(heuristic.circularDependencies);
+  }
+
+  if (heuristic.stronglyConnectedComponents.length > 0) {
+    out('', 'Tangled clusters (strongly connected components):');
+    heuristic.stronglyConnectedComponents.forEach((component) => {
+      const count = `${component.cycleCount}${component.truncated ? '+' : ''} cycle(s)`;
+      out(`- [${component.members.join(', ')}] — ${count}`);
+    });
+  }
+
+  out('', '[ LLM Analysis ]');
+  if (!llm) {
+    out(llmMissing);
+  } else if (llm.circularDependencies.length === 0) {
+    out('No circular dependencies found.');
+  } else {
+    json(llm.circularDependencies);
+  }
+
+  out('', '', '--- Cycle-Breaking Plan (Heuristic Only) ---');
+  if (heuristic.cycleBreakingPlan.length === 0) {
+    out('No cycles to break.');
+  } else {
+    heuristic.cycleBreakingPlan.forEach((plan) => {
+      out('', `Cluster [${plan.component.join(', ')}] — remove ${plan.edgesToRemove.length} import(s):`);
+      plan.edgesToRemove.forEach((edge) => {
+        const symbols = edge.symbols.length > 0 ? ` (uses ${edge.symbols.join(', ')})` : '';
+        out(`- ${edge.from} -> ${edge.to}: breaks ${edge.cyclesBroken} of ${plan.cycleCount} cycle(s)${symbols}`);
+      });
+    });
+  }
+
+  out('', '', '--- Tightly Coupled Modules ---', '', '[ Heuristic Analysis ]');
+  if (heuristic.tightlyCoupledModules.length === 0) {
+    out(`No modules found imported by ${hubThreshold} or more files.`);
+  } else {
+    json(heuristic.tightlyCoupledModules);
+  }
+
+  out('', '[ LLM Analysis ]');
+  if (!llm) {
+    out(llmMissing);
+  } else if (llm.tightlyCoupledModules.length === 0) {
+    out('No tightly coupled modules identified.');
+  } else {
+    json(llm.tightlyCoupledModules);
+  }
+
+  out('', '', '--- Heuristic vs. LLM Agreement ---');
+  if (!report.reconciliation) {
+    out(llmMissing);
+  } else {
+    out(...reconciliationLines(report.reconciliation, (value) => value));
+  }
+
+  const { layerGraph } = heuristic;
+  out('', '', `--- Layer Graph, depth ${layerGraph.depth} (Heuristic Only) ---`);
+  out(
+    ...textTable(
+      layerGraph.layers.map((layer) => ({
+        layer: layer.layer,
+        modules: layer.moduleCount,
+        'internal imports': layer.internalImports,
+      }))
+    )
+  );
+  if (layerGraph.edges.length === 0) {
+    out('No dependencies between layers.');
+  } else {
+    layerGraph.edges.forEach((edge) => out(`- ${edge.from} -> ${edge.to} (${edge.weight} import(s))`));
+  }
+  if (layerGraph.cycles.length > 0) {
+    out('', 'Layer cycles:');
+    layerGraph.cycles.forEach((cycle) => {
+      out(`- ${cycle.path.join(' -> ')} (weakest link: ${cycle.weight} import(s))`);
+    });
+  }
+  if (layerGraph.hubs.length > 0) {
+    out('', 'Hub layers:');
+    layerGraph.hubs.forEach((hub) => {
+      out(`- ${hub.layer}: imported by ${hub.importedBy.length} layer(s), ${hub.weight} import(s)`);
+    });
+  }
+
+  out('', '', '--- Architecture Rule Violations (Heuristic Only) ---');
+  if (report.rulesConfigured === 0) {
+    out('No architecture rules configured.');
+  } else if (heuristic.ruleViolations.length === 0) {
+    out(`All ${report.rulesConfigured} architecture rule(s) pass.`);
+  } else {
+    heuristic.ruleViolations.forEach((violation) => {
+      const location = violation.line ? `:${violation.line}` : '';
+      out(`- [${violation.severity}] ${violation.rule}: ${violation.from}${location} -> ${violation.to}`);
+    });
+  }
+
+  const metrics = metricRows(report);
+  out('', '', '--- Coupling Metrics (Heuristic Only) ---');
+  out('Ca = importers, Ce = dependencies, I = instability, A = abstractness, D = distance from main sequence');
+  out('', ...textTable(metrics.modules), '', ...textTable(metrics.directories));
+
+  out('', '', '--- Unused Exports (Heuristic Only) ---');
+  if (heuristic.unusedExports.length === 0) {
+    out('Every export is imported somewhere.');
+  } else {
+    heuristic.unusedExports.forEach((entry) => {
+      out(`- ${entry.module}:${entry.line} ${entry.name} (${entry.kind})`);
+    });
+  }
+
+  const audit = report.packageAudit;
+  if (audit) {
+    out('', '', '--- Third-Party Packages (Heuristic Only) ---');
+    if (audit.packageUsage.length === 0) {
+      out('No third-party packages imported.');
+    } else {
+      audit.packageUsage.forEach((entry) => {
+        const heaviest = entry.importers
+          .map((importer) => `${importer.module} (${importer.importCount})`)
+          .join(', ');
+        out(`- ${entry.package}: ${entry.importCount} import(s) — ${heaviest}`);
+      });
+    }
+    if (audit.undeclaredPackages.length > 0) {
+      out('', 'Imported but not declared in package.json:');
+      audit.undeclaredPackages.forEach((entry) => {
+        out(`- ${entry.package} (imported by ${entry.importedBy.join(', ')})`);
+      });
+    }
+    if (audit.unusedPackages.length > 0) {
+      out('', 'Declared in package.json but never imported:');
+      audit.unusedPackages.forEach((entry) => out(`- ${entry.package} (${entry.declaredIn})`));
+    }
+  }
+
+  out('', '', '--- Refactoring Recommendations (LLM Only) ---');
+  if (!llm) {
+    out(llmMissing);
+  } else if (llm.refactoringRecommendations.length === 0) {
+    out('No specific recommendations given.');
+  } else {
+    llm.refactoringRecommendations.forEach((rec) => out(`- ${rec}`));
+  }
+
+  if (llm && llm.validationIssues.length > 0) {
+    out('', 'LLM response issues (invalid entries were left out):');
+    llm.validationIssues.forEach((issue) => out(`- ${issue.path}: ${issue.message}`));
+  }
+
+  Object.entries(report.pluginResults).forEach(([name, result]) => {
+    out('', '', `--- ${name} (Plugin) ---`);
+    json(result);
+  });
+
+  if (report.failures.length > 0) {
+    out('', '', '--- Failing Findings (--fail-on) ---');
+    report.failures.forEach((failure) => out(`- ${failure}`));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * 1. FOR:
+ * Rendering the findings as Markdown, e.g. for a pull request comment.
+ *
+ * 2. TAKES:
+ * - report: The `CliReport`.
+ *
+ * 3. DOES:
+ * - Writes a summary table, then one section per finding type (cycles, hubs,
+ * cycle-breaking plan, layer graph, rule violations, metrics, unused exports,
+ * packages, LLM findings and their cross-check, plugin results), and the `--fail-on` findings first when there are any,
+ * followed by the findings fixed since the baseline.
+ *
+ * 4. RETURNS:
+ * - The Markdown document.
+ */
+export function renderMarkdownReport(report: CliReport): string {
+  const heuristic = report.heuristicAnalysis;
+  const llm = report.llmAnalysis;
+  const code = (value: string) => `\`${value}\``;
+  const lines: string[] = ['# Dependency Analysis Report', '', `_Generated ${report.timestamp}_`, ''];
+  const out = (...entries: string[]) => lines.push(...entries);
+
+  if (report.failures.length > 0) {
+    out('> [!CAUTION]', '> Failing findings:');
+    report.failures.forEach((failure) => out(`> - ${failure}`));
+    out('');
+  }
+
+  const fixes = renderBaselineFixes(report.baseline);
+  if (fixes) {
+    out(fixes);
+  }
+
+  out(
+    ...markdownTable([
+      { finding: 'Modules', count: Object.keys(report.dependencyMap).length },
+      { finding: 'Circular dependencies', count: heuristic.circularDependencies.length },
+      { finding: 'Tangled clusters', count: heuristic.stronglyConnectedComponents.length },
+      { finding: 'Hub modules', count: heuristic.tightlyCoupledModules.length },
+      { finding: 'Rule violations', count: heuristic.ruleViolations.length },
+      { finding: 'Unused exports', count: heuristic.unusedExports.length },
+      { finding: 'Unresolved imports', count: report.unresolvedImports.length },
+    ])
+  );
+
+  if (report.analyzers.length > 0) {
+    out('', '## Analyzers', '', ...markdownTable(analyzerRows(report)));
+  }
+
+  out('', '## Circular Dependencies', '');
+  if (heuristic.circularDependencies.length === 0) {
+    out('_None._');
+  } else {
+    heuristic.circularDependencies.forEach((cycle) => out(`- ${cycle.path.map(code).join(' → ')}`));
+  }
+
+  out('', '## Cycle-Breaking Plan', '');
+  out(
+    ...markdownTable(
+      heuristic.cycleBreakingPlan.flatMap((plan) =>
+        plan.edgesToRemove.map((edge) => ({
+          'remove import': `${code(edge.from)} → ${code(edge.to)}`,
+          'cycles broken': `${edge.cyclesBroken} of ${plan.cycleCount}`,
+          symbols: edge.symbols.join(', '),
+        }))
+      )
+    )
+  );
+
+  out('', '## Tightly Coupled Modules', '');
+  out(
+    ...markdownTable(
+      heuristic.tightlyCoupledModules.map((hub) => ({
+        module: code(hub.module),
+        importers: hub.importedBy.length,
+        symbols: hub.importedSymbols.join(', '),
+      }))
+    )
+  );
+
+  out('', `## Layer Graph (depth ${heuristic.layerGraph.depth})`, '');
+  out(
+    ...markdownTable(
+      heuristic.layerGraph.edges.map((edge) => ({
+        from: code(edge.from),
+        to: code(edge.to),
+        imports: edge.weight,
+      }))
+    )
+  );
+  if (heuristic.layerGraph.cycles.length > 0) {
+    out('', '**Layer cycles:**', '');
+    heuristic.layerGraph.cycles.forEach((cycle) => out(`- ${cycle.path.map(code).join(' → ')}`));
+  }
+
+  out('', '## Architecture Rule Violations', '');
+  out(
+    ...markdownTable(
+      heuristic.ruleViolations.map((violation) => ({
+        severity: violation.severity,
+        rule: violation.rule,
+        import: `${code(`${violation.from}${violation.line ? `:${violation.line}` : ''}`)} → ${code(violation.to)}`,
+      }))
+    )
+  );
+
+  const metrics = metricRows(report);
+  out('', '## Coupling Metrics', '', ...markdownTable(metrics.modules), '', ...markdownTable(metrics.directories));
+
+  out('', '## Unused Exports', '');
+  out(
+    ...markdownTable(
+      heuristic.unusedExports.map((entry) => ({
+        module: code(`${entry.module}:${entry.line}`),
+        export: code(entry.name),
+        kind: entry.kind,
+      }))
+    )
+  );
+
+  if (report.packageAudit) {
+    out('', '## Third-Party Packages', '');
+    out(
+      ...markdownTable(
+        report.packageAudit.packageUsage.map((entry) => ({
+          package: code(entry.package),
+          declared: entry.declared ? 'yes' : '**no**',
+          imports: entry.importCount,
+        }))
+      )
+    );
+    if (report.packageAudit.unusedPackages.length > 0) {
+      out('', `Declared but never imported: ${report.packageAudit.unusedPackages.map((entry) => code(entry.package)).join(', ')}`);
+    }
+  }
+
+  out('', '## LLM Findings', '');
+  if (!llm) {
+    out('_LLM analysis not available._');
+  } else {
+    llm.circularDependencies.forEach((cycle) => out(`- Cycle ${cycle.path.map(code).join(' → ')}: ${cycle.reason}`));
+    llm.tightlyCoupledModules.forEach((hub) => out(`- Hub ${code(hub.module)}: ${hub.recommendation}`));
+    out('', '### Refactoring Recommendations', '');
+    llm.refactoringRecommendations.forEach((rec) => out(`- ${rec}`));
+    if (llm.validationIssues.length > 0) {
+      out('', '### Response Issues', '', '_Entries that failed validation were left out._', '');
+      llm.validationIssues.forEach((issue) => out(`- ${code(issue.path)}: ${issue.message}`));
+    }
+  }
+
+  if (report.reconciliation) {
+    out('', '## Heuristic vs. LLM Agreement', '', ...reconciliationLines(report.reconciliation, code));
+  }
+
+  Object.entries(report.pluginResults).forEach(([name, result]) => {
+    out('', `## ${name} (Plugin)`, '', '```json', JSON.stringify(result, null, 2), '```');
+  });
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * 1. FOR:
+ * Reporting what was fixed since the baseline, so the baseline can be tightened.
+ *
+ * 2. TAKES:
+ * - comparison: The `BaselineComparison`, or `null` outside baseline mode.
+ *
+ * 3. DOES:
+ * - Lists the imports no longer on any cycle and the hubs that are no longer hubs, with a hint
+ * to run `--update-baseline`.
+ *
+ * 4. RETURNS:
+ * - The text (Markdown-compatible list), or an empty string when nothing was fixed.
+ */
+export function renderBaselineFixes(comparison: BaselineComparison | null): string {
+  if (!comparison || (comparison.fixedCycleEdges.length === 0 && comparison.fixedHubs.length === 0)) {
+    return '';
+  }
+  const lines = [
+    'Fixed since the baseline (run `check --update-baseline` to tighten it):',
+    ...comparison.fixedCycleEdges.map((edge) => `- No longer on a cycle: ${edge}`),
+    ...comparison.fixedHubs.map((hub) => `- No longer a hub: ${hub.module} (had ${hub.baselineCount} importers)`),
+  ];
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * 1. FOR:
+ * Rendering the `explain` output.
+ *
+ * 2. TAKES:
+ * - explanation: The `ModuleExplanation`.
+ * - format: `text` or `markdown`.
+ *
+ * 3. DOES:
+ * - Writes the module's layer, hub status and metrics, then its importers and
+ * dependencies (with line and symbols), packages, cycles, rule violations
+ * and unused exports.
+ *
+ * 4. RETURNS:
+ * - The rendered explanation.
+ */
+export function renderExplanation(explanation: ModuleExplanation, format: 'text' | 'markdown'): string {
+  const markdown = format === 'markdown';
+  const heading = (title: string) => (markdown ? ['', `## ${title}`, ''] : ['', `--- ${title} ---`]);
+  const name = (value: string) => (markdown ? `\`${value}\`` : value);
+  const table = markdown ? markdownTable : textTable;
+  const list = (items: string[], empty: string) =>
+    items.length === 0 ? [markdown ? `_${empty}_` : empty] : items.map((item) => `- ${item}`);
+  const links = (entries: ModuleExplanation['importers']) =>
+    table(
+      entries.map((entry) => ({
+        module: name(entry.module),
+        line: entry.line ?? '',
+        symbols: entry.symbols.join(', '),
+      }))
+    );
+
+  const metrics = explanation.metrics;
+  const lines = [
+    markdown ? `# ${name(explanation.module)}` : `Module: ${explanation.module}`,
+    ...(markdown ? [''] : []),
+    `- Layer: ${name(explanation.layer)}`,
+    `- Hub: ${explanation.hub ? 'yes' : 'no'}`,
+    ...(metrics
+      ? [
+          `- Ca ${metrics.afferentCoupling}, Ce ${metrics.efferentCoupling}, I ${metrics.instability}, ` +
+            `A ${metrics.abstractness}, D ${metrics.distance} (${metrics.zone})`,
+        ]
+      : []),
+    ...heading(`Imported by (${explanation.importers.length})`),
+    ...links(explanation.importers),
+    ...heading(`Depends on (${explanation.dependencies.length})`),
+    ...links(explanation.dependencies),
+    ...heading('Third-party packages'),
+    ...list(explanation.externalDependencies.map(name), 'None.'),
+    ...heading('Cycles'),
+    ...list(explanation.cycles.map((path) => path.map(name).join(' -> ')), 'Not part of any cycle.'),
+    ...heading('Rule violations'),
+    ...list(
+      explanation.ruleViolations.map(
+        (violation) => `[${violation.severity}] ${violation.rule}: ${name(violation.from)} -> ${name(violation.to)}`
+      ),
+      'None.'
+    ),
+    ...heading('Unused exports'),
+    ...list(explanation.unusedExports.map((entry) => `${name(entry.name)} (${entry.kind}, line ${entry.line})`), 'None.'),
+  ];
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * 1. FOR:
+ * Rendering the `diff` output.
+ *
+ * 2. TAKES:
+ * - diff: The `GraphDiff`.
+ * - format: `text` or `markdown`.
+ *
+ * 3. DOES:
+ * - Writes a one-line summary, then the imports that joined or left a cycle
+ * (each with the shortest cycle through it), the hub
+ * threshold crossings, the added and removed modules and the added and
+ * removed imports.
+ *
+ * 4. RETURNS:
+ * - The rendered diff.
+ */
+export function renderGraphDiff(diff: GraphDiff, format: 'text' | 'markdown'): string {
+  const markdown = format === 'markdown';
+  const heading = (title: string) => (markdown ? ['', `## ${title}`, ''] : ['', `--- ${title} ---`]);
+  const name = (value: string) => (markdown ? `\`${value}\`` : value);
+  const list = (items: string[], empty: string) =>
+    items.length === 0 ? [markdown ? `_${empty}_` : empty] : items.map((item) => `- ${item}`);
+  const cycleEdges = (changes: GraphDiff['newCycleEdges']) =>
+    changes.map(
+      (change) => `${name(change.from)} -> ${name(change.to)} (cycle: ${change.cycle.map(name).join(' -> ')})`
+    );
+  const hubs = (changes: GraphDiff['newHubs']) =>
+    changes.map((hub) => `${name(hub.module)} (${hub.baseImporters} -> ${hub.headImporters} importers)`);
+  const edges = (entries: GraphDiff['addedEdges']) => entries.map((edge) => `${name(edge.from)} -> ${name(edge.to)}`);
+
+  const title = `Dependency graph diff: ${name(diff.base)} -> ${name(diff.head)}`;
+  const lines = [
+    markdown ? `# ${title}` : title,
+    ...(markdown ? [''] : []),
+    `- Imports: +${diff.addedEdges.length} / -${diff.removedEdges.length}`,
+    `- Modules: +${diff.addedModules.length} / -${diff.removedModules.length}`,
+    `- Cyclic imports: ${diff.newCycleEdges.length} new, ${diff.resolvedCycleEdges.length} resolved`,
+    `- Hubs (>= ${diff.hubThreshold} importers): ${diff.newHubs.length} new, ${diff.removedHubs.length} no longer hubs`,
+    ...heading(`New cyclic imports (${diff.newCycleEdges.length})`),
+    ...list(cycleEdges(diff.newCycleEdges), 'None.'),
+    ...heading(`Resolved cyclic imports (${diff.resolvedCycleEdges.length})`),
+    ...list(cycleEdges(diff.resolvedCycleEdges), 'None.'),
+    ...heading(`New hubs (${diff.newHubs.length})`),
+    ...list(hubs(diff.newHubs), 'None.'),
+    ...heading(`No longer hubs (${diff.removedHubs.length})`),
+    ...list(hubs(diff.removedHubs), 'None.'),
+    ...heading(`Added modules (${diff.addedModules.length})`),
+    ...list(diff.addedModules.map(name), 'None.'),
+    ...heading(`Removed modules (${diff.removedModules.length})`),
+    ...list(diff.removedModules.map(name), 'None.'),
+    ...heading(`Added imports (${diff.addedEdges.length})`),
+    ...list(edges(diff.addedEdges), 'None.'),
+    ...heading(`Removed imports (${diff.removedEdges.length})`),
+    ...list(edges(diff.removedEdges), 'None.'),
+  ];
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * 1. FOR:
+ * Rendering the `cache list` output.
+ *
+ * 2. TAKES:
+ * - entries: The `CacheEntryInfo[]`.
+ * - directory: The cache directory.
+ * - format: `text` or `markdown`.
+ *
+ * 3. DOES:
+ * - Writes the directory and totals, then one table row per entry (short key,
+ * age, provider and model, prompt version, module count, size, expiry).
+ *
+ * 4. RETURNS:
+ * - The rendered listing.
+ */
+export function renderCacheEntries(entries: CacheEntryInfo[], directory: string, format: 'text' | 'markdown'): string {
+  const markdown = format === 'markdown';
+  const expired = entries.filter((entry) => entry.expired).length;
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+  const rows: Row[] = entries.map((entry) => ({
+    key: entry.key.slice(0, 12),
+    created: entry.createdAt,
+    model: `${entry.provider}/${entry.model}`,
+    prompt: entry.promptVersion,
+    modules: entry.modules,
+    'size (KB)': (entry.sizeBytes / 1024).toFixed(1),
+    status: entry.expired ? 'expired' : 'valid',
+  }));
+
+  const title = 'LLM result cache';
+  const lines = [
+    markdown ? `# ${title}` : title,
+    ...(markdown ? [''] : []),
+    `- Directory: ${markdown ? `\`${directory}\`` : directory}`,
+    `- Entries: ${entries.length} (${expired} expired), ${(totalBytes / 1024).toFixed(1)} KB`,
+    '',
+    ...(markdown ? markdownTable(rows) : textTable(rows)),
+  ];
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * 1. FOR:
+ * Rendering the answer of a graph query.
+ *
+ * 2. TAKES:
+ * - result: The `GraphQueryResult`.
+ * - format: `text` or `markdown`.
+ *
+ * 3. DOES:
+ * - `path`: writes the import chain, or says there is none.
+ * - Otherwise: writes a title with the depth limit, then one table row per
+ * module with its distance in hops.
+ *
+ * 4. RETURNS:
+ * - The rendered answer.
+ */
+export function renderGraphQuery(result: GraphQueryResult, format: 'text' | 'markdown'): string {
+  const markdown = format === 'markdown';
+  const name = (value: string) => (markdown ? `\`${value}\`` : value);
+  const titled = (title: string) => (markdown ? [`# ${title}`, ''] : [title]);
+
+  if (result.kind === 'path') {
+    const target = result.target ?? result.module;
+    const lines = [
+      ...titled(`Import path from ${name(result.module)} to ${name(target)}`),
+      result.path
+        ? `${result.path.map(name).join(' -> ')} (${result.path.length - 1} hop${result.path.length === 2 ? '' : 's'})`
+        : `${name(result.module)} does not depend on ${name(target)}, directly or transitively.`,
+    ];
+    return `${lines.join('\n')}\n`;
+  }
+
+  const titles = { dependencies: 'Dependencies of', dependents: 'Dependents of', neighbors: 'Neighbors of' };
+  const scope = result.depth === null ? 'transitive' : result.depth === 1 ? 'direct' : `within ${result.depth} hops`;
+  const rows: Row[] = result.modules.map((entry) => ({ module: name(entry.module), hops: entry.depth }));
+  const lines = [
+    ...titled(`${titles[result.kind]} ${name(result.module)} (${scope}): ${result.modules.length}`),
+    ...(markdown ? [] : ['']),
+    ...(markdown ? markdownTable(rows) : textTable(rows)),
+  ];
+
+  return `${lines.join('\n')}\n`;
+}
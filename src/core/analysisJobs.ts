@@ -0,0 +1,212 @@
+/**
+ * @file analysisJobs.ts
+ *
+ * 1. FILE PURPOSE
+ * This file keeps track of the server's analysis runs as jobs. A job is
+ * created per request, queued, run by the server's runner function and kept
+ * with its status, progress phase and result after it finishes, so clients
+ * can poll it by id instead of holding a request open. Every job has a key
+ * (the project it analyzes); submitting a key that already has a queued or
+ * running job joins that job instead of starting a second run, as long as
+ * the queue's `canJoin` accepts its input. Jobs can be
+ * cancelled: a queued job is dropped, a running one has its `AbortSignal`
+ * aborted.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - JobStatus (Type): Where a job is in its lifecycle.
+ * - JobPhase (Type): What a running job is doing.
+ * - AnalysisJob (Interface): The public view of one job.
+ * - JobContext (Interface): What the runner gets besides its input.
+ * - JobQueueOptions (Interface): The concurrency and history limits, and which inputs may share a job.
+ * - JobQueue (Interface): The queue returned by `createJobQueue`.
+ * - DEFAULT_JOB_QUEUE_OPTIONS (Constant): One job at a time, 50 finished jobs kept.
+ *
+ * 3. FUNCTIONALITIES
+ * - createJobQueue(run, options): Builds a job queue around a runner function.
+ */
+
+import { randomUUID } from 'crypto';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type JobPhase = 'queued' | 'parsing' | 'heuristics' | 'llm' | 'analyzers' | 'finished';
+
+export interface AnalysisJob<T> {
+  id: string;
+  key: string;
+  status: JobStatus;
+  phase: JobPhase;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  error: string | null;
+  result: T | null;
+}
+
+export interface JobContext {
+  signal: AbortSignal;
+  setPhase: (phase: JobPhase) => void;
+}
+
+export interface JobQueueOptions<I = unknown> {
+  maxConcurrent: number;
+  maxFinished: number;
+  canJoin?: (active: I, submitted: I) => boolean;
+}
+
+export interface JobQueue<I, T> {
+  submit: (key: string, input: I) => { job: AnalysisJob<T>; joined: boolean };
+  get: (id: string) => AnalysisJob<T> | undefined;
+  list: () => AnalysisJob<T>[];
+  cancel: (id: string) => boolean;
+  wait: (id: string) => Promise<AnalysisJob<T>>;
+}
+
+export const DEFAULT_JOB_QUEUE_OPTIONS: JobQueueOptions = {
+  maxConcurrent: 1,
+  maxFinished: 50,
+};
+
+/**
+ * 1. FOR:
+ * Running analyses as jobs that can be polled, joined and cancelled.
+ *
+ * 2. TAKES:
+ * - run: The runner; it gets the job's input and a `JobContext`, reports its
+ * phase through `setPhase` and should stop early once `signal` is aborted.
+ * - options: Optional `JobQueueOptions` (defaults in `DEFAULT_JOB_QUEUE_OPTIONS`);
+ * without `canJoin`, every submission with the same key joins.
+ *
+ * 3. DOES:
+ * - `submit` returns the queued or running job with the same key whose input
+ * `canJoin` accepts (`joined: true`), or queues a new one and starts it when
+ * fewer than `maxConcurrent` jobs are running.
+ * - When a runner settles, the job becomes `succeeded` (with its result),
+ * `failed` (with the error message) or, when it was aborted, `cancelled`, and
+ * the next queued job starts. Only the newest `maxFinished` finished jobs are kept.
+ * - `cancel` drops a queued job or aborts a running one; it returns `false`
+ * for unknown and already finished jobs.
+ * - `wait` resolves once the job has finished, whatever the outcome.
+ *
+ * 4. RETURNS:
+ * - The `JobQueue`. Every job it returns is a snapshot, so callers cannot change the stored job.
+ */
+export function createJobQueue<I, T>(
+  run: (input: I, context: JobContext) => Promise<T>,
+  options: Partial<JobQueueOptions<I>> = {}
+): JobQueue<I, T> {
+  const { maxConcurrent, maxFinished, canJoin } = { ...DEFAULT_JOB_QUEUE_OPTIONS, ...options };
+  const jobs = new Map<
+    string,
+    { job: AnalysisJob<T>; input: I; controller: AbortController; done: Promise<void>; settle: () => void }
+  >();
+  const pending: string[] = [];
+  let running = 0;
+
+  const snapshot = (job: AnalysisJob<T>): AnalysisJob<T> => ({ ...job });
+  const isActive = (job: AnalysisJob<T>) => job.status === 'queued' || job.status === 'running';
+
+  const finish = (id: string, status: JobStatus, result: T | null, error: string | null) => {
+    const entry = jobs.get(id)!;
+    Object.assign(entry.job, { status, phase: 'finished', finishedAt: new Date().toISOString(), result, error });
+    entry.settle();
+
+    const finished = [...jobs.values()].filter(({ job }) => !isActive(job));
+    finished.slice(0, Math.max(0, finished.length - maxFinished)).forEach(({ job }) => jobs.delete(job.id));
+  };
+
+  const startNext = () => {
+    while (running < maxConcurrent && pending.length > 0) {
+      const entry = jobs.get(pending.shift()!)!;
+      const { job, controller } = entry;
+      running++;
+      Object.assign(job, { status: 'running', startedAt: new Date().toISOString() });
+
+      const context: JobContext = {
+        signal: controller.signal,
+        setPhase: (phase) => {
+          if (job.status === 'running') {
+            job.phase = phase;
+          }
+        },
+      };
+      run(entry.input, context)
+        .then(
+          (result) =>
+            controller.signal.aborted
+              ? finish(job.id, 'cancelled', null, 'The job was cancelled.')
+              : finish(job.id, 'succeeded', result, null),
+          (error) =>
+            controller.signal.aborted
+              ? finish(job.id, 'cancelled', null, 'The job was cancelled.')
+              : finish(job.id, 'failed', null, error instanceof Error ? error.message : String(error))
+        )
+        .finally(() => {
+          running--;
+          startNext();
+        });
+    }
+  };
+
+  return {
+    submit: (key, input) => {
+      const active = [...jobs.values()].find(
+        (entry) => entry.job.key === key && isActive(entry.job) && (canJoin?.(entry.input, input) ?? true)
+      );
+      if (active) {
+        return { job: snapshot(active.job), joined: true };
+      }
+
+      const job: AnalysisJob<T> = {
+        id: randomUUID(),
+        key,
+        status: 'queued',
+        phase: 'queued',
+        createdAt: new Date().toISOString(),
+        startedAt: null,
+        finishedAt: null,
+        error: null,
+        result: null,
+      };
+      let settle = () => {};
+      const done = new Promise<void>((resolve) => {
+        settle = resolve;
+      });
+      jobs.set(job.id, { job, input, controller: new AbortController(), done, settle });
+      pending.push(job.id);
+      startNext();
+      return { job: snapshot(job), joined: false };
+    },
+
+    get: (id) => {
+      const entry = jobs.get(id);
+      return entry && snapshot(entry.job);
+    },
+
+    list: () => [...jobs.values()].map(({ job }) => snapshot(job)),
+
+    cancel: (id) => {
+      const entry = jobs.get(id);
+      if (!entry || !isActive(entry.job)) {
+        return false;
+      }
+      if (entry.job.status === 'queued') {
+        pending.splice(pending.indexOf(id), 1);
+        entry.controller.abort();
+        finish(id, 'cancelled', null, 'The job was cancelled.');
+      } else {
+        entry.controller.abort();
+      }
+      return true;
+    },
+
+    wait: async (id) => {
+      const entry = jobs.get(id);
+      if (!entry) {
+        throw new Error(`Unknown analysis job "${id}".`);
+      }
+      await entry.done;
+      return snapshot(entry.job);
+    },
+  };
+}
@@ -0,0 +1,275 @@
+/**
+ * @file analysisTargets.ts
+ *
+ * 1. FILE PURPOSE
+ * This file turns the body of an analysis request into the project the
+ * server should analyze. A request names either a directory on the server's
+ * filesystem, which must lie inside one of the allowed roots, or uploads a
+ * dependency map, which is analyzed without any source files. A project
+ * request may also choose which files are parsed (`include`, `exclude`,
+ * `extensions`, `tsconfig`), since not every project keeps its code under
+ * `src/`. Every target has a key (the real path, followed by a hash of the
+ * parse options when there are any, or a hash of the uploaded map) under
+ * which the server joins running jobs and caches reports.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - AnalysisTarget (Interface): The project of one request.
+ * - AnalysisRequest (Interface): The accepted request body.
+ * - TargetParseOptions (Type): The parser options a request may set.
+ * - AnalysisRequestError (Class): A rejected request, with its HTTP status.
+ *
+ * 3. FUNCTIONALITIES
+ * - resolveAnalysisTarget(body, defaultRoot, allowedRoots): The main public function.
+ * - createUploadedGraph(target): Builds the `ProjectGraph` of an uploaded map.
+ * - resolveProjectPath(projectPath, allowedRoots): A private helper that checks a path against the allowlist.
+ * - readUploadedMap(value): A private helper that validates an uploaded dependency map.
+ * - readParseOptions(body): A private helper that validates the requested parser options.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { hashCacheKey } from '../llm/resultCache';
+import { DependencyMap, ParseOptions, ProjectGraph } from './parser';
+
+export type TargetParseOptions = Partial<Pick<ParseOptions, 'include' | 'exclude' | 'extensions' | 'tsconfig'>>;
+
+export interface AnalysisTarget {
+  key: string;
+  source: 'project' | 'upload';
+  rootDir?: string;
+  parseOptions?: TargetParseOptions;
+  dependencyMap?: DependencyMap;
+}
+
+export interface AnalysisRequest {
+  projectPath?: unknown;
+  dependencyMap?: unknown;
+  include?: unknown;
+  exclude?: unknown;
+  extensions?: unknown;
+  tsconfig?: unknown;
+}
+
+export class AnalysisRequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'AnalysisRequestError';
+  }
+}
+
+/**
+ * 1. FOR:
+ * Checking a requested project directory.
+ *
+ * 2. TAKES:
+ * - projectPath: The requested path (relative paths are resolved against the server's working directory).
+ * - allowedRoots: The directories projects may be analyzed in.
+ *
+ * 3. DOES:
+ * - Resolves symbolic links on both sides, so a link cannot lead out of an allowed root.
+ * - Throws an `AnalysisRequestError` with 400 when the path is not a
+ * directory and 403 when it is not an allowed root or inside one.
+ *
+ * 4. RETURNS:
+ * - A `Promise` of the real path.
+ */
+async function resolveProjectPath(projectPath: string, allowedRoots: string[]): Promise<string> {
+  let rootDir: string;
+  try {
+    rootDir = await fs.realpath(path.resolve(projectPath));
+    if (!(await fs.stat(rootDir)).isDirectory()) {
+      throw new Error('not a directory');
+    }
+  } catch {
+    throw new AnalysisRequestError(`Project path "${projectPath}" is not a directory on the server.`, 400);
+  }
+
+  for (const root of allowedRoots) {
+    const allowed = await fs.realpath(root).catch(() => null);
+    const relative = allowed === null ? null : path.relative(allowed, rootDir);
+    if (relative !== null && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+      return rootDir;
+    }
+  }
+  throw new AnalysisRequestError(`Project path "${projectPath}" is outside the allowed roots.`, 403);
+}
+
+/**
+ * 1. FOR:
+ * Validating an uploaded dependency map.
+ *
+ * 2. TAKES:
+ * - value: The `dependencyMap` of the request body, in the shape of the
+ * `dependencyMap` of a report (module -> imported modules).
+ *
+ * 3. DOES:
+ * - Throws an `AnalysisRequestError` (400) unless it is a non-empty object of string arrays.
+ * - Sorts the modules and their imports, drops duplicate imports and adds
+ * imported modules that have no entry of their own, so equal graphs get equal keys.
+ *
+ * 4. RETURNS:
+ * - The `DependencyMap`.
+ */
+function readUploadedMap(value: unknown): DependencyMap {
+  const isMap =
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every(
+      (imports) => Array.isArray(imports) && imports.every((module) => typeof module === 'string')
+    );
+  if (!isMap || Object.keys(value as object).length === 0) {
+    throw new AnalysisRequestError(
+      'dependencyMap must be a non-empty object mapping each module to the modules it imports.',
+      400
+    );
+  }
+
+  const entries = Object.entries(value as Record<string, string[]>);
+  const modules = new Set([...entries.map(([module]) => module), ...entries.flatMap(([, imports]) => imports)]);
+  const imports = new Map(entries.map(([module, dependencies]) => [module, [...new Set(dependencies)].sort()]));
+  return new Map([...modules].sort().map((module) => [module, imports.get(module) ?? []]));
+}
+
+/**
+ * 1. FOR:
+ * Validating the parser options of a project request.
+ *
+ * 2. TAKES:
+ * - body: The request body.
+ *
+ * 3. DOES:
+ * - Reads `include`, `exclude` and `extensions` (non-empty arrays of
+ * non-empty strings) and `tsconfig` (a non-empty string), leaving out the
+ * ones that are not given; the server's own settings apply to those.
+ * - Throws an `AnalysisRequestError` (400) for a wrong type, and for a glob
+ * or tsconfig path that is absolute or contains `..` anywhere (also inside
+ * `{}` or extglob groups such as `{..,x}/**`), so a request cannot read files
+ * outside the allowed roots.
+ *
+ * 4. RETURNS:
+ * - The `TargetParseOptions` (empty when none were given).
+ */
+function readParseOptions(body: AnalysisRequest): TargetParseOptions {
+  const escapes = (value: string) => path.isAbsolute(value) || value.includes('..');
+  const readList = (field: 'include' | 'exclude' | 'extensions') => {
+    const value = body[field];
+    if (value === undefined) {
+      return undefined;
+    }
+    const isList =
+      Array.isArray(value) && value.length > 0 && value.every((entry) => typeof entry === 'string' && entry !== '');
+    if (!isList) {
+      throw new AnalysisRequestError(`${field} must be a non-empty array of non-empty strings.`, 400);
+    }
+    const outside = (value as string[]).find(escapes);
+    if (outside !== undefined) {
+      throw new AnalysisRequestError(`${field} entry "${outside}" points outside the project.`, 400);
+    }
+    return value as string[];
+  };
+
+  const options: TargetParseOptions = {
+    include: readList('include'),
+    exclude: readList('exclude'),
+    extensions: readList('extensions'),
+  };
+  if (body.tsconfig !== undefined) {
+    if (typeof body.tsconfig !== 'string' || body.tsconfig.trim() === '') {
+      throw new AnalysisRequestError('tsconfig must be a non-empty string.', 400);
+    }
+    if (escapes(body.tsconfig)) {
+      throw new AnalysisRequestError(`tsconfig "${body.tsconfig}" points outside the project.`, 400);
+    }
+    options.tsconfig = body.tsconfig;
+  }
+
+  return Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  ) as TargetParseOptions;
+}
+
+/**
+ * 1. FOR:
+ * Deciding what an analysis request asks for.
+ *
+ * 2. TAKES:
+ * - body: The request body (`projectPath` or `dependencyMap`, or neither,
+ * and for a project optionally `include`, `exclude`, `extensions`, `tsconfig`).
+ * - defaultRoot: The project the server was started for.
+ * - allowedRoots: The directories `projectPath` may point into.
+ *
+ * 3. DOES:
+ * - Without either field, targets the default project.
+ * - With `projectPath`, checks it against the allowed roots.
+ * - For a project, validates the parser options with `readParseOptions` and,
+ * when any are given, appends their hash to the key, so reports and jobs are
+ * kept per configuration.
+ * - With `dependencyMap`, validates the map and keys it by its hash.
+ * - Throws an `AnalysisRequestError` (400) when both fields are given, one has
+ * the wrong type, or parser options come with a `dependencyMap`.
+ *
+ * 4. RETURNS:
+ * - A `Promise<AnalysisTarget>`.
+ */
+export async function resolveAnalysisTarget(
+  body: AnalysisRequest | undefined,
+  defaultRoot: string,
+  allowedRoots: string[]
+): Promise<AnalysisTarget> {
+  const { projectPath, dependencyMap } = body ?? {};
+  if (projectPath !== undefined && dependencyMap !== undefined) {
+    throw new AnalysisRequestError('Send either projectPath or dependencyMap, not both.', 400);
+  }
+
+  const parseOptions = readParseOptions(body ?? {});
+  const hasParseOptions = Object.keys(parseOptions).length > 0;
+
+  if (dependencyMap !== undefined) {
+    if (hasParseOptions) {
+      throw new AnalysisRequestError('include, exclude, extensions and tsconfig only apply to projects.', 400);
+    }
+    const map = readUploadedMap(dependencyMap);
+    return { key: `upload:${hashCacheKey([...map])}`, source: 'upload', dependencyMap: map };
+  }
+
+  let rootDir: string;
+  if (projectPath === undefined) {
+    rootDir = await fs.realpath(defaultRoot).catch(() => path.resolve(defaultRoot));
+  } else if (typeof projectPath !== 'string' || projectPath.trim() === '') {
+    throw new AnalysisRequestError('projectPath must be a non-empty string.', 400);
+  } else {
+    rootDir = await resolveProjectPath(projectPath, allowedRoots);
+  }
+
+  return hasParseOptions
+    ? { key: `${rootDir}#${hashCacheKey(parseOptions).slice(0, 12)}`, source: 'project', rootDir, parseOptions }
+    : { key: rootDir, source: 'project', rootDir };
+}
+
+/**
+ * 1. FOR:
+ * Analyzing an uploaded map with the same analyzers as a parsed project.
+ *
+ * 2. TAKES:
+ * - target: An `upload` target.
+ *
+ * 3. DOES:
+ * - Wraps the map in a `ProjectGraph` without import positions, exports or
+ * third-party imports, since no source files were sent. Its `rootDir` is the
+ * target key; there is no directory to read `package.json` or rules from.
+ *
+ * 4. RETURNS:
+ * - The `ProjectGraph`.
+ */
+export function createUploadedGraph(target: AnalysisTarget): ProjectGraph {
+  const dependencyMap = target.dependencyMap ?? new Map();
+  return {
+    rootDir: target.key,
+    dependencyMap,
+    externalDependencies: new Map([...dependencyMap.keys()].map((module) => [module, []])),
+    edges: [],
+    exports: new Map(),
+    unresolved: [],
+  };
+}
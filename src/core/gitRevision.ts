@@ -0,0 +1,106 @@
+/**
+ * @file gitRevision.ts
+ *
+ * 1. FILE PURPOSE
+ * This module parses the project as it was at another git revision (a
+ * branch, tag or commit), without touching the working tree. The revision is
+ * checked out into a temporary, detached git worktree, parsed with the same
+ * options as the working tree, and the worktree is removed again. This lets
+ * the graph of `main` be compared with the graph of a feature branch.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - execFileAsync (Constant): `child_process.execFile` as a promise.
+ *
+ * 3. FUNCTIONALITIES
+ * - parseRevision(revision, options): Parses the project at a git revision.
+ * - git(cwd, args): A private helper that runs one git command.
+ */
+
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import { parseProject, ProjectGraph, ParseOptions, resolveParseOptions } from './parser';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * 1. FOR:
+ * Running a git command.
+ *
+ * 2. TAKES:
+ * - cwd: The directory to run git in.
+ * - args: The git arguments.
+ *
+ * 3. DOES:
+ * - Runs git without a shell and throws an `Error` with git's own message
+ * (e.g. "unknown revision") when it fails.
+ *
+ * 4. RETURNS:
+ * - A `Promise<string>` with the trimmed standard output.
+ */
+async function git(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 16 * 1024 * 1024 });
+    return stdout.trim();
+  } catch (err) {
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    throw new Error(`git ${args[0]} failed: ${stderr || (err as Error).message}`);
+  }
+}
+
+/**
+ * 1. FOR:
+ * Building the dependency graph of a git revision.
+ *
+ * 2. TAKES:
+ * - revision: Any revision git understands (`main`, `v1.2.0`, `HEAD~3`, a hash).
+ * - options: The `ParseOptions` of the working tree; `rootDir` must lie inside
+ * a git repository and may be a subdirectory of it.
+ *
+ * 3. DOES:
+ * - Resolves the revision to a commit (throws if git does not know it).
+ * - Adds a detached worktree of that commit in a temporary directory and
+ * parses the same subdirectory of it, with `checkoutOf` pointing at the
+ * working tree so the analyzer's own sources are still recognized.
+ * - Always removes the temporary directory, even when adding the worktree or
+ * parsing fails, and the worktree once it has been added.
+ *
+ * 4. RETURNS:
+ * - A `Promise<ProjectGraph>` whose paths are relative to the checkout, and
+ * therefore directly comparable with the working tree's graph.
+ */
+export async function parseRevision(
+  revision: string,
+  options: Partial<ParseOptions> = {}
+): Promise<ProjectGraph> {
+  const { rootDir } = resolveParseOptions(options);
+  const commit = await git(rootDir, ['rev-parse', '--verify', '--quiet', `${revision}^{commit}`]).catch(() => {
+    throw new Error(`Unknown git revision "${revision}".`);
+  });
+  const prefix = await git(rootDir, ['rev-parse', '--show-prefix']);
+
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dependency-revision-'));
+  const worktree = path.join(tempDir, 'checkout');
+  let added = false;
+
+  try {
+    console.log(`Checking out ${revision} (${commit.slice(0, 12)}) into ${worktree}...`);
+    await git(rootDir, ['worktree', 'add', '--detach', '--quiet', worktree, commit]);
+    added = true;
+
+    return await parseProject({
+      ...options,
+      rootDir: path.join(worktree, prefix),
+      checkoutOf: rootDir,
+    });
+  } finally {
+    if (added) {
+      await git(rootDir, ['worktree', 'remove', '--force', worktree]).catch((err) => {
+        console.error(`Could not remove worktree ${worktree}: ${err}`);
+      });
+    }
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
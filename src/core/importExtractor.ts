@@ -0,0 +1,344 @@
+/**
+ * @file importExtractor.ts
+ *
+ * 1. FILE PURPOSE
+ * This module extracts every module reference, and every export, from a
+ * single source file using the TypeScript compiler API. Because it walks the
+ * real syntax tree, text inside comments and string literals is never
+ * mistaken for an import, and all import forms (static, re-export, dynamic
+ * `import()`, `require()`) are recognized.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - ImportKind (Type): The syntactic form of a module reference.
+ * - ExtractedImport (Interface): One module reference found in a file, with
+ * its raw specifier, kind, the symbols it imports and 1-based source line/column.
+ * - ExportKind (Type): What an exported name refers to (value, function,
+ * class, abstract class, interface, type alias, enum, namespace or re-export).
+ * - ExtractedExport (Interface): One name exported by a file.
+ * - ModuleInfo (Interface): All imports and exports of one file.
+ * - NAMESPACE_SYMBOL (Constant): The symbol recorded when a whole module is
+ * imported (`* as ns`, `export *`, `import()`, `require()`).
+ *
+ * 3. FUNCTIONALITIES
+ * - extractModuleInfo(fileName, content): The main exported function. It parses
+ * the file content into an AST and collects all module references and exports.
+ * - getScriptKind(fileName): A private helper that picks the TypeScript
+ * script kind (TS, TSX, JS, JSX) from the file extension.
+ * - collectExports(sourceFile): A private helper that lists the exports of a file.
+ */
+
+import * as path from 'path';
+import * as ts from 'typescript';
+
+export type ImportKind =
+  | 'static'
+  | 'dynamic'
+  | 'require'
+  | 're-export'
+  | 'side-effect';
+
+export interface ExtractedImport {
+  specifier: string;
+  kind: ImportKind;
+  typeOnly: boolean;
+  symbols: string[];
+  line: number;
+  column: number;
+}
+
+export type ExportKind =
+  | 'value'
+  | 'function'
+  | 'class'
+  | 'abstract-class'
+  | 'interface'
+  | 'type'
+  | 'enum'
+  | 'namespace'
+  | 're-export';
+
+export interface ExtractedExport {
+  name: string;
+  kind: ExportKind;
+  line: number;
+  column: number;
+}
+
+export interface ModuleInfo {
+  imports: ExtractedImport[];
+  exports: ExtractedExport[];
+}
+
+export const NAMESPACE_SYMBOL = '*';
+
+/**
+ * 1. FOR:
+ * Telling the TypeScript parser which syntax to expect for a file.
+ *
+ * 2. TAKES:
+ * - fileName: The path of the file being parsed.
+ *
+ * 3. DOES:
+ * - Maps the file extension to a `ts.ScriptKind`, defaulting to TS.
+ *
+ * 4. RETURNS:
+ * - The matching `ts.ScriptKind`.
+ */
+function getScriptKind(fileName: string): ts.ScriptKind {
+  switch (path.extname(fileName).toLowerCase()) {
+    case '.tsx':
+      return ts.ScriptKind.TSX;
+    case '.js':
+    case '.mjs':
+    case '.cjs':
+      return ts.ScriptKind.JS;
+    case '.jsx':
+      return ts.ScriptKind.JSX;
+    default:
+      return ts.ScriptKind.TS;
+  }
+}
+
+/**
+ * 1. FOR:
+ * Listing the names a file exports, and what kind of declaration each one is.
+ *
+ * 2. TAKES:
+ * - sourceFile: The parsed `ts.SourceFile`.
+ *
+ * 3. DOES:
+ * - 1. Records the kind of every top-level declaration (and imported binding),
+ * so that `export { a }` and `export default a` can be classified.
+ * - 2. Collects exported declarations (`export const`, `export function`,
+ * `export abstract class`, `export interface`, ...), default exports,
+ * local export lists and named re-exports (`export { a } from './x'`).
+ * - `export * from './x'` adds no names here; its names belong to `./x`.
+ *
+ * 4. RETURNS:
+ * - An array of `ExtractedExport` objects in source order.
+ */
+function collectExports(sourceFile: ts.SourceFile): ExtractedExport[] {
+  const localKinds = new Map<string, ExportKind>();
+  const exports: ExtractedExport[] = [];
+
+  const position = (node: ts.Node) => {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+      node.getStart(sourceFile)
+    );
+    return { line: line + 1, column: character + 1 };
+  };
+
+  const hasModifier = (node: ts.Node, kind: ts.SyntaxKind) =>
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) ?? []).some((modifier) => modifier.kind === kind);
+
+  const bindingNames = (name: ts.BindingName): string[] =>
+    ts.isIdentifier(name)
+      ? [name.text]
+      : name.elements.flatMap((element) =>
+          ts.isOmittedExpression(element) ? [] : bindingNames(element.name)
+        );
+
+  const declarationKind = (statement: ts.Statement): ExportKind | null => {
+    if (ts.isVariableStatement(statement)) return 'value';
+    if (ts.isFunctionDeclaration(statement)) return 'function';
+    if (ts.isClassDeclaration(statement)) {
+      return hasModifier(statement, ts.SyntaxKind.AbstractKeyword) ? 'abstract-class' : 'class';
+    }
+    if (ts.isInterfaceDeclaration(statement)) return 'interface';
+    if (ts.isTypeAliasDeclaration(statement)) return 'type';
+    if (ts.isEnumDeclaration(statement)) return 'enum';
+    if (ts.isModuleDeclaration(statement)) return 'namespace';
+    return null;
+  };
+
+  const declarationNames = (statement: ts.Statement): string[] => {
+    if (ts.isVariableStatement(statement)) {
+      return statement.declarationList.declarations.flatMap((d) => bindingNames(d.name));
+    }
+    const name = (statement as ts.DeclarationStatement).name;
+    return name && (ts.isIdentifier(name) || ts.isStringLiteral(name)) ? [name.text] : [];
+  };
+
+  for (const statement of sourceFile.statements) {
+    const kind = declarationKind(statement);
+    if (kind) {
+      declarationNames(statement).forEach((name) => localKinds.set(name, kind));
+    } else if (ts.isImportDeclaration(statement) && statement.importClause) {
+      const { name, namedBindings } = statement.importClause;
+      if (name) localKinds.set(name.text, 're-export');
+      if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+        localKinds.set(namedBindings.name.text, 're-export');
+      } else if (namedBindings) {
+        namedBindings.elements.forEach((el) => localKinds.set(el.name.text, 're-export'));
+      }
+    }
+  }
+
+  for (const statement of sourceFile.statements) {
+    const kind = declarationKind(statement);
+
+    if (kind && hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+      const names = hasModifier(statement, ts.SyntaxKind.DefaultKeyword)
+        ? ['default']
+        : declarationNames(statement);
+      names.forEach((name) => exports.push({ name, kind, ...position(statement) }));
+    } else if (ts.isExportAssignment(statement)) {
+      const expression = statement.expression;
+      const kind = ts.isIdentifier(expression) ? localKinds.get(expression.text) : undefined;
+      exports.push({ name: 'default', kind: kind ?? 'value', ...position(statement) });
+    } else if (ts.isExportDeclaration(statement) && statement.exportClause) {
+      const clause = statement.exportClause;
+
+      if (ts.isNamespaceExport(clause)) {
+        exports.push({ name: clause.name.text, kind: 're-export', ...position(statement) });
+        continue;
+      }
+
+      for (const element of clause.elements) {
+        const localName = (element.propertyName ?? element.name).text;
+        const kind: ExportKind = statement.moduleSpecifier
+          ? 're-export'
+          : localKinds.get(localName) ?? (statement.isTypeOnly ? 'type' : 'value');
+        exports.push({ name: element.name.text, kind, ...position(element) });
+      }
+    }
+  }
+
+  return exports;
+}
+
+/**
+ * 1. FOR:
+ * Finding all module references and exports in one source file.
+ *
+ * 2. TAKES:
+ * - fileName: The path of the file (used for diagnostics and to pick the script kind).
+ * - content: The full text of the file.
+ *
+ * 3. DOES:
+ * - 1. Parses the content into a `ts.SourceFile` (no type checking is done).
+ * - 2. Walks every node of the tree and records:
+ *   - `import x from './a'` and `import './a'` (static / side-effect),
+ *   - `export { x } from './a'` and `export * from './a'` (re-export),
+ *   - `import x = require('./a')` and `require('./a')` (require),
+ *   - `import('./a')` (dynamic),
+ *   - `typeof import('./a')` in type positions (static, type-only).
+ * - 3. For each reference, records the exported names it uses: `default`,
+ * the original name of each named import, or `NAMESPACE_SYMBOL` when the
+ * whole module is pulled in. Side-effect imports use no symbols.
+ * - 4. Marks a reference type-only for `import type` / `export type`, and
+ * also when every named specifier is type-only (`import { type A } from './a'`).
+ * - 5. Records the 1-based line and column of the statement or call
+ * that contains each reference.
+ * - 6. Collects the file's own exports with `collectExports`.
+ *
+ * 4. RETURNS:
+ * - A `ModuleInfo` object with imports and exports in source order.
+ */
+export function extractModuleInfo(fileName: string, content: string): ModuleInfo {
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    getScriptKind(fileName)
+  );
+
+  const imports: ExtractedImport[] = [];
+
+  const record = (
+    node: ts.Node,
+    specifierNode: ts.Node | undefined,
+    kind: ImportKind,
+    symbols: string[],
+    typeOnly = false
+  ) => {
+    if (!specifierNode || !ts.isStringLiteralLike(specifierNode)) {
+      return;
+    }
+
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+      node.getStart(sourceFile)
+    );
+    imports.push({
+      specifier: specifierNode.text,
+      kind,
+      typeOnly,
+      symbols,
+      line: line + 1,
+      column: character + 1,
+    });
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node)) {
+      const clause = node.importClause;
+      const symbols: string[] = [];
+
+      if (clause?.name) {
+        symbols.push('default');
+      }
+      const namedBindings = clause?.namedBindings;
+      const allNamedTypeOnly =
+        !clause?.name &&
+        namedBindings !== undefined &&
+        ts.isNamedImports(namedBindings) &&
+        namedBindings.elements.length > 0 &&
+        namedBindings.elements.every((el) => el.isTypeOnly);
+      if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+        symbols.push(NAMESPACE_SYMBOL);
+      } else if (namedBindings) {
+        namedBindings.elements.forEach((el) =>
+          symbols.push((el.propertyName ?? el.name).text)
+        );
+      }
+
+      record(
+        node,
+        node.moduleSpecifier,
+        clause ? 'static' : 'side-effect',
+        symbols,
+        (clause?.isTypeOnly ?? false) || allNamedTypeOnly
+      );
+    } else if (ts.isExportDeclaration(node)) {
+      const clause = node.exportClause;
+      const symbols =
+        clause && ts.isNamedExports(clause)
+          ? clause.elements.map((el) => (el.propertyName ?? el.name).text)
+          : [NAMESPACE_SYMBOL];
+      const allNamedTypeOnly =
+        clause !== undefined &&
+        ts.isNamedExports(clause) &&
+        clause.elements.length > 0 &&
+        clause.elements.every((el) => el.isTypeOnly);
+      record(node, node.moduleSpecifier, 're-export', symbols, node.isTypeOnly || allNamedTypeOnly);
+    } else if (
+      ts.isImportEqualsDeclaration(node) &&
+      ts.isExternalModuleReference(node.moduleReference)
+    ) {
+      record(node, node.moduleReference.expression, 'require', [NAMESPACE_SYMBOL], node.isTypeOnly);
+    } else if (ts.isCallExpression(node)) {
+      if (node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+        record(node, node.arguments[0], 'dynamic', [NAMESPACE_SYMBOL]);
+      } else if (
+        ts.isIdentifier(node.expression) &&
+        node.expression.text === 'require' &&
+        node.arguments.length === 1
+      ) {
+        record(node, node.arguments[0], 'require', [NAMESPACE_SYMBOL]);
+      }
+    } else if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument)) {
+      let qualifier: ts.EntityName | undefined = node.qualifier;
+      while (qualifier && ts.isQualifiedName(qualifier)) {
+        qualifier = qualifier.left;
+      }
+      record(node, node.argument.literal, 'static', [qualifier?.text ?? NAMESPACE_SYMBOL], true);
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return { imports, exports: collectExports(sourceFile) };
+}
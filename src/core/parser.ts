@@ -2,118 +2,367 @@
  * @file parser.ts
  *
  * 1. FILE PURPOSE
- * This module is responsible for scanning the project's source code directory (`src/`)
+ * This module is responsible for scanning a project's source code directory
  * to identify all relevant source files. It reads each file and parses its
- * content to find all local ES module import statements. From this, it
- * constructs and returns a complete dependency graph.
+ * content (via the AST-based `importExtractor`) to find all local module
+ * references. From this, it constructs and returns a complete dependency graph.
  *
  * 2. VARIABLES / CONSTANTS
  * - DependencyMap (Type): The primary data structure this parser builds.
  * It is a Map where the key is a file path (string) and the value is
  * an array of its imported file paths (string[]).
- * - importRegex (Constant): A regular expression pattern used to find
- * and extract relative import paths (e.g., './utils') from file content.
+ * - ParseOptions (Interface): The options accepted by the parser (project
+ * root, include/exclude globs, file extensions, an optional tsconfig path and,
+ * for temporary checkouts, the directory the checkout mirrors).
+ * - DEFAULT_PARSE_OPTIONS (Constant): The values used for any option the
+ * caller leaves out. They reproduce the original `src/**` scan.
+ * - TOOL_ROOT / TOOL_SOURCE_ROOTS (Constants): The location of the
+ * analyzer's own source code, used to keep the tool from analyzing itself.
+ * - DependencyEdge (Interface): One import found in a file, with its resolved
+ * target, its kind (static, dynamic, require, re-export, side-effect) and
+ * the line/column of the import in the importing file. It also lists the
+ * `symbols` that cross the edge (named imports, `default`, or `*` when the
+ * whole module is used). Imports of npm
+ * packages and Node.js builtins are marked `external` and point at the
+ * package name instead of a file.
+ * - UnresolvedImport (Interface): A diagnostic for a relative or aliased
+ * import that does not point at an existing file.
+ * - ProjectGraph (Interface): The full parse result: the `DependencyMap`
+ * (local files only), the map of external packages used by each file,
+ * every individual `DependencyEdge`, the exports of every file and the
+ * unresolved-import diagnostics.
  *
  * 3. FUNCTIONALITIES
- * - parseDependencies(): The main asynchronous function exported by this
+ * - parseProject(options): The main asynchronous function exported by this
  * module. It orchestrates the file scanning, reading, and parsing
- * process to build the final dependency map.
+ * process to build the final `ProjectGraph`.
+ * - parseDependencies(options): A convenience wrapper around `parseProject`
+ * that returns only the `DependencyMap`.
+ * - resolveParseOptions(options): Fills in the defaults for a partial
+ * `ParseOptions` object.
+ * - parseListOption(value): Splits comma-separated CLI/environment values
+ * into a list.
+ * - isToolSource(file, checkout): A private helper that checks whether a file belongs
+ * to the analyzer itself.
+ * - isWithin(root, file): A private helper that checks whether a path lies
+ * inside a directory.
  */
 
-import * as fs from 'fs/promises'; 
-import * as path from 'path'; 
-import { glob } from 'glob'; 
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { glob } from 'glob';
+import { extractModuleInfo, ExtractedExport, ImportKind } from './importExtractor';
+import { getPackageName, loadResolverConfig, resolveImport } from './resolver';
 
 export type DependencyMap = Map<string, string[]>;
 
-const importRegex = /import(?:[\s\S]*?from\s*)?['"](\.\/.*?)['"]/g;
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  specifier: string;
+  kind: ImportKind;
+  typeOnly: boolean;
+  external: boolean;
+  symbols: string[];
+  line: number;
+  column: number;
+}
+
+export interface UnresolvedImport {
+  file: string;
+  specifier: string;
+  kind: ImportKind;
+  line: number;
+  column: number;
+  reason: string;
+}
+
+export interface ProjectGraph {
+  rootDir: string;
+  dependencyMap: DependencyMap;
+  externalDependencies: DependencyMap;
+  edges: DependencyEdge[];
+  exports: Map<string, ExtractedExport[]>;
+  unresolved: UnresolvedImport[];
+}
+
+export interface ParseOptions {
+  rootDir: string;
+  include: string[];
+  exclude: string[];
+  extensions: string[];
+  excludeToolSources: boolean;
+  tsconfig?: string;
+  checkoutOf?: string;
+}
+
+export const DEFAULT_PARSE_OPTIONS: Omit<ParseOptions, 'rootDir'> = {
+  include: ['src/**/*'],
+  exclude: ['**/*.d.ts', '**/node_modules/**'],
+  extensions: ['.ts', '.tsx', '.js', '.jsx'],
+  excludeToolSources: true,
+};
+
+const TOOL_ROOT = path.resolve(__dirname, '..');
+const TOOL_SOURCE_ROOTS = [TOOL_ROOT, path.resolve(TOOL_ROOT, '..', 'src')];
+
+/**
+ * 1. FOR:
+ * Turning a partial set of parser options (from the CLI, the server or a
+ * caller) into a complete `ParseOptions` object.
+ *
+ * 2. TAKES:
+ * - options: Any subset of `ParseOptions`. Empty arrays are treated as "not set".
+ *
+ * 3. DOES:
+ * - Resolves `rootDir` to an absolute path, defaulting to `process.cwd()`.
+ * - Falls back to `DEFAULT_PARSE_OPTIONS` for every missing value.
+ * - Normalizes extensions so both `ts` and `.ts` are accepted.
+ *
+ * 4. RETURNS:
+ * - A fully populated `ParseOptions` object.
+ */
+export function resolveParseOptions(options: Partial<ParseOptions> = {}): ParseOptions {
+  const pick = (value: string[] | undefined, fallback: string[]) =>
+    value && value.length > 0 ? value : fallback;
+
+  return {
+    rootDir: path.resolve(options.rootDir ?? process.cwd()),
+    include: pick(options.include, DEFAULT_PARSE_OPTIONS.include),
+    exclude: pick(options.exclude, DEFAULT_PARSE_OPTIONS.exclude),
+    extensions: pick(options.extensions, DEFAULT_PARSE_OPTIONS.extensions).map(
+      (ext) => (ext.startsWith('.') ? ext : `.${ext}`)
+    ),
+    excludeToolSources:
+      options.excludeToolSources ?? DEFAULT_PARSE_OPTIONS.excludeToolSources,
+    tsconfig: options.tsconfig,
+    checkoutOf: options.checkoutOf,
+  };
+}
+
+/**
+ * 1. FOR:
+ * Reading list-valued options (globs, extensions) that arrive as
+ * comma-separated strings from CLI flags or environment variables.
+ *
+ * 2. TAKES:
+ * - value: A string, an array of strings (repeated CLI flags) or `undefined`.
+ *
+ * 3. DOES:
+ * - Splits every entry on commas, trims whitespace and drops empty items.
+ *
+ * 4. RETURNS:
+ * - A `string[]` (empty if nothing was provided).
+ */
+export function parseListOption(value: string | string[] | undefined): string[] {
+  const values = Array.isArray(value) ? value : value ? [value] : [];
+  return values
+    .flatMap((entry) => entry.split(','))
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+/**
+ * 1. FOR:
+ * Deciding whether a file is part of the analyzer's own source code.
+ *
+ * 2. TAKES:
+ * - file: An absolute file path.
+ * - checkout: Optional `rootDir` / `checkoutOf` pair when the project is a
+ * temporary checkout (e.g. a git worktree of another revision).
+ *
+ * 3. DOES:
+ * - Maps a file of a checkout back to the directory the checkout mirrors.
+ * - Checks whether the file lies anywhere under the analyzer's source root,
+ * found from where this module is running (`src/` under ts-node, or `dist/`
+ * and its sibling `src/` when compiled). No directory names are listed, so
+ * new source directories of the analyzer are excluded as well.
+ *
+ * 4. RETURNS:
+ * - `true` if the file belongs to the analyzer, otherwise `false`.
+ */
+function isToolSource(file: string, checkout?: { rootDir: string; checkoutOf: string }): boolean {
+  const original = checkout ? path.join(checkout.checkoutOf, path.relative(checkout.rootDir, file)) : file;
+  return TOOL_SOURCE_ROOTS.some((root) => isWithin(root, original));
+}
 
 /**
  * 1. FOR:
- * To asynchronously scan the entire `src/` directory, parse all valid
- * source files, and build a complete map of their internal dependencies.
+ * Checking that a path lies inside a directory.
  *
  * 2. TAKES:
- * - (None)
+ * - root: An absolute directory path.
+ * - file: An absolute path.
  *
  * 3. DOES:
- * - 1. Initializes an empty `DependencyMap`.
- * - 2. Uses `glob` to find all `.ts`, `.tsx`, `.js`, and `.jsx` files,
- * while ignoring TypeScript declaration files (`.d.ts`).
- * - 3. Defines and filters out a list of `toolFiles` (the analyzer's
- * own source code) to prevent self-analysis.
- * - 4. Iterates over each remaining `analysisFile`.
- * - 5. For each file, it reads the content and uses `importRegex`
- * to find all relative import paths.
- * - 6. It resolves each import path into a normalized, project-relative
- * path, correctly handling cases where file extensions (like `.ts`)
- * are omitted in the import statement.
- * - 7. It stores the file's path and its array of resolved dependencies
- * in the `dependencyMap`.
+ * - Compares the two with `path.relative`, so `root` itself and its siblings do not count.
  *
  * 4. RETURNS:
- * - A `Promise<DependencyMap>` that resolves to the fully constructed
+ * - `true` if `file` is below `root`, otherwise `false`.
+ */
+function isWithin(root: string, file: string): boolean {
+  const relative = path.relative(root, file);
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * 1. FOR:
+ * To asynchronously scan a project, parse all valid source files,
+ * and build a complete graph of their internal dependencies.
+ *
+ * 2. TAKES:
+ * - options: Optional `ParseOptions` (project root, include globs, exclude
+ * globs, extensions, tsconfig). Defaults scan `src/` under `process.cwd()`.
+ *
+ * 3. DOES:
+ * - 1. Initializes an empty `DependencyMap` and edge list, and loads the
+ * module resolution settings (`loadResolverConfig`) from the project's tsconfig.
+ * - 2. Uses `glob` to find all files matching the `include` patterns under
+ * `rootDir`, skipping the `exclude` patterns, and keeps only the
+ * configured `extensions`. Files whose real path (after symlinks) is not
+ * under the real `rootDir` are dropped, so a pattern or link that reaches
+ * out of the project cannot pull other files in.
+ * - 3. Filters out the analyzer's own source code by location
+ * (see `isToolSource`, which follows `checkoutOf` for checkouts), unless
+ * `excludeToolSources` is disabled.
+ * - 4. Warns when no file is left (e.g. the root is the analyzer itself),
+ * naming the root and globs, then iterates over each remaining `analysisFile`.
+ * - 5. For each file, it reads the content and uses `extractModuleInfo`
+ * to find every module reference (static, dynamic, require, re-export and
+ * side-effect imports) together with its imported symbols and source
+ * position, and records the file's own exports.
+ * - 6. It resolves each reference with `resolveImport` (tsconfig `paths` and
+ * `baseUrl`, extension fallbacks, index files) into a root-relative path.
+ * References that cannot be resolved are collected as `unresolved`
+ * diagnostics instead of being added to the graph; non-source assets are skipped.
+ * - 7. It records one `DependencyEdge` per reference, and stores the file's
+ * path and its de-duplicated dependencies in the `dependencyMap`. Bare
+ * (package) imports become `external` edges and are collected per file in
+ * `externalDependencies`.
+ *
+ * 4. RETURNS:
+ * - A `Promise<ProjectGraph>` that resolves to the fully constructed
  * dependency graph.
  */
-export async function parseDependencies(): Promise<DependencyMap> {
-  
-  console.log('Starting dependency analysis...');
+export async function parseProject(options: Partial<ParseOptions> = {}): Promise<ProjectGraph> {
+
+  const { rootDir, include, exclude, extensions, excludeToolSources, tsconfig, checkoutOf } =
+    resolveParseOptions(options);
+  const checkout = checkoutOf ? { rootDir, checkoutOf: path.resolve(checkoutOf) } : undefined;
+
+  console.log(`Starting dependency analysis in ${rootDir}...`);
 
   const dependencyMap: DependencyMap = new Map();
+  const externalDependencies: DependencyMap = new Map();
+  const edges: DependencyEdge[] = [];
+  const exports = new Map<string, ExtractedExport[]>();
+  const unresolved: UnresolvedImport[] = [];
+  const resolverConfig = loadResolverConfig(rootDir, extensions, tsconfig);
 
-  const files = await glob('src/**/*.{ts,tsx,js,jsx}', {
-    ignore: ['src/**/*.d.ts'],
+  const files = await glob(include, {
+    cwd: rootDir,
+    ignore: exclude,
+    nodir: true,
+    absolute: true,
   });
 
-  const toolFiles = [
-    'src/index.ts',
-    'src/core/parser.ts',
-    'src/analyzers/llmAnalyzer.ts',
-    'src/analyzers/heuristicAnalyzer.ts',
-  ].map((f) => path.resolve(f)); 
+  const realRoot = await fs.realpath(rootDir);
+  const insideRoot = await Promise.all(
+    files.map(async (f) => isWithin(realRoot, await fs.realpath(f).catch(() => '')))
+  );
 
   const analysisFiles = files
-    .map((f) => path.resolve(f))
-    .filter((f) => !toolFiles.includes(f));
+    .filter((_, index) => insideRoot[index])
+    .filter((f) => extensions.includes(path.extname(f)))
+    .filter((f) => !excludeToolSources || !isToolSource(f, checkout))
+    .sort();
 
   console.log(`Found ${analysisFiles.length} files to analyze...`);
+  if (analysisFiles.length === 0) {
+    console.warn(
+      `No source files matched ${include.join(', ')} under ${rootDir}. ` +
+        'Point the project root at a project to analyze (--root or ANALYSIS_ROOT, e.g. --root sample) or adjust the include globs.'
+    );
+  }
 
   for (const file of analysisFiles) {
-    const relativeFilePath = path.relative(process.cwd(), file);
+    const relativeFilePath = path.relative(rootDir, file).replace(/\\/g, '/');
     try {
       const content = await fs.readFile(file, 'utf-8');
-      const dependencies: string[] = [];
-
-      let match;
-
-      while ((match = importRegex.exec(content)) !== null) {
-        const importPath = match[1];
-        const fileExtension = path.extname(importPath); 
-        let dependencyName: string;
-
-        if (fileExtension) {
-          if (['.ts', '.tsx', '.js', '.jsx'].includes(fileExtension)) {
-            dependencyName = path.normalize(
-              path.join(path.dirname(relativeFilePath), importPath)
-            );
-          } else {
-            continue;
-          }
-        } else {
-          dependencyName = path.normalize(
-            path.join(path.dirname(relativeFilePath), importPath + '.ts')
-          );
+      const dependencies = new Set<string>();
+      const packages = new Set<string>();
+      const moduleInfo = extractModuleInfo(file, content);
+
+      exports.set(relativeFilePath, moduleInfo.exports);
+
+      for (const extracted of moduleInfo.imports) {
+        const resolution = resolveImport(extracted.specifier, file, resolverConfig);
+
+        if (resolution.type === 'unresolved') {
+          unresolved.push({
+            file: relativeFilePath,
+            specifier: extracted.specifier,
+            kind: extracted.kind,
+            line: extracted.line,
+            column: extracted.column,
+            reason: resolution.reason,
+          });
+          continue;
+        }
+
+        if (resolution.type === 'asset') {
+          continue;
         }
 
-        dependencies.push(dependencyName);
+        const external = resolution.type === 'bare';
+        const dependencyName = external
+          ? getPackageName(resolution.specifier)
+          : path.relative(rootDir, resolution.file).replace(/\\/g, '/');
+
+        (external ? packages : dependencies).add(dependencyName);
+        edges.push({
+          from: relativeFilePath,
+          to: dependencyName,
+          specifier: extracted.specifier,
+          kind: extracted.kind,
+          typeOnly: extracted.typeOnly,
+          external,
+          symbols: extracted.symbols,
+          line: extracted.line,
+          column: extracted.column,
+        });
       }
 
-      dependencyMap.set(relativeFilePath.replace(/\\/g, '/'), dependencies);
+      dependencyMap.set(relativeFilePath, [...dependencies]);
+      externalDependencies.set(relativeFilePath, [...packages]);
     } catch (err) {
       console.error(`Could not read file ${relativeFilePath}: ${err}`);
     }
   }
 
+  if (unresolved.length > 0) {
+    console.warn(`${unresolved.length} import(s) could not be resolved.`);
+  }
+
   console.log('Dependency map created successfully.');
+  return { rootDir, dependencyMap, externalDependencies, edges, exports, unresolved };
+}
+
+/**
+ * 1. FOR:
+ * Building only the file-to-file `DependencyMap`, for callers that do not
+ * need the per-import details.
+ *
+ * 2. TAKES:
+ * - options: Optional `ParseOptions`, passed through to `parseProject`.
+ *
+ * 3. DOES:
+ * - Runs `parseProject` and keeps its `dependencyMap`.
+ *
+ * 4. RETURNS:
+ * - A `Promise<DependencyMap>` that resolves to the dependency graph.
+ */
+export async function parseDependencies(options: Partial<ParseOptions> = {}): Promise<DependencyMap> {
+  const { dependencyMap } = await parseProject(options);
   return dependencyMap;
 }
@@ -0,0 +1,472 @@
+/**
+ * @file resolver.ts
+ *
+ * 1. FILE PURPOSE
+ * This module turns the raw module specifiers found by the import extractor
+ * (e.g. './utils', '../core/parser.js', '@app/core') into real files on disk.
+ * It follows the same rules as the TypeScript compiler: it reads the
+ * project's `tsconfig.json` (`baseUrl`, `paths`, `moduleResolution`), tries
+ * the configured extensions in order and falls back to directory index files.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - ModuleResolutionMode (Type): The resolution strategy read from tsconfig.
+ * - ResolverConfig (Interface): Everything the resolver needs to know about a
+ * project (root, base URL, path aliases, strategy, extensions).
+ * - ResolveResult (Type): The outcome of resolving one specifier: a local
+ * file, a bare (package) specifier, an asset to ignore, or an unresolved import.
+ * - JS_TO_TS_EXTENSIONS (Constant): Which TypeScript extensions may stand
+ * behind a `.js`-style specifier (as in `import './a.js'` for `a.ts`).
+ *
+ * 3. FUNCTIONALITIES
+ * - loadResolverConfig(rootDir, extensions, tsconfigPath): Reads tsconfig
+ * (following `extends`) and builds a `ResolverConfig`.
+ * - resolveImport(specifier, fromFile, config): Resolves one specifier.
+ * - getPackageName(specifier): Extracts the npm package name (or the
+ * `node:`-prefixed builtin name) from a bare specifier.
+ * - isBuiltinModule(name): Checks whether a package name is a Node.js builtin.
+ * - resolveAsFile / resolveAsPath / matchPathAlias / isFile / isInsideRoot: Private helpers.
+ */
+
+import * as fs from 'fs';
+import { builtinModules } from 'module';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+export type ModuleResolutionMode =
+  | 'classic'
+  | 'node10'
+  | 'node16'
+  | 'nodenext'
+  | 'bundler';
+
+export interface ResolverConfig {
+  rootDir: string;
+  tsconfigPath: string | null;
+  baseUrl: string | null;
+  paths: Record<string, string[]>;
+  pathsBasePath: string;
+  moduleResolution: ModuleResolutionMode;
+  extensions: string[];
+}
+
+export type ResolveResult =
+  | { type: 'local'; file: string }
+  | { type: 'bare'; specifier: string }
+  | { type: 'asset'; file: string }
+  | { type: 'unresolved'; reason: string };
+
+const JS_TO_TS_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+const fileExistsCache = new Map<string, boolean>();
+
+/**
+ * 1. FOR:
+ * Keeping the Classic-mode directory walk inside the project.
+ *
+ * 2. TAKES:
+ * - directory: An absolute directory.
+ * - rootDir: The absolute project root.
+ *
+ * 3. DOES:
+ * - Compares the paths segment by segment, so a sibling such as `/repo-other`
+ * does not count as inside `/repo`.
+ *
+ * 4. RETURNS:
+ * - `true` if the directory is the root or below it.
+ */
+function isInsideRoot(directory: string, rootDir: string): boolean {
+  const relative = path.relative(rootDir, directory);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * 1. FOR:
+ * Checking (with caching) whether a path is an existing regular file.
+ *
+ * 2. TAKES:
+ * - file: An absolute path.
+ *
+ * 3. DOES:
+ * - Calls `fs.statSync` once per path and remembers the answer.
+ *
+ * 4. RETURNS:
+ * - `true` if the path is a file, otherwise `false`.
+ */
+function isFile(file: string): boolean {
+  const cached = fileExistsCache.get(file);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let exists = false;
+  try {
+    exists = fs.statSync(file).isFile();
+  } catch {
+    exists = false;
+  }
+  fileExistsCache.set(file, exists);
+  return exists;
+}
+
+/**
+ * 1. FOR:
+ * Reading the module resolution settings of a project.
+ *
+ * 2. TAKES:
+ * - rootDir: The absolute project root.
+ * - extensions: The source extensions to try, in order of preference.
+ * - tsconfigPath: An optional explicit tsconfig path. When omitted,
+ * `<rootDir>/tsconfig.json` is used if it exists.
+ *
+ * 3. DOES:
+ * - 1. Clears the file-existence cache so a new run sees the current disk.
+ * - 2. Loads the tsconfig with the TypeScript API, which also applies `extends`.
+ * - 3. Extracts `baseUrl`, `paths` and `moduleResolution`. When
+ * `moduleResolution` is not set, derives it from `module` the same way `tsc`
+ * does, and `module` itself from `target` when that is not set either
+ * (`commonjs` below ES2015, so `node10`; `es2015` from ES2015 on, so `classic`).
+ * - 4. Logs (but does not throw on) tsconfig syntax errors, falling back to defaults.
+ *
+ * 4. RETURNS:
+ * - A `ResolverConfig` for `resolveImport`.
+ */
+export function loadResolverConfig(
+  rootDir: string,
+  extensions: string[],
+  tsconfigPath?: string
+): ResolverConfig {
+  fileExistsCache.clear();
+
+  const configFile = tsconfigPath
+    ? path.resolve(rootDir, tsconfigPath)
+    : path.join(rootDir, 'tsconfig.json');
+
+  const config: ResolverConfig = {
+    rootDir,
+    tsconfigPath: null,
+    baseUrl: null,
+    paths: {},
+    pathsBasePath: rootDir,
+    moduleResolution: 'node10',
+    extensions,
+  };
+
+  if (!isFile(configFile)) {
+    if (tsconfigPath) {
+      console.warn(`tsconfig not found at ${configFile}, using default resolution.`);
+    }
+    return config;
+  }
+
+  const { config: raw, error } = ts.readConfigFile(configFile, ts.sys.readFile);
+  if (error) {
+    console.warn(
+      `Could not read ${configFile}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`
+    );
+    return config;
+  }
+
+  const parsed = ts.parseJsonConfigFileContent(raw, ts.sys, path.dirname(configFile));
+  const options = parsed.options;
+
+  config.tsconfigPath = configFile;
+  config.baseUrl = options.baseUrl ?? null;
+  config.paths = options.paths ?? {};
+  config.pathsBasePath =
+    options.baseUrl ?? (options.pathsBasePath as string | undefined) ?? path.dirname(configFile);
+
+  switch (options.moduleResolution) {
+    case ts.ModuleResolutionKind.Classic:
+      config.moduleResolution = 'classic';
+      break;
+    case ts.ModuleResolutionKind.Node16:
+      config.moduleResolution = 'node16';
+      break;
+    case ts.ModuleResolutionKind.NodeNext:
+      config.moduleResolution = 'nodenext';
+      break;
+    case ts.ModuleResolutionKind.Bundler:
+      config.moduleResolution = 'bundler';
+      break;
+    case ts.ModuleResolutionKind.Node10:
+      config.moduleResolution = 'node10';
+      break;
+    default: {
+      const moduleKind =
+        options.module ??
+        ((options.target ?? ts.ScriptTarget.ES5) >= ts.ScriptTarget.ES2015 ? ts.ModuleKind.ES2015 : ts.ModuleKind.CommonJS);
+      if (moduleKind === ts.ModuleKind.CommonJS) {
+        config.moduleResolution = 'node10';
+      } else if (moduleKind >= ts.ModuleKind.Node16 && moduleKind < ts.ModuleKind.NodeNext) {
+        // node16 and the later nodeXX module kinds all resolve like node16.
+        config.moduleResolution = 'node16';
+      } else if (moduleKind === ts.ModuleKind.NodeNext) {
+        config.moduleResolution = 'nodenext';
+      } else if (moduleKind === ts.ModuleKind.Preserve) {
+        config.moduleResolution = 'bundler';
+      } else {
+        config.moduleResolution = 'classic';
+      }
+    }
+  }
+
+  return config;
+}
+
+/**
+ * 1. FOR:
+ * Resolving a path that may or may not carry an extension to a source file.
+ *
+ * 2. TAKES:
+ * - candidate: An absolute path built from a specifier.
+ * - config: The project's `ResolverConfig`.
+ *
+ * 3. DOES:
+ * - 1. If the path has a configured source extension and exists, uses it.
+ * - 2. If it is a `.js`-style path, tries the matching TypeScript extensions.
+ * - 3. Tries appending each configured extension in order.
+ * - 4. Unless the strategy is `classic`, tries `<candidate>/index<ext>`.
+ * - 5. If the path exists with a non-source extension (JSON, CSS, ...), reports it as an asset.
+ *
+ * 4. RETURNS:
+ * - A `local` or `asset` result, or `null` if nothing matched.
+ */
+function resolveAsPath(candidate: string, config: ResolverConfig): ResolveResult | null {
+  const file = resolveAsFile(candidate, config);
+  if (file) {
+    return { type: 'local', file };
+  }
+
+  if (config.moduleResolution !== 'classic') {
+    for (const ext of config.extensions) {
+      const index = path.join(candidate, `index${ext}`);
+      if (isFile(index)) {
+        return { type: 'local', file: index };
+      }
+    }
+  }
+
+  if (path.extname(candidate) && isFile(candidate)) {
+    return { type: 'asset', file: candidate };
+  }
+
+  return null;
+}
+
+/**
+ * 1. FOR:
+ * The file part of `resolveAsPath` (exact match, `.js` → `.ts` swap and
+ * extension fallbacks), without directory index lookups.
+ *
+ * 2. TAKES:
+ * - candidate: An absolute path built from a specifier.
+ * - config: The project's `ResolverConfig`.
+ *
+ * 3. DOES:
+ * - Tries the candidates in the order described in `resolveAsPath`.
+ *
+ * 4. RETURNS:
+ * - The absolute path of the first existing source file, or `null`.
+ */
+function resolveAsFile(candidate: string, config: ResolverConfig): string | null {
+  const ext = path.extname(candidate);
+
+  if (ext && config.extensions.includes(ext) && isFile(candidate)) {
+    return candidate;
+  }
+
+  const tsExtensions = JS_TO_TS_EXTENSIONS[ext];
+  if (tsExtensions) {
+    const stem = candidate.slice(0, -ext.length);
+    for (const tsExt of tsExtensions) {
+      if (config.extensions.includes(tsExt) && isFile(stem + tsExt)) {
+        return stem + tsExt;
+      }
+    }
+  }
+
+  for (const extension of config.extensions) {
+    if (isFile(candidate + extension)) {
+      return candidate + extension;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 1. FOR:
+ * Finding the tsconfig `paths` entry that applies to a specifier.
+ *
+ * 2. TAKES:
+ * - specifier: A non-relative module specifier (e.g. '@app/core').
+ * - paths: The `paths` map from tsconfig.
+ *
+ * 3. DOES:
+ * - Matches exact keys and single-`*` wildcard keys. When several patterns
+ * match, picks the one with the longest prefix, as `tsc` does.
+ * - Substitutes the wildcard match into each target.
+ *
+ * 4. RETURNS:
+ * - The list of substituted targets, or `null` if no pattern matches.
+ */
+function matchPathAlias(specifier: string, paths: Record<string, string[]>): string[] | null {
+  let bestPrefixLength = -1;
+  let bestTargets: string[] | null = null;
+
+  for (const [pattern, targets] of Object.entries(paths)) {
+    const starIndex = pattern.indexOf('*');
+
+    if (starIndex === -1) {
+      if (pattern === specifier) {
+        return targets;
+      }
+      continue;
+    }
+
+    const prefix = pattern.slice(0, starIndex);
+    const suffix = pattern.slice(starIndex + 1);
+    if (
+      specifier.length >= prefix.length + suffix.length &&
+      specifier.startsWith(prefix) &&
+      specifier.endsWith(suffix) &&
+      prefix.length > bestPrefixLength
+    ) {
+      const matched = specifier.slice(prefix.length, specifier.length - suffix.length);
+      bestPrefixLength = prefix.length;
+      bestTargets = targets.map((target) => target.replace('*', matched));
+    }
+  }
+
+  return bestTargets;
+}
+
+/**
+ * 1. FOR:
+ * Resolving one module specifier found in a source file.
+ *
+ * 2. TAKES:
+ * - specifier: The raw specifier (e.g. './utils', '../a.js', '@app/core', 'lodash').
+ * - fromFile: The absolute path of the importing file.
+ * - config: The project's `ResolverConfig`.
+ *
+ * 3. DOES:
+ * - Relative specifiers (`./`, `../`) and absolute paths are resolved against the
+ * importing file's directory.
+ * - Non-relative specifiers are tried against tsconfig `paths`, then against
+ * `baseUrl` (or, for `classic`, each ancestor directory of the importer).
+ * - Anything still unmatched is treated as a bare (package) specifier.
+ *
+ * 4. RETURNS:
+ * - A `ResolveResult`. Relative and `paths` imports that cannot be found are
+ * reported as `unresolved` with a reason instead of becoming phantom files.
+ */
+export function resolveImport(
+  specifier: string,
+  fromFile: string,
+  config: ResolverConfig
+): ResolveResult {
+  if (
+    specifier.startsWith('./') ||
+    specifier.startsWith('../') ||
+    specifier === '.' ||
+    specifier === '..' ||
+    path.isAbsolute(specifier)
+  ) {
+    const candidate = path.resolve(path.dirname(fromFile), specifier);
+    return (
+      resolveAsPath(candidate, config) ?? {
+        type: 'unresolved',
+        reason: `No file found for "${specifier}" (tried ${config.extensions.join(', ')}${
+          config.moduleResolution === 'classic' ? '' : ' and index files'
+        }).`,
+      }
+    );
+  }
+
+  const aliasTargets = matchPathAlias(specifier, config.paths);
+  if (aliasTargets) {
+    for (const target of aliasTargets) {
+      const result = resolveAsPath(path.resolve(config.pathsBasePath, target), config);
+      if (result) {
+        return result;
+      }
+    }
+    return {
+      type: 'unresolved',
+      reason: `tsconfig path alias matched "${specifier}" but none of its targets exist (${aliasTargets.join(', ')}).`,
+    };
+  }
+
+  if (config.baseUrl) {
+    const result = resolveAsPath(path.resolve(config.baseUrl, specifier), config);
+    if (result) {
+      return result;
+    }
+  }
+
+  if (config.moduleResolution === 'classic') {
+    let directory = path.dirname(fromFile);
+    while (isInsideRoot(directory, config.rootDir)) {
+      const file = resolveAsFile(path.join(directory, specifier), config);
+      if (file) {
+        return { type: 'local', file };
+      }
+      const parent = path.dirname(directory);
+      if (parent === directory) {
+        break;
+      }
+      directory = parent;
+    }
+  }
+
+  return { type: 'bare', specifier };
+}
+
+/**
+ * 1. FOR:
+ * Naming the package a bare specifier belongs to.
+ *
+ * 2. TAKES:
+ * - specifier: A bare specifier (e.g. 'lodash/fp', '@google/generative-ai', 'fs/promises').
+ *
+ * 3. DOES:
+ * - Keeps the scope and name of scoped packages and the first segment of
+ * unscoped ones.
+ * - Normalizes Node.js builtins to their `node:` form (e.g. 'node:fs').
+ *
+ * 4. RETURNS:
+ * - The package name.
+ */
+export function getPackageName(specifier: string): string {
+  if (specifier.startsWith('node:')) {
+    return `node:${specifier.slice('node:'.length).split('/')[0]}`;
+  }
+
+  const segments = specifier.split('/');
+  const name = specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+
+  return builtinModules.includes(name) ? `node:${name}` : name;
+}
+
+/**
+ * 1. FOR:
+ * Separating Node.js builtins from installable packages.
+ *
+ * 2. TAKES:
+ * - name: A package name as returned by `getPackageName`.
+ *
+ * 3. DOES:
+ * - Checks for the `node:` prefix that `getPackageName` adds to builtins.
+ *
+ * 4. RETURNS:
+ * - `true` for builtins, otherwise `false`.
+ */
+export function isBuiltinModule(name: string): boolean {
+  return name.startsWith('node:');
+}
@@ -6,6 +6,11 @@
  * purpose is to expose the dependency analysis results via HTTP endpoints.
  * It manages the analysis lifecycle, including parsing, running both
  * heuristic and LLM analyses, and caching the results for performance.
+ * Analyses run as jobs (`analysisJobs.ts`): clients can start one, poll its
+ * progress, list and cancel jobs, and requests for the same project join the
+ * job that is already running. Besides the project the server was started
+ * for, requests can name another project directory inside the allowed roots
+ * or upload a dependency map (`analysisTargets.ts`); reports are cached per project.
  *
  * 2. VARIABLES / CONSTANTS
  * - FullAnalysisReport (Interface): A type definition for the combined
@@ -13,20 +18,59 @@
  * - app (Constant): The main Express application instance.
  * - PORT (Constant): The port on which the server will listen (from
  *   environment variables or defaulting to 3000).
- * - cachedAnalysis (Variable): An in-memory cache holding the most recent
- *   `FullAnalysisReport` to avoid re-computation on every request.
- * - isAnalysisRunning (Variable): A boolean flag used as a mutex to
- *   prevent multiple concurrent analysis runs.
+ * - MAX_CACHED_REPORTS (Constant): How many project reports are kept in memory.
+ * - parseOptions (Constant): The project root, include/exclude globs and
+ *   extensions to analyze, read from the `ANALYSIS_ROOT`, `ANALYSIS_INCLUDE`,
+ *   `ANALYSIS_EXCLUDE`, `ANALYSIS_EXTENSIONS` and `ANALYSIS_TSCONFIG`
+ *   environment variables. The globs, extensions and tsconfig apply to every project.
+ * - projectRoot (Constant): The default project, analyzed when a request names none.
+ * - allowedRoots (Constant): The directories requested projects must lie in, from
+ *   `ANALYSIS_ALLOWED_ROOTS` (comma-separated, default: the default project only).
+ * - heuristicOptions (Constant): The cycle enumeration settings and the layer
+ *   graph depth, read from `ANALYSIS_MAX_CYCLES`, `ANALYSIS_ENUMERATE_CYCLES`
+ *   and `ANALYSIS_LAYER_DEPTH` (positive integers, checked by `readPositiveInteger`).
+ * - rulesPath (Constant): The architecture rules file, from `ANALYSIS_RULES`
+ *   (default `dependency-rules.json` in the project root).
+ * - pluginSpecifiers (Constant): The custom analyzer plugin modules, from
+ *   `ANALYSIS_PLUGINS` (comma-separated).
+ * - cachedAnalyses (Variable): An in-memory cache holding the most recent
+ *   `FullAnalysisReport` of each project (by target key) to avoid re-computation
+ *   on every request. It sits on top of the persistent LLM result cache
+ *   (`llm/resultCache.ts`), so a restart or a refresh of an unchanged project
+ *   does not call the LLM again.
+ * - analysisJobs (Constant): The job queue running `runFullAnalysis`, one job at a time.
+ *   Jobs are keyed by their target, so concurrent requests for one project join one job.
  *
  * 3. FUNCTIONALITIES
  * - getErrorMessage(error): A utility function to safely extract a
  *   string message from an unknown error type.
- * - runFullAnalysis(): The core asynchronous function that orchestrates
- *   the entire analysis pipeline (parse -> analyze -> cache).
+ * - readPositiveInteger(name): Reads a numeric setting and fails startup when it is invalid.
+ * - sendError(res, error, message): Sends a failed request with the matching status.
+ * - jobView(job, withResult): Shapes a job for the job routes.
+ * - awaitAnalysis(target, useLlmCache): Starts or joins the project's analysis job and waits for its report.
+ * - sendReport(res, select, send): Sends the cached report (or a part of it),
+ *   running the analysis on demand when nothing is cached yet.
+ * - runFullAnalysis(input, context): The core asynchronous function that orchestrates
+ *   the entire analysis pipeline (parse -> analyze -> cache), run as a job.
  * - GET /api/analysis (Route): An endpoint that returns the cached analysis
  *   or triggers a new one if the cache is empty.
+ * - POST /api/analysis (Route): Returns the report of a requested project
+ *   directory or uploaded dependency map, analyzing it when it is not cached.
+ * - GET /api/metrics (Route): An endpoint that returns the per-module and
+ *   per-directory coupling metrics from the same report.
+ * - GET /api/graph (Route): An endpoint that exports the dependency graph as
+ *   DOT, Mermaid, GraphML or JSON (`?format=`, `?level=module|layer`).
+ * - GET /api/query/:kind (Route): Answers a graph query (`dependencies`,
+ *   `dependents`, `path` or `neighbors`) on the same report's dependency map.
+ * - GET /report (Route): Serves the self-contained interactive HTML report.
  * - POST /api/analysis/refresh (Route): An endpoint that forces a
- *   new analysis run, discarding the old cache.
+ *   new analysis run, discarding the old cache (`"noCache": true` in the body
+ *   also skips the persistent LLM cache).
+ * - POST /api/analyses (Route): Starts an analysis job for any project (or joins
+ *   the running one) and returns it at once.
+ * - GET /api/analyses (Route): Lists the known jobs.
+ * - GET /api/analyses/:id (Route): Returns one job's status, phase and result.
+ * - DELETE /api/analyses/:id (Route): Cancels a queued or running job.
  * - app.listen(): The command that starts the server and performs
  *   an initial analysis to populate the cache.
  */
@@ -35,15 +79,37 @@ import * as dotenv from 'dotenv';
 dotenv.config();
 
 import express, { Request, Response } from 'express';
-import { parseDependencies, DependencyMap } from './parser';
+import * as path from 'path';
 import {
-  analyzeDependencies as analyzeWithLlm,
-  AnalysisResult as LlmAnalysisResult,
-} from '../analyzers/llmAnalyzer';
+  parseProject,
+  parseListOption,
+  ParseOptions,
+  UnresolvedImport,
+} from './parser';
+import { AnalysisResult as LlmAnalysisResult } from '../analyzers/llmAnalyzer';
+import { HeuristicAnalysisResult, HeuristicOptions } from '../analyzers/heuristicAnalyzer';
+import { FindingReconciliation } from '../analyzers/findingReconciliation';
+import { PackageAuditResult } from '../analyzers/packageAudit';
+import { AnalyzerStatus, loadAnalyzerPlugins, runAnalyzers } from '../analyzers/analyzerPipeline';
+import { BUILTIN_ANALYZERS } from '../analyzers/builtinAnalyzers';
+import { queryGraph, GraphQueryKind, GRAPH_QUERY_KINDS } from '../analyzers/graphQueries';
+import { findModule } from '../analyzers/moduleExplanation';
+import { loadArchitectureRules } from '../analyzers/architectureRules';
 import {
-  analyzeHeuristically,
-  HeuristicAnalysisResult,
-} from '../analyzers/heuristicAnalyzer';
+  buildExportGraph,
+  exportGraph,
+  isGraphFormat,
+  CONTENT_TYPES,
+  GRAPH_FORMATS,
+} from '../exporters/graphExport';
+import { renderHtmlReport } from '../exporters/htmlReport';
+import { AnalysisJob, createJobQueue, JobContext } from './analysisJobs';
+import {
+  AnalysisRequestError,
+  AnalysisTarget,
+  createUploadedGraph,
+  resolveAnalysisTarget,
+} from './analysisTargets';
 
 /**
  * 1. FOR:
@@ -71,90 +137,305 @@ function getErrorMessage(error: unknown): string {
 }
 
 interface FullAnalysisReport {
+  project: string;
   timestamp: string;
-  llmAnalysis: LlmAnalysisResult;
+  dependencyMap: Record<string, string[]>;
+  llmAnalysis: LlmAnalysisResult | null;
+  reconciliation: FindingReconciliation | null;
   heuristicAnalysis: HeuristicAnalysisResult;
+  packageAudit: PackageAuditResult | null;
+  pluginResults: Record<string, unknown>;
+  analyzers: AnalyzerStatus[];
+  unresolvedImports: UnresolvedImport[];
 }
 
 const app = express();
+app.use(express.json({ limit: '10mb' }));
 const PORT = process.env.PORT || 3000;
 
-let cachedAnalysis: FullAnalysisReport | null = null;
-let isAnalysisRunning = false;
+const MAX_CACHED_REPORTS = 20;
+
+const parseOptions: Partial<ParseOptions> = {
+  rootDir: process.env.ANALYSIS_ROOT,
+  include: parseListOption(process.env.ANALYSIS_INCLUDE),
+  exclude: parseListOption(process.env.ANALYSIS_EXCLUDE),
+  extensions: parseListOption(process.env.ANALYSIS_EXTENSIONS),
+  tsconfig: process.env.ANALYSIS_TSCONFIG,
+};
+
+const projectRoot = path.resolve(parseOptions.rootDir ?? process.cwd());
+
+const allowedRoots = parseListOption(process.env.ANALYSIS_ALLOWED_ROOTS).map((root) => path.resolve(root));
+if (allowedRoots.length === 0) {
+  allowedRoots.push(projectRoot);
+}
 
 /**
  * 1. FOR:
- * Running the complete analysis pipeline. This includes parsing all
- * source files, running the LLM analysis, and running the heuristic
- * analysis, then caching the combined result.
+ * Reading a numeric server setting from the environment.
  *
  * 2. TAKES:
- * - (None)
+ * - name: The environment variable.
  *
  * 3. DOES:
- * - 1. Checks `isAnalysisRunning` flag. If true, it waits for the current analysis to finish before resolving.
- * - 2. Sets `isAnalysisRunning` to `true` to block other calls.
- * - 3. Calls `parseDependencies()` to get the dependency graph.
- * - 4. Concurrently runs `analyzeWithLlm()` and `analyzeHeuristically()`.
- * - 5. Combines both results into a `FullAnalysisReport` object, adding a new timestamp.
- * - 6. Stores this report in the `cachedAnalysis` variable.
- * - 7. In a `finally` block, sets `isAnalysisRunning` back to `false`.
+ * - Throws an `Error` naming the variable when it is set but not a positive
+ *   integer, so a typo stops the server at startup instead of silently
+ *   disabling the setting.
  *
  * 4. RETURNS:
- * - A `Promise<FullAnalysisReport>` containing the complete, combined report.
+ * - The number, or `undefined` when the variable is unset or empty.
  */
-async function runFullAnalysis(): Promise<FullAnalysisReport> {
-  if (isAnalysisRunning) {
-    return new Promise((resolve) => {
-      const check = setInterval(() => {
-        if (!isAnalysisRunning && cachedAnalysis) {
-          clearInterval(check);
-          resolve(cachedAnalysis);
-        }
-      }, 100);
-    });
+function readPositiveInteger(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return undefined;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer, got "${raw}".`);
   }
+  return value;
+}
+
+const heuristicOptions: HeuristicOptions = {
+  enumerateCycles: process.env.ANALYSIS_ENUMERATE_CYCLES !== 'false',
+  maxCyclesPerComponent: readPositiveInteger('ANALYSIS_MAX_CYCLES'),
+  layerDepth: readPositiveInteger('ANALYSIS_LAYER_DEPTH'),
+};
+
+const rulesPath = process.env.ANALYSIS_RULES;
+
+const pluginSpecifiers = parseListOption(process.env.ANALYSIS_PLUGINS);
 
-  isAnalysisRunning = true;
-  console.log('API starting background analysis...');
+const cachedAnalyses = new Map<string, FullAnalysisReport>();
+
+/**
+ * 1. FOR:
+ * Running the complete analysis pipeline as a job. This includes parsing all
+ * source files, running every registered analyzer (heuristic, package
+ * audit, LLM, reconciliation and plugins), then caching the combined result.
+ *
+ * 2. TAKES:
+ * - input: The `AnalysisTarget` and `useLlmCache`, whether the LLM may answer from the persistent cache.
+ * - context: The `JobContext`, to report the phase and notice a cancellation.
+ *
+ * 3. DOES:
+ * - 1. Sets the `parsing` phase and calls `parseProject()` with the configured `parseOptions`, overridden by
+ *   the request's own (`target.parseOptions`), for the target's directory to get the dependency graph and the unresolved-import diagnostics. An uploaded map is wrapped
+ *   with `createUploadedGraph()` instead.
+ * - 2. Loads the architecture rules and the analyzer plugins, then runs `runAnalyzers()` with the job's signal.
+ *   An uploaded map has no rules file and no `package.json`, so it gets no rules and skips the package audit.
+ *   Each analyzer has its own timeout and error capture; only a failed heuristic analysis fails the run, so an
+ *   LLM failure leaves a partial report with `llmAnalysis: null`. The phase follows the running analyzers
+ *   (`heuristics`, `llm`, then `analyzers` for the rest).
+ * - 3. Throws when the job was cancelled, so a cancelled run never replaces the cached report.
+ * - 4. Combines the results, the analyzer statuses and the unresolved imports into a `FullAnalysisReport` object,
+ *   adding a new timestamp.
+ * - 5. Stores this report in `cachedAnalyses` under the target key, dropping the oldest report beyond
+ *   `MAX_CACHED_REPORTS`.
+ *
+ * 4. RETURNS:
+ * - A `Promise<FullAnalysisReport>` containing the combined report (partial when an analyzer other than the
+ *   heuristic one did not succeed).
+ */
+async function runFullAnalysis(
+  { target, useLlmCache }: { target: AnalysisTarget; useLlmCache: boolean },
+  { signal, setPhase }: JobContext
+): Promise<FullAnalysisReport> {
+  console.log(`API starting background analysis of ${target.key}...`);
+  const uploaded = target.source === 'upload';
 
   try {
-    const dependencyMap: DependencyMap = await parseDependencies();
+    setPhase('parsing');
+    const graph = uploaded
+      ? createUploadedGraph(target)
+      : await parseProject({ ...parseOptions, ...target.parseOptions, rootDir: target.rootDir });
+    const { dependencyMap, unresolved } = graph;
 
     if (dependencyMap.size === 0) {
       throw new Error('Parser found no files or dependencies.');
     }
 
-    const [llmResult, heuristicResult] = await Promise.all([
-      analyzeWithLlm(dependencyMap),
-      analyzeHeuristically(dependencyMap),
-    ]);
+    const rules = uploaded ? [] : await loadArchitectureRules(graph.rootDir, rulesPath);
+    await loadAnalyzerPlugins(pluginSpecifiers);
+    const running = new Set<string>();
+    const { results, statuses } = await runAnalyzers(
+      {
+        graph,
+        rules,
+        heuristicOptions,
+        llmOptions: { useCache: useLlmCache },
+      },
+      {
+        skip: uploaded ? ['packageAudit'] : [],
+        signal,
+        onProgress: (name, state) => {
+          if (state === 'running') {
+            running.add(name);
+          } else {
+            running.delete(name);
+          }
+          setPhase(running.has('llm') ? 'llm' : running.has('heuristic') ? 'heuristics' : 'analyzers');
+        },
+      }
+    );
 
-    if (!llmResult) {
-      throw new Error('LLM analysis failed.');
+    if (signal.aborted) {
+      throw new Error('Analysis cancelled.');
     }
 
+    const heuristicResult = results.heuristic as HeuristicAnalysisResult | undefined;
+    if (!heuristicResult) {
+      throw new Error(`Heuristic analysis failed: ${statuses.find((status) => status.name === 'heuristic')?.error}`);
+    }
+
+    const builtin = new Set(BUILTIN_ANALYZERS.map((analyzer) => analyzer.name));
     const report: FullAnalysisReport = {
+      project: target.key,
       timestamp: new Date().toISOString(),
-      llmAnalysis: llmResult,
+      dependencyMap: Object.fromEntries(dependencyMap),
+      llmAnalysis: (results.llm as LlmAnalysisResult | undefined) ?? null,
+      reconciliation: (results.reconciliation as FindingReconciliation | undefined) ?? null,
       heuristicAnalysis: heuristicResult,
+      packageAudit: (results.packageAudit as PackageAuditResult | undefined) ?? null,
+      pluginResults: Object.fromEntries(Object.entries(results).filter(([name]) => !builtin.has(name))),
+      analyzers: statuses,
+      unresolvedImports: unresolved,
     };
 
-    cachedAnalysis = report;
-    console.log('API analysis complete and cached.');
+    cachedAnalyses.delete(target.key);
+    cachedAnalyses.set(target.key, report);
+    [...cachedAnalyses.keys()]
+      .slice(0, Math.max(0, cachedAnalyses.size - MAX_CACHED_REPORTS))
+      .forEach((key) => cachedAnalyses.delete(key));
+    const failed = statuses.filter((status) => status.status !== 'succeeded').map((status) => status.name);
+    console.log(
+      failed.length > 0
+        ? `API analysis complete with failed analyzer(s): ${failed.join(', ')}; partial report cached.`
+        : 'API analysis complete and cached.'
+    );
     return report;
   } catch (error) {
     console.error('API Analysis Error:', error);
     throw new Error(getErrorMessage(error));
-  } finally {
-    isAnalysisRunning = false;
   }
 }
 
+const analysisJobs = createJobQueue(runFullAnalysis, {
+  canJoin: (active, submitted) => !active.useLlmCache || submitted.useLlmCache,
+});
+
+/**
+ * 1. FOR:
+ * Answering a failed request with the right status code.
+ *
+ * 2. TAKES:
+ * - `res`: The Express Response object.
+ * - `error`: The error; an `AnalysisRequestError` carries its own status (400 or 403).
+ * - `message`: The message for server-side failures (500).
+ *
+ * 3. DOES:
+ * - Sends the JSON error envelope.
+ *
+ * 4. RETURNS:
+ * - (void) - It sends a JSON response to the client.
+ */
+function sendError(res: Response, error: unknown, message: string): void {
+  if (error instanceof AnalysisRequestError) {
+    res.status(error.status).json({ status: 'error', message: error.message });
+    return;
+  }
+  res.status(500).json({ status: 'error', message, error: getErrorMessage(error) });
+}
+
+/**
+ * 1. FOR:
+ * Shaping a job for the job routes.
+ *
+ * 2. TAKES:
+ * - job: The `AnalysisJob`.
+ * - withResult: Whether to include the report (listings leave it out).
+ *
+ * 3. DOES:
+ * - Copies the job, dropping `result` unless asked for.
+ *
+ * 4. RETURNS:
+ * - The JSON-ready job.
+ */
+function jobView(job: AnalysisJob<FullAnalysisReport>, withResult: boolean) {
+  const { result, ...view } = job;
+  return withResult ? { ...view, result } : view;
+}
+
+/**
+ * 1. FOR:
+ * Getting a fresh report from the job queue, for the routes that wait for it.
+ *
+ * 2. TAKES:
+ * - target: The project to analyze.
+ * - useLlmCache: Whether the LLM may answer from the persistent cache.
+ *
+ * 3. DOES:
+ * - Submits an analysis job for the target, or joins the one already queued or running (a request
+ *   that skips the LLM cache only joins a job that skips it too).
+ * - Waits for it to finish and throws an `Error` with the job's error when it failed or was cancelled.
+ *
+ * 4. RETURNS:
+ * - A `Promise<FullAnalysisReport>` with the job's report.
+ */
+async function awaitAnalysis(target: AnalysisTarget, useLlmCache: boolean): Promise<FullAnalysisReport> {
+  const { job } = analysisJobs.submit(target.key, { target, useLlmCache });
+  const finished = await analysisJobs.wait(job.id);
+  if (finished.status !== 'succeeded' || !finished.result) {
+    throw new Error(finished.error ?? `Analysis job ${finished.status}.`);
+  }
+  return finished.result;
+}
+
 // ----------------------------------------------------
 //                    API ROUTES
 // ----------------------------------------------------
 
+/**
+ * 1. FOR:
+ * Sending the cached report of the default project (or one part of it) to a client, running the analysis on
+ * demand if needed. Shared by every read-only route.
+ *
+ * 2. TAKES:
+ * - `res`: The Express Response object.
+ * - `select`: A function picking the part of the `FullAnalysisReport` to return.
+ * - `send`: Optional function writing the selected data; defaults to a JSON
+ *   envelope with a "success" status.
+ *
+ * 3. DOES:
+ * - 1. Checks if `cachedAnalyses` has a report for the default project. If yes, sends the selected data.
+ * - 2. If no cache, starts an analysis job (or joins the running one) through `awaitAnalysis()` and sends the
+ *   selected data once it finishes.
+ * - 3. Returns a 500 error when the job failed or was cancelled.
+ *
+ * 4. RETURNS:
+ * - (void) - It sends a JSON response to the client.
+ */
+function sendReport<T>(
+  res: Response,
+  select: (report: FullAnalysisReport) => T,
+  send: (data: T) => void = (data) => {
+    res.json({
+      status: 'success',
+      data,
+    });
+  }
+): void {
+  resolveAnalysisTarget(undefined, projectRoot, allowedRoots)
+    .then((target) => cachedAnalyses.get(target.key) ?? awaitAnalysis(target, true))
+    .then((report) => send(select(report)))
+    .catch((error) => res.status(500).json({
+      status: 'error',
+      message: 'Analysis failed to run on demand.',
+      error: error.message,
+    }));
+}
+
 /**
  * 1. FOR:
  * Defining the main API endpoint (`GET /api/analysis`) to retrieve the dependency analysis report.
@@ -164,74 +445,360 @@ async function runFullAnalysis(): Promise<FullAnalysisReport> {
  * - `res`: The Express Response object.
  *
  * 3. DOES:
- * - 1. Checks if `cachedAnalysis` has a value. If yes, returns it with a "success" status.
- * - 2. If no cache, checks `isAnalysisRunning`. If true, returns a "pending" status (503) asking the client to try again.
- * - 3. If no cache and not running, it triggers `runFullAnalysis()` on demand and returns the new report.
+ * - Sends the whole `FullAnalysisReport` through `sendReport`.
  *
  * 4. RETURNS:
  * - (void) - It sends a JSON response to the client.
  */
 app.get('/api/analysis', (req: Request, res: Response) => {
-  if (cachedAnalysis) {
-    return res.json({
-      status: 'success',
-      data: cachedAnalysis,
+  sendReport(res, (report) => report);
+});
+
+/**
+ * 1. FOR:
+ * Defining the metrics endpoint (`GET /api/metrics`) to retrieve the coupling metrics
+ * (Ca, Ce, instability, abstractness, distance) per module and per directory.
+ *
+ * 2. TAKES:
+ * - `req`: The Express Request object.
+ * - `res`: The Express Response object.
+ *
+ * 3. DOES:
+ * - Sends `heuristicAnalysis.couplingMetrics` through `sendReport`.
+ *
+ * 4. RETURNS:
+ * - (void) - It sends a JSON response to the client.
+ */
+app.get('/api/metrics', (req: Request, res: Response) => {
+  sendReport(res, (report) => report.heuristicAnalysis.couplingMetrics);
+});
+
+/**
+ * 1. FOR:
+ * Defining the graph export endpoint (`GET /api/graph`), so diagrams can be embedded in
+ * design docs or loaded into yEd / Gephi.
+ *
+ * 2. TAKES:
+ * - `req`: The Express Request object. Reads `format` (`dot`, `mermaid`, `graphml`
+ *   or `json`, default `json`) and `level` (`module` or `layer`, default `module`).
+ * - `res`: The Express Response object.
+ *
+ * 3. DOES:
+ * - Returns a 400 error for an unknown format or level.
+ * - Builds the export graph from the cached report through `sendReport` and sends
+ *   the serialized graph as-is, with the format's content type.
+ *
+ * 4. RETURNS:
+ * - (void) - It sends the graph to the client.
+ */
+app.get('/api/graph', (req: Request, res: Response) => {
+  const format = req.query.format ?? 'json';
+  const level = req.query.level ?? 'module';
+
+  if (!isGraphFormat(format) || (level !== 'module' && level !== 'layer')) {
+    res.status(400).json({
+      status: 'error',
+      message: `Expected format to be one of ${GRAPH_FORMATS.join(', ')} and level to be "module" or "layer".`,
     });
+    return;
   }
 
-  if (!isAnalysisRunning) {
-    runFullAnalysis()
-      .then((report) => res.json({
-        status: 'success',
-        data: report,
-      }))
-      .catch((error) => res.status(500).json({
-        status: 'error',
-        message: 'Analysis failed to run on demand.',
-        error: error.message,
-      }));
-  } else {
-    res.status(503).json({
-      status: 'pending',
+  sendReport(
+    res,
+    (report) =>
+      exportGraph(
+        buildExportGraph(
+          new Map(Object.entries(report.dependencyMap)),
+          report.heuristicAnalysis,
+          level
+        ),
+        format
+      ),
+    (content) => {
+      res.type(CONTENT_TYPES[format]).send(content);
+    }
+  );
+});
+
+/**
+ * 1. FOR:
+ * Defining the graph query endpoint (`GET /api/query/:kind`), for targeted questions instead of the whole report.
+ *
+ * 2. TAKES:
+ * - `req`: The Express Request object. `kind` is `dependencies`, `dependents`, `path` or `neighbors`; the query
+ *   string holds `module` (a path or unique suffix), `to` (the target of `path`), and `depth` (hops, default 1)
+ *   or `transitive=true` (no hop limit).
+ * - `res`: The Express Response object.
+ *
+ * 3. DOES:
+ * - Returns a 400 error for an unknown kind, a missing module or target, a bad depth, or an ambiguous module.
+ * - Resolves the modules on the default project's report through `sendReport` (404 when a module is unknown)
+ *   and sends the `queryGraph` answer.
+ *
+ * 4. RETURNS:
+ * - (void) - It sends a JSON response to the client.
+ */
+app.get('/api/query/:kind', (req: Request, res: Response) => {
+  const kind = String(req.params.kind) as GraphQueryKind;
+  const module = typeof req.query.module === 'string' ? req.query.module : '';
+  const to = typeof req.query.to === 'string' ? req.query.to : '';
+  const depth = req.query.transitive === 'true' ? null : Number(req.query.depth ?? 1);
+
+  if (
+    !GRAPH_QUERY_KINDS.includes(kind) ||
+    module === '' ||
+    (kind === 'path' && to === '') ||
+    (depth !== null && (!Number.isInteger(depth) || depth < 1))
+  ) {
+    res.status(400).json({
+      status: 'error',
       message:
-        'Analysis is currently running in the background. Please try again shortly.',
+        `Expected the query to be one of ${GRAPH_QUERY_KINDS.join(', ')}, with a module (and a "to" module for path) ` +
+        'and a positive integer depth.',
     });
+    return;
   }
+
+  sendReport(
+    res,
+    (report) => {
+      const dependencyMap = new Map(Object.entries(report.dependencyMap));
+      const resolved: string[] = [];
+      for (const name of kind === 'path' ? [module, to] : [module]) {
+        const matches = findModule({ dependencyMap }, name);
+        if (matches.length !== 1) {
+          return {
+            code: matches.length === 0 ? 404 : 400,
+            body: {
+              status: 'error',
+              message:
+                matches.length === 0
+                  ? `No module matches "${name}".`
+                  : `"${name}" is ambiguous: ${matches.join(', ')}.`,
+            },
+          };
+        }
+        resolved.push(matches[0]);
+      }
+      const [from, target] = resolved;
+      return {
+        code: 200,
+        body: { status: 'success', data: queryGraph(dependencyMap, { kind, module: from, target, depth }) },
+      };
+    },
+    ({ code, body }) => {
+      res.status(code).json(body);
+    }
+  );
 });
 
 /**
  * 1. FOR:
- * Defining the refresh endpoint (`POST /api/analysis/refresh`) to force a new analysis run.
+ * Serving the interactive HTML report (`GET /report`) for browsers.
  *
  * 2. TAKES:
  * - `req`: The Express Request object.
  * - `res`: The Express Response object.
  *
  * 3. DOES:
- * - Immediately calls `runFullAnalysis()`, which will ignore any existing cache and generate a new report.
- * - Returns the newly generated report upon success.
+ * - Renders the cached report with `renderHtmlReport` through `sendReport` and sends it as HTML.
+ *
+ * 4. RETURNS:
+ * - (void) - It sends an HTML page to the client.
+ */
+app.get('/report', (req: Request, res: Response) => {
+  sendReport(
+    res,
+    (report) =>
+      renderHtmlReport({
+        generatedAt: report.timestamp,
+        dependencyMap: report.dependencyMap,
+        heuristicAnalysis: report.heuristicAnalysis,
+        llmAnalysis: report.llmAnalysis,
+      }),
+    (html) => {
+      res.type('html').send(html);
+    }
+  );
+});
+
+/**
+ * 1. FOR:
+ * Defining the project analysis endpoint (`POST /api/analysis`), so one server can analyze any project.
+ *
+ * 2. TAKES:
+ * - `req`: The Express Request object. Reads the JSON body: `projectPath` (a directory inside the allowed
+ *   roots) or `dependencyMap` (module -> imported modules, as in a report), plus the optional `noCache`
+ *   (skip both the cached report and the persistent LLM cache) and `refresh` (ignore the cached report) flags. A project may set its
+ *   own `include`, `exclude`, `extensions` and `tsconfig`. Without a project, the default project is analyzed.
+ * - `res`: The Express Response object.
+ *
+ * 3. DOES:
+ * - Resolves the target with `resolveAnalysisTarget()`; a bad body is a 400 error and a path outside the
+ *   allowed roots a 403 error.
+ * - Sends the project's cached report (unless `refresh` or `noCache` is set), or runs (or joins) its
+ *   analysis job through `awaitAnalysis()` and sends the new report. An uploaded map runs through the same analyzers, apart from the package audit.
  * - Returns a 500 error if the analysis fails.
  *
  * 4. RETURNS:
  * - (void) - It sends a JSON response to the client.
  */
+app.post('/api/analysis', async (req: Request, res: Response) => {
+  try {
+    const target = await resolveAnalysisTarget(req.body, projectRoot, allowedRoots);
+    const cached =
+      req.body?.refresh === true || req.body?.noCache === true ? undefined : cachedAnalyses.get(target.key);
+    res.json({
+      status: 'success',
+      data: cached ?? (await awaitAnalysis(target, req.body?.noCache !== true)),
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to analyze the project.');
+  }
+});
+
+/**
+ * 1. FOR:
+ * Defining the refresh endpoint (`POST /api/analysis/refresh`) to force a new analysis run.
+ *
+ * 2. TAKES:
+ * - `req`: The Express Request object. Accepts the same optional `projectPath` / `dependencyMap` body as
+ *   `POST /api/analysis`.
+ * - `res`: The Express Response object.
+ *
+ * 3. DOES:
+ * - Immediately starts an analysis job through `awaitAnalysis()`, which will ignore any existing cache and
+ *   generate a new report; a job that is already running is joined instead. The LLM result still comes from
+ *   the persistent cache when the graph is unchanged, unless the body has `"noCache": true`.
+ * - Returns the newly generated report upon success.
+ * - Returns a 400 or 403 error for a rejected project and a 500 error if the analysis fails.
+ *
+ * 4. RETURNS:
+ * - (void) - It sends a JSON response to the client.
+ */
 app.post('/api/analysis/refresh', async (req: Request, res: Response) => {
   try {
-    const newReport = await runFullAnalysis();
+    const target = await resolveAnalysisTarget(req.body, projectRoot, allowedRoots);
+    const newReport = await awaitAnalysis(target, req.body?.noCache !== true);
     res.json({
       status: 'success',
       message: 'Analysis successfully refreshed.',
       data: newReport,
     });
   } catch (error) {
-    res.status(500).json({
-      status: 'error',
-      message: 'Failed to refresh analysis.',
-      error: getErrorMessage(error),
+    sendError(res, error, 'Failed to refresh analysis.');
+  }
+});
+
+/**
+ * 1. FOR:
+ * Defining the job creation endpoint (`POST /api/analyses`), which starts an analysis without waiting for it.
+ *
+ * 2. TAKES:
+ * - `req`: The Express Request object. Reads the same JSON body as `POST /api/analysis` (`projectPath` or
+ *   `dependencyMap`, and `noCache` to skip the persistent LLM cache).
+ * - `res`: The Express Response object.
+ *
+ * 3. DOES:
+ * - Submits an analysis job for the project. When a job for it is already queued or running, that job is
+ *   returned instead (`joined: true`), unless the request sets `noCache` and the job uses the LLM cache.
+ * - Replies 202 with the job and a `Location` header pointing at `GET /api/analyses/:id`, or with a 400 or
+ *   403 error for a rejected project.
+ *
+ * 4. RETURNS:
+ * - (void) - It sends a JSON response to the client.
+ */
+app.post('/api/analyses', async (req: Request, res: Response) => {
+  try {
+    const target = await resolveAnalysisTarget(req.body, projectRoot, allowedRoots);
+    const { job, joined } = analysisJobs.submit(target.key, { target, useLlmCache: req.body?.noCache !== true });
+    res.status(202).location(`/api/analyses/${job.id}`).json({
+      status: 'success',
+      data: { ...jobView(job, false), joined },
     });
+  } catch (error) {
+    sendError(res, error, 'Failed to start the analysis job.');
   }
 });
 
+/**
+ * 1. FOR:
+ * Defining the job listing endpoint (`GET /api/analyses`).
+ *
+ * 2. TAKES:
+ * - `req`: The Express Request object.
+ * - `res`: The Express Response object.
+ *
+ * 3. DOES:
+ * - Lists the queued, running and recently finished jobs, oldest first, without their reports.
+ *
+ * 4. RETURNS:
+ * - (void) - It sends a JSON response to the client.
+ */
+app.get('/api/analyses', (req: Request, res: Response) => {
+  res.json({
+    status: 'success',
+    data: analysisJobs.list().map((job) => jobView(job, false)),
+  });
+});
+
+/**
+ * 1. FOR:
+ * Defining the job status endpoint (`GET /api/analyses/:id`).
+ *
+ * 2. TAKES:
+ * - `req`: The Express Request object, with the job id in the path.
+ * - `res`: The Express Response object.
+ *
+ * 3. DOES:
+ * - Returns the job's status, phase, timestamps, error and, once it succeeded, its report.
+ * - Returns a 404 error for an unknown (or no longer kept) job.
+ *
+ * 4. RETURNS:
+ * - (void) - It sends a JSON response to the client.
+ */
+app.get('/api/analyses/:id', (req: Request, res: Response) => {
+  const job = analysisJobs.get(String(req.params.id));
+  if (!job) {
+    res.status(404).json({ status: 'error', message: `Unknown analysis job "${req.params.id}".` });
+    return;
+  }
+  res.json({ status: 'success', data: jobView(job, true) });
+});
+
+/**
+ * 1. FOR:
+ * Defining the job cancellation endpoint (`DELETE /api/analyses/:id`).
+ *
+ * 2. TAKES:
+ * - `req`: The Express Request object, with the job id in the path.
+ * - `res`: The Express Response object.
+ *
+ * 3. DOES:
+ * - Cancels a queued job at once; a running job is aborted and turns `cancelled` when its current step stops.
+ * - Returns a 404 error for an unknown job and a 409 error for a job that already finished.
+ *
+ * 4. RETURNS:
+ * - (void) - It sends a JSON response to the client.
+ */
+app.delete('/api/analyses/:id', (req: Request, res: Response) => {
+  const id = String(req.params.id);
+  const job = analysisJobs.get(id);
+  if (!job) {
+    res.status(404).json({ status: 'error', message: `Unknown analysis job "${id}".` });
+    return;
+  }
+  if (!analysisJobs.cancel(id)) {
+    res.status(409).json({ status: 'error', message: `Analysis job "${id}" already ${job.status}.` });
+    return;
+  }
+  res.status(202).json({
+    status: 'success',
+    message: 'Analysis job cancellation requested.',
+    data: jobView(analysisJobs.get(id)!, false),
+  });
+});
+
 // ----------------------------------------------------
 //               SERVER INITIALIZATION
 // ----------------------------------------------------
@@ -247,19 +814,28 @@ app.post('/api/analysis/refresh', async (req: Request, res: Response) => {
  * 3. DOES:
  * - Binds the server to the specified `PORT`.
  * - Logs console messages indicating the server is running.
- * - Triggers an initial `runFullAnalysis()` in the background, so the cache is populated for the first API request.
+ * - Submits an initial analysis job in the background, so the cache is populated for the first API request.
  *
  * 4. RETURNS:
  * - (void) - It starts the node process.
  */
-app.listen(PORT, async () => {
+app.listen(PORT, () => {
   console.log(`\n=================================================`);
   console.log(`Dependency Analyzer API running on port ${PORT}`);
   console.log(`Endpoint: http://localhost:${PORT}/api/analysis`);
+  console.log(`Metrics Endpoint: http://localhost:${PORT}/api/metrics`);
+  console.log(`Graph Endpoint: http://localhost:${PORT}/api/graph?format=dot`);
+  console.log(`Query Endpoint: http://localhost:${PORT}/api/query/dependents?module=<module>`);
+  console.log(`HTML Report: http://localhost:${PORT}/report`);
   console.log(
     `Refresh Endpoint: http://localhost:${PORT}/api/analysis/refresh`
   );
+  console.log(`Jobs Endpoint: http://localhost:${PORT}/api/analyses`);
+
+  console.log(`Allowed project roots: ${allowedRoots.join(', ')}`);
   console.log(`=================================================\n`);
 
-  await runFullAnalysis();
+  resolveAnalysisTarget(undefined, projectRoot, allowedRoots).then((target) =>
+    analysisJobs.submit(target.key, { target, useLlmCache: true })
+  );
 });
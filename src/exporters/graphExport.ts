@@ -0,0 +1,362 @@
+/**
+ * @file graphExport.ts
+ *
+ * 1. FILE PURPOSE
+ * This file turns the dependency graph and the heuristic findings into
+ * diagram and graph-tool formats: Graphviz DOT, Mermaid, GraphML (yEd, Gephi)
+ * and a stable JSON node/edge schema. Edges that lie on a cycle and hub nodes
+ * are marked in every format, so the diagrams show the problems at a glance.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - GraphFormat (Type): The supported output formats.
+ * - GraphLevel (Type): `module` (one node per file) or `layer` (one node per
+ * directory, from the layer graph).
+ * - ExportNode / ExportEdge (Interfaces): One node / edge of the exported graph.
+ * - ExportGraph (Interface): The stable JSON schema (`version`, `level`, `nodes`, `edges`).
+ * - GRAPH_FORMATS (Constant): The accepted format names.
+ * - EXPORT_SCHEMA_VERSION (Constant): Bumped whenever the JSON schema changes.
+ * - CONTENT_TYPES (Constant): The HTTP content type of each format.
+ *
+ * 3. FUNCTIONALITIES
+ * - buildExportGraph(dependencyMap, heuristicResult, level): Builds the
+ * format-independent graph with cycle and hub markers.
+ * - toDot(graph) / toMermaid(graph) / toGraphML(graph) / toJson(graph): The serializers.
+ * - exportGraph(graph, format): Dispatches to the serializer of a format.
+ * - isGraphFormat(value): Checks a user-supplied format name.
+ * - escapeXml(value): A private helper for GraphML attribute and text values.
+ */
+
+import { DependencyMap } from '../core/parser';
+import { HeuristicAnalysisResult } from '../analyzers/heuristicAnalyzer';
+import { getEdgeSymbols, indexEdgeSymbols } from '../analyzers/symbolAnalysis';
+
+export type GraphFormat = 'dot' | 'mermaid' | 'graphml' | 'json';
+
+export type GraphLevel = 'module' | 'layer';
+
+export interface ExportNode {
+  id: string;
+  hub: boolean;
+  inCycle: boolean;
+}
+
+export interface ExportEdge {
+  from: string;
+  to: string;
+  weight: number;
+  cycle: boolean;
+  symbols: string[];
+}
+
+export interface ExportGraph {
+  version: number;
+  level: GraphLevel;
+  nodes: ExportNode[];
+  edges: ExportEdge[];
+}
+
+export const GRAPH_FORMATS: GraphFormat[] = ['dot', 'mermaid', 'graphml', 'json'];
+
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export const CONTENT_TYPES: Record<GraphFormat, string> = {
+  dot: 'text/vnd.graphviz',
+  mermaid: 'text/plain',
+  graphml: 'application/graphml+xml',
+  json: 'application/json',
+};
+
+/**
+ * 1. FOR:
+ * Validating a format name coming from the command line or a query string.
+ *
+ * 2. TAKES:
+ * - value: The raw value.
+ *
+ * 3. DOES:
+ * - Checks it against `GRAPH_FORMATS`.
+ *
+ * 4. RETURNS:
+ * - `true` (narrowing to `GraphFormat`) if the format is supported.
+ */
+export function isGraphFormat(value: unknown): value is GraphFormat {
+  return GRAPH_FORMATS.includes(value as GraphFormat);
+}
+
+/**
+ * 1. FOR:
+ * Building the format-independent graph that every serializer works from.
+ *
+ * 2. TAKES:
+ * - dependencyMap: The file-level dependency graph.
+ * - heuristicResult: The heuristic report, for the cycle, hub and symbol markers.
+ * - level: `module` (default) or `layer`.
+ *
+ * 3. DOES:
+ * - `module`: one node per module and one edge per import. An edge is a cycle
+ * edge when both ends are in the same strongly connected component (every
+ * such edge lies on a cycle); hubs come from `tightlyCoupledModules`, and
+ * each edge carries the symbols crossing it (looked up in an `indexEdgeSymbols` index).
+ * - `layer`: the same, using the layer graph's layers, weighted edges,
+ * components and hub layers.
+ * - Sorts nodes and edges so the output is stable between runs.
+ *
+ * 4. RETURNS:
+ * - An `ExportGraph`.
+ */
+export function buildExportGraph(
+  dependencyMap: DependencyMap,
+  heuristicResult: HeuristicAnalysisResult,
+  level: GraphLevel = 'module'
+): ExportGraph {
+  const layerGraph = heuristicResult.layerGraph;
+
+  const components =
+    level === 'layer'
+      ? layerGraph.stronglyConnectedComponents
+      : heuristicResult.stronglyConnectedComponents;
+  const componentOf = new Map<string, number>();
+  components.forEach((component, index) =>
+    component.members.forEach((member) => componentOf.set(member, index))
+  );
+
+  const hubs = new Set(
+    level === 'layer'
+      ? layerGraph.hubs.map((hub) => hub.layer)
+      : heuristicResult.tightlyCoupledModules.map((hub) => hub.module)
+  );
+
+  const symbolIndex = indexEdgeSymbols(heuristicResult.edgeSymbols);
+  const rawEdges =
+    level === 'layer'
+      ? layerGraph.edges.map((edge) => ({ ...edge, symbols: [] as string[] }))
+      : [...dependencyMap.entries()].flatMap(([from, dependencies]) =>
+          dependencies.map((to) => ({
+            from,
+            to,
+            weight: 1,
+            symbols: getEdgeSymbols(symbolIndex, from, to),
+          }))
+        );
+
+  const edges: ExportEdge[] = rawEdges
+    .map((edge) => ({
+      ...edge,
+      cycle: componentOf.has(edge.from) && componentOf.get(edge.from) === componentOf.get(edge.to),
+    }))
+    .sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+
+  const ids =
+    level === 'layer'
+      ? layerGraph.layers.map((layer) => layer.layer)
+      : [...dependencyMap.keys(), ...[...dependencyMap.values()].flat()];
+
+  const nodes: ExportNode[] = [...new Set(ids)].sort().map((id) => ({
+    id,
+    hub: hubs.has(id),
+    inCycle: componentOf.has(id),
+  }));
+
+  return { version: EXPORT_SCHEMA_VERSION, level, nodes, edges };
+}
+
+/**
+ * 1. FOR:
+ * Serializing the graph as Graphviz DOT.
+ *
+ * 2. TAKES:
+ * - graph: The `ExportGraph`.
+ *
+ * 3. DOES:
+ * - Emits a `digraph` with quoted node ids. Hubs are filled orange and
+ * drawn with a double border; nodes in a cycle get a red outline.
+ * - Cycle edges are red and bold; weighted (layer) edges are labelled with
+ * their weight and drawn thicker as the weight grows.
+ *
+ * 4. RETURNS:
+ * - The DOT source.
+ */
+export function toDot(graph: ExportGraph): string {
+  const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const lines = ['digraph dependencies {', '  rankdir=LR;', '  node [shape=box, fontname="Helvetica"];'];
+
+  for (const node of graph.nodes) {
+    const attributes: string[] = [];
+    if (node.hub) attributes.push('style=filled', 'fillcolor="#ffcc80"', 'peripheries=2');
+    if (node.inCycle) attributes.push('color="#d32f2f"');
+    lines.push(`  ${quote(node.id)}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+  }
+
+  for (const edge of graph.edges) {
+    const attributes: string[] = [];
+    if (edge.cycle) attributes.push('color="#d32f2f"', 'style=bold');
+    if (graph.level === 'layer') {
+      attributes.push(`label="${edge.weight}"`, `penwidth=${Math.min(1 + Math.log2(edge.weight), 6).toFixed(1)}`);
+    }
+    lines.push(
+      `  ${quote(edge.from)} -> ${quote(edge.to)}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`
+    );
+  }
+
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * 1. FOR:
+ * Serializing the graph as a Mermaid flowchart (renders in Markdown on GitHub/GitLab).
+ *
+ * 2. TAKES:
+ * - graph: The `ExportGraph`.
+ *
+ * 3. DOES:
+ * - Gives each node a short id (`n0`, `n1`, ...) with its path as the label,
+ * since Mermaid ids cannot contain `/` or `.`.
+ * - Uses `classDef` styles for hubs and cycle members, and `linkStyle` to
+ * colour cycle edges red. Layer edges are labelled with their weight.
+ *
+ * 4. RETURNS:
+ * - The Mermaid source.
+ */
+export function toMermaid(graph: ExportGraph): string {
+  const ids = new Map(graph.nodes.map((node, index) => [node.id, `n${index}`]));
+  const lines = ['flowchart LR'];
+
+  for (const node of graph.nodes) {
+    lines.push(`  ${ids.get(node.id)}["${node.id.replace(/"/g, '#quot;')}"]`);
+  }
+
+  const cycleLinks: number[] = [];
+  graph.edges.forEach((edge, index) => {
+    const label = graph.level === 'layer' ? `|${edge.weight}|` : '';
+    lines.push(`  ${ids.get(edge.from)} -->${label} ${ids.get(edge.to)}`);
+    if (edge.cycle) cycleLinks.push(index);
+  });
+
+  lines.push('  classDef hub fill:#ffcc80,stroke:#e65100,stroke-width:2px');
+  lines.push('  classDef cycle stroke:#d32f2f,stroke-width:2px');
+
+  const hubIds = graph.nodes.filter((node) => node.hub).map((node) => ids.get(node.id));
+  const cycleIds = graph.nodes.filter((node) => node.inCycle && !node.hub).map((node) => ids.get(node.id));
+  if (hubIds.length > 0) lines.push(`  class ${hubIds.join(',')} hub`);
+  if (cycleIds.length > 0) lines.push(`  class ${cycleIds.join(',')} cycle`);
+  if (cycleLinks.length > 0) {
+    lines.push(`  linkStyle ${cycleLinks.join(',')} stroke:#d32f2f,stroke-width:2px`);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * 1. FOR:
+ * Escaping text for XML attributes and element content.
+ *
+ * 2. TAKES:
+ * - value: The raw text.
+ *
+ * 3. DOES:
+ * - Replaces `&`, `<`, `>`, `"` and `'` with entities.
+ *
+ * 4. RETURNS:
+ * - The escaped text.
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * 1. FOR:
+ * Serializing the graph as GraphML, for yEd and Gephi.
+ *
+ * 2. TAKES:
+ * - graph: The `ExportGraph`.
+ *
+ * 3. DOES:
+ * - Declares typed `<key>`s for the node label, hub and cycle flags and the
+ * edge weight, cycle flag and symbols, and writes one `<node>` / `<edge>`
+ * per entry with its `<data>` values.
+ *
+ * 4. RETURNS:
+ * - The GraphML document.
+ */
+export function toGraphML(graph: ExportGraph): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="hub" for="node" attr.name="hub" attr.type="boolean"/>',
+    '  <key id="inCycle" for="node" attr.name="inCycle" attr.type="boolean"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="int"/>',
+    '  <key id="cycle" for="edge" attr.name="cycle" attr.type="boolean"/>',
+    '  <key id="symbols" for="edge" attr.name="symbols" attr.type="string"/>',
+    `  <graph id="dependencies" edgedefault="directed">`,
+  ];
+
+  for (const node of graph.nodes) {
+    lines.push(`    <node id="${escapeXml(node.id)}">`);
+    lines.push(`      <data key="label">${escapeXml(node.id)}</data>`);
+    lines.push(`      <data key="hub">${node.hub}</data>`);
+    lines.push(`      <data key="inCycle">${node.inCycle}</data>`);
+    lines.push('    </node>');
+  }
+
+  graph.edges.forEach((edge, index) => {
+    lines.push(`    <edge id="e${index}" source="${escapeXml(edge.from)}" target="${escapeXml(edge.to)}">`);
+    lines.push(`      <data key="weight">${edge.weight}</data>`);
+    lines.push(`      <data key="cycle">${edge.cycle}</data>`);
+    lines.push(`      <data key="symbols">${escapeXml(edge.symbols.join(', '))}</data>`);
+    lines.push('    </edge>');
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * 1. FOR:
+ * Serializing the graph in the stable JSON node/edge schema.
+ *
+ * 2. TAKES:
+ * - graph: The `ExportGraph`.
+ *
+ * 3. DOES:
+ * - Pretty-prints the graph; `version` identifies the schema.
+ *
+ * 4. RETURNS:
+ * - The JSON text.
+ */
+export function toJson(graph: ExportGraph): string {
+  return `${JSON.stringify(graph, null, 2)}\n`;
+}
+
+/**
+ * 1. FOR:
+ * Serializing the graph in a chosen format.
+ *
+ * 2. TAKES:
+ * - graph: The `ExportGraph`.
+ * - format: One of `GRAPH_FORMATS`.
+ *
+ * 3. DOES:
+ * - Calls the matching serializer.
+ *
+ * 4. RETURNS:
+ * - The serialized graph.
+ */
+export function exportGraph(graph: ExportGraph, format: GraphFormat): string {
+  switch (format) {
+    case 'dot':
+      return toDot(graph);
+    case 'mermaid':
+      return toMermaid(graph);
+    case 'graphml':
+      return toGraphML(graph);
+    case 'json':
+      return toJson(graph);
+  }
+}
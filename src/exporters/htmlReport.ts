@@ -0,0 +1,412 @@
+/**
+ * @file htmlReport.ts
+ *
+ * 1. FILE PURPOSE
+ * This file renders the analysis as a single, self-contained HTML page: an
+ * interactive SVG dependency graph (zoom, pan, filter by directory, click a
+ * module to highlight its importers and cycles) next to the heuristic and LLM
+ * findings. All styles, scripts and data are inlined, so the page works
+ * offline and can be attached to a ticket or archived as a CI artifact.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - HtmlReportData (Interface): The inputs of the report.
+ * - STYLES (Constant): The inline stylesheet.
+ * - CLIENT_SCRIPT (Constant): The inline script that lays out and renders the
+ * graph and the findings. It is plain ES2015 with no dependencies.
+ *
+ * 3. FUNCTIONALITIES
+ * - renderHtmlReport(data): The main public function. Builds the HTML page.
+ * - escapeHtml(value): A private helper for text placed in the page template.
+ */
+
+import { HeuristicAnalysisResult } from '../analyzers/heuristicAnalyzer';
+import { AnalysisResult as LlmAnalysisResult } from '../analyzers/llmAnalyzer';
+import { buildExportGraph } from './graphExport';
+
+export interface HtmlReportData {
+  title?: string;
+  generatedAt: string;
+  dependencyMap: Record<string, string[]>;
+  heuristicAnalysis: HeuristicAnalysisResult;
+  llmAnalysis: LlmAnalysisResult | null;
+}
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 14px/1.4 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #212121; background: #fafafa; }
+  header { padding: 12px 20px; background: #263238; color: #fff; display: flex; align-items: baseline; gap: 16px; }
+  header h1 { font-size: 18px; margin: 0; }
+  header span { color: #b0bec5; font-size: 12px; }
+  main { display: grid; grid-template-columns: minmax(0, 3fr) minmax(320px, 2fr); gap: 16px; padding: 16px 20px; }
+  section { background: #fff; border: 1px solid #e0e0e0; border-radius: 6px; padding: 12px 16px; }
+  h2 { font-size: 15px; margin: 4px 0 10px; }
+  h3 { font-size: 13px; margin: 12px 0 6px; text-transform: uppercase; color: #546e7a; }
+  .toolbar { display: flex; gap: 8px; align-items: center; margin-bottom: 8px; flex-wrap: wrap; }
+  .toolbar select, .toolbar button { font: inherit; padding: 2px 6px; }
+  .legend { font-size: 12px; color: #616161; }
+  .legend b { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin: 0 4px 0 10px; vertical-align: middle; }
+  svg { width: 100%; height: 560px; border: 1px solid #eceff1; border-radius: 4px; background: #fff; cursor: grab; }
+  svg.panning { cursor: grabbing; }
+  .edge { stroke: #b0bec5; stroke-width: 1; fill: none; }
+  .edge.cycle { stroke: #d32f2f; stroke-width: 1.8; }
+  .node circle { fill: #90caf9; stroke: #1565c0; stroke-width: 1; cursor: pointer; }
+  .node.hub circle { fill: #ffcc80; stroke: #e65100; stroke-width: 2; }
+  .node.in-cycle circle { stroke: #d32f2f; stroke-width: 2; }
+  .node text { font-size: 10px; fill: #37474f; pointer-events: none; }
+  .dimmed { opacity: 0.12; }
+  .edge.importer { stroke: #fb8c00; stroke-width: 2; }
+  .edge.dependency { stroke: #1e88e5; stroke-width: 2; }
+  .node.selected circle { stroke: #000; stroke-width: 3; }
+  .findings { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; }
+  .findings > div { min-width: 0; }
+  ul { margin: 0; padding-left: 18px; }
+  li { margin: 2px 0; word-break: break-word; }
+  code { font-size: 12px; background: #eceff1; padding: 0 3px; border-radius: 3px; }
+  .muted { color: #9e9e9e; }
+  .severity-error { color: #c62828; }
+  .severity-warning { color: #ef6c00; }
+  #details { margin-top: 10px; }
+`;
+
+const CLIENT_SCRIPT = `
+(function () {
+  var data = JSON.parse(document.getElementById('report-data').textContent);
+  var heuristic = data.heuristicAnalysis;
+  var llm = data.llmAnalysis;
+  var SVG_NS = 'http://www.w3.org/2000/svg';
+
+  function esc(value) {
+    return String(value).replace(/[&<>"']/g, function (c) {
+      return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c];
+    });
+  }
+  function list(items, render, empty) {
+    if (!items || items.length === 0) return '<p class="muted">' + esc(empty) + '</p>';
+    return '<ul>' + items.map(function (item) { return '<li>' + render(item) + '</li>'; }).join('') + '</ul>';
+  }
+  function path(items) {
+    return items.map(function (item) { return '<code>' + esc(item) + '</code>'; }).join(' &rarr; ');
+  }
+  function dirname(id) {
+    var index = id.lastIndexOf('/');
+    return index === -1 ? '.' : id.slice(0, index);
+  }
+
+  // ---- Findings, heuristic and LLM side by side ----
+  document.getElementById('heuristic-findings').innerHTML =
+    '<h3>Circular dependencies</h3>' +
+    list(heuristic.circularDependencies, function (c) { return path(c.path); }, 'No circular dependencies found.') +
+    '<h3>Tightly coupled modules</h3>' +
+    list(heuristic.tightlyCoupledModules, function (h) {
+      return '<code>' + esc(h.module) + '</code> &mdash; imported by ' + h.importedBy.length;
+    }, 'No hubs found.') +
+    '<h3>Cycle-breaking plan</h3>' +
+    list([].concat.apply([], heuristic.cycleBreakingPlan.map(function (plan) { return plan.edgesToRemove; })), function (e) {
+      return 'remove ' + path([e.from, e.to]) + ' (breaks ' + e.cyclesBroken + ')';
+    }, 'No cycles to break.') +
+    '<h3>Rule violations</h3>' +
+    list(heuristic.ruleViolations, function (v) {
+      return '<span class="severity-' + esc(v.severity) + '">[' + esc(v.severity) + ']</span> ' +
+        esc(v.rule) + ': ' + path([v.from, v.to]);
+    }, 'No violations.');
+
+  document.getElementById('llm-findings').innerHTML = !llm
+    ? '<p class="muted">The LLM analysis was not available for this run.</p>'
+    : '<h3>Circular dependencies</h3>' +
+      list(llm.circularDependencies, function (c) {
+        return path(c.path) + '<br><span class="muted">' + esc(c.reason) + '</span>';
+      }, 'No circular dependencies found.') +
+      '<h3>Tightly coupled modules</h3>' +
+      list(llm.tightlyCoupledModules, function (h) {
+        return '<code>' + esc(h.module) + '</code><br><span class="muted">' + esc(h.recommendation) + '</span>';
+      }, 'No tightly coupled modules identified.') +
+      '<h3>Refactoring recommendations</h3>' +
+      list(llm.refactoringRecommendations, esc, 'No specific recommendations given.') +
+      ((llm.validationIssues || []).length === 0 ? '' :
+        '<h3>Response issues</h3><p class="muted">Entries that failed validation were left out.</p>' +
+        list(llm.validationIssues, function (i) { return '<code>' + esc(i.path) + '</code> ' + esc(i.message); }, ''));
+
+  // ---- Graph layout: directory-seeded circle, then a force simulation ----
+  var graph = data.graph;
+  var nodes = graph.nodes.map(function (n) { return { id: n.id, hub: n.hub, inCycle: n.inCycle, dir: dirname(n.id), x: 0, y: 0, vx: 0, vy: 0 }; });
+  var byId = {};
+  nodes.forEach(function (n) { byId[n.id] = n; });
+  var edges = graph.edges.filter(function (e) { return byId[e.from] && byId[e.to] && e.from !== e.to; });
+
+  var directories = nodes.map(function (n) { return n.dir; }).filter(function (d, i, all) { return all.indexOf(d) === i; }).sort();
+  nodes.sort(function (a, b) { return a.dir < b.dir ? -1 : a.dir > b.dir ? 1 : 0; });
+  var radius = Math.max(200, nodes.length * 12);
+  nodes.forEach(function (n, i) {
+    var angle = (2 * Math.PI * i) / Math.max(nodes.length, 1);
+    n.x = Math.cos(angle) * radius;
+    n.y = Math.sin(angle) * radius;
+  });
+
+  var iterations = nodes.length > 400 ? 80 : 300;
+  for (var step = 0; step < iterations; step++) {
+    var cooling = 1 - step / iterations;
+    for (var i = 0; i < nodes.length; i++) {
+      for (var j = i + 1; j < nodes.length; j++) {
+        var a = nodes[i], b = nodes[j];
+        var dx = a.x - b.x, dy = a.y - b.y;
+        var dist2 = Math.max(dx * dx + dy * dy, 0.01);
+        var force = 9000 / dist2;
+        var dist = Math.sqrt(dist2);
+        a.vx += (dx / dist) * force; a.vy += (dy / dist) * force;
+        b.vx -= (dx / dist) * force; b.vy -= (dy / dist) * force;
+      }
+    }
+    edges.forEach(function (e) {
+      var s = byId[e.from], t = byId[e.to];
+      var dx = t.x - s.x, dy = t.y - s.y;
+      var dist = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01);
+      var force = (dist - 120) * 0.02;
+      s.vx += (dx / dist) * force; s.vy += (dy / dist) * force;
+      t.vx -= (dx / dist) * force; t.vy -= (dy / dist) * force;
+    });
+    nodes.forEach(function (n) {
+      n.vx -= n.x * 0.005; n.vy -= n.y * 0.005;
+      var speed = Math.sqrt(n.vx * n.vx + n.vy * n.vy);
+      var limit = 30 * cooling + 1;
+      if (speed > limit) { n.vx *= limit / speed; n.vy *= limit / speed; }
+      n.x += n.vx; n.y += n.vy;
+      n.vx *= 0.5; n.vy *= 0.5;
+    });
+  }
+
+  // ---- Rendering ----
+  var svg = document.getElementById('graph');
+  var viewport = document.createElementNS(SVG_NS, 'g');
+  svg.appendChild(viewport);
+
+  var defs = document.createElementNS(SVG_NS, 'defs');
+  defs.innerHTML =
+    '<marker id="arrow" viewBox="0 0 10 10" refX="16" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">' +
+    '<path d="M 0 0 L 10 5 L 0 10 z" fill="#90a4ae"/></marker>';
+  svg.appendChild(defs);
+
+  edges.forEach(function (e) {
+    var line = document.createElementNS(SVG_NS, 'line');
+    line.setAttribute('x1', byId[e.from].x); line.setAttribute('y1', byId[e.from].y);
+    line.setAttribute('x2', byId[e.to].x); line.setAttribute('y2', byId[e.to].y);
+    line.setAttribute('class', 'edge' + (e.cycle ? ' cycle' : ''));
+    line.setAttribute('marker-end', 'url(#arrow)');
+    viewport.appendChild(line);
+    e.element = line;
+  });
+
+  nodes.forEach(function (n) {
+    var group = document.createElementNS(SVG_NS, 'g');
+    group.setAttribute('class', 'node' + (n.hub ? ' hub' : '') + (n.inCycle ? ' in-cycle' : ''));
+    group.setAttribute('transform', 'translate(' + n.x + ',' + n.y + ')');
+    var circle = document.createElementNS(SVG_NS, 'circle');
+    circle.setAttribute('r', n.hub ? 9 : 6);
+    var title = document.createElementNS(SVG_NS, 'title');
+    title.textContent = n.id;
+    circle.appendChild(title);
+    var label = document.createElementNS(SVG_NS, 'text');
+    label.setAttribute('x', 11); label.setAttribute('y', 4);
+    label.textContent = n.id.slice(n.id.lastIndexOf('/') + 1);
+    group.appendChild(circle); group.appendChild(label);
+    group.addEventListener('click', function (event) { event.stopPropagation(); select(n.id); });
+    viewport.appendChild(group);
+    n.element = group;
+  });
+
+  // ---- Zoom and pan ----
+  var view = { x: 0, y: 0, scale: 1 };
+  function applyView() {
+    viewport.setAttribute('transform', 'translate(' + view.x + ',' + view.y + ') scale(' + view.scale + ')');
+  }
+  function fit() {
+    var visible = nodes.filter(function (n) { return !n.hidden; });
+    if (visible.length === 0) return;
+    var xs = visible.map(function (n) { return n.x; }), ys = visible.map(function (n) { return n.y; });
+    var minX = Math.min.apply(null, xs) - 60, maxX = Math.max.apply(null, xs) + 160;
+    var minY = Math.min.apply(null, ys) - 40, maxY = Math.max.apply(null, ys) + 40;
+    var box = svg.getBoundingClientRect();
+    view.scale = Math.min(box.width / (maxX - minX), box.height / (maxY - minY), 2);
+    view.x = (box.width - (maxX + minX) * view.scale) / 2;
+    view.y = (box.height - (maxY + minY) * view.scale) / 2;
+    applyView();
+  }
+  svg.addEventListener('wheel', function (event) {
+    event.preventDefault();
+    var box = svg.getBoundingClientRect();
+    var px = event.clientX - box.left, py = event.clientY - box.top;
+    var factor = event.deltaY < 0 ? 1.15 : 1 / 1.15;
+    view.x = px - (px - view.x) * factor;
+    view.y = py - (py - view.y) * factor;
+    view.scale *= factor;
+    applyView();
+  }, { passive: false });
+  var pan = null;
+  svg.addEventListener('mousedown', function (event) {
+    pan = { x: event.clientX - view.x, y: event.clientY - view.y, moved: false };
+    svg.classList.add('panning');
+  });
+  window.addEventListener('mousemove', function (event) {
+    if (!pan) return;
+    pan.moved = true;
+    view.x = event.clientX - pan.x; view.y = event.clientY - pan.y;
+    applyView();
+  });
+  window.addEventListener('mouseup', function () { svg.classList.remove('panning'); setTimeout(function () { pan = null; }, 0); });
+  svg.addEventListener('click', function () { if (!pan || !pan.moved) select(null); });
+
+  // ---- Directory filter ----
+  var filter = document.getElementById('directory-filter');
+  directories.forEach(function (directory) {
+    var option = document.createElement('option');
+    option.value = directory; option.textContent = directory;
+    filter.appendChild(option);
+  });
+  filter.addEventListener('change', function () {
+    var prefix = filter.value;
+    nodes.forEach(function (n) {
+      n.hidden = prefix !== '' && n.dir !== prefix && n.dir.indexOf(prefix + '/') !== 0;
+      n.element.style.display = n.hidden ? 'none' : '';
+    });
+    edges.forEach(function (e) {
+      e.element.style.display = byId[e.from].hidden || byId[e.to].hidden ? 'none' : '';
+    });
+    select(null);
+    fit();
+  });
+  document.getElementById('fit').addEventListener('click', fit);
+
+  // ---- Selection: importers, dependencies and cycles of one module ----
+  function select(id) {
+    var details = document.getElementById('details');
+    if (!id) {
+      nodes.forEach(function (n) { n.element.classList.remove('dimmed', 'selected'); });
+      edges.forEach(function (e) { e.element.classList.remove('dimmed', 'importer', 'dependency'); });
+      details.innerHTML = '<p class="muted">Click a module to see its importers, dependencies and cycles.</p>';
+      return;
+    }
+    var cycles = heuristic.circularDependencies.filter(function (c) { return c.path.indexOf(id) !== -1; });
+    var cycleEdges = {};
+    var related = {};
+    related[id] = true;
+    cycles.forEach(function (c) {
+      for (var k = 0; k < c.path.length - 1; k++) {
+        cycleEdges[c.path[k] + '\\u0000' + c.path[k + 1]] = true;
+        related[c.path[k]] = true;
+      }
+    });
+    var importers = edges.filter(function (e) { return e.to === id; }).map(function (e) { return e.from; });
+    var dependencies = edges.filter(function (e) { return e.from === id; }).map(function (e) { return e.to; });
+    importers.concat(dependencies).forEach(function (m) { related[m] = true; });
+
+    nodes.forEach(function (n) {
+      n.element.classList.toggle('dimmed', !related[n.id]);
+      n.element.classList.toggle('selected', n.id === id);
+    });
+    edges.forEach(function (e) {
+      var onCycle = cycleEdges[e.from + '\\u0000' + e.to];
+      e.element.classList.toggle('importer', e.to === id && !onCycle);
+      e.element.classList.toggle('dependency', e.from === id && !onCycle);
+      e.element.classList.toggle('dimmed', !onCycle && e.to !== id && e.from !== id);
+    });
+
+    details.innerHTML =
+      '<h3>' + esc(id) + '</h3>' +
+      '<b>Imported by</b>' + list(importers, function (m) { return '<code>' + esc(m) + '</code>'; }, 'No importers.') +
+      '<b>Depends on</b>' + list(dependencies, function (m) { return '<code>' + esc(m) + '</code>'; }, 'No dependencies.') +
+      '<b>Cycles</b>' + list(cycles, function (c) { return path(c.path); }, 'Not part of any cycle.');
+  }
+
+  select(null);
+  fit();
+})();
+`;
+
+/**
+ * 1. FOR:
+ * Escaping text placed in the HTML template.
+ *
+ * 2. TAKES:
+ * - value: The raw text.
+ *
+ * 3. DOES:
+ * - Replaces `&`, `<`, `>`, `"` and `'` with entities.
+ *
+ * 4. RETURNS:
+ * - The escaped text.
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * 1. FOR:
+ * Rendering the interactive HTML report.
+ *
+ * 2. TAKES:
+ * - data: The `HtmlReportData` (dependency map, heuristic report and the LLM
+ * report, or `null` when the LLM analysis was not available).
+ *
+ * 3. DOES:
+ * - Builds the module-level export graph (cycle edges and hubs marked).
+ * - Embeds it with the reports as JSON in a `<script type="application/json">`
+ * tag (`<` escaped, so no value can close the tag), plus the inline styles
+ * and client script. No external asset is referenced.
+ *
+ * 4. RETURNS:
+ * - The complete HTML document.
+ */
+export function renderHtmlReport(data: HtmlReportData): string {
+  const title = data.title ?? 'Dependency Analysis Report';
+  const graph = buildExportGraph(
+    new Map(Object.entries(data.dependencyMap)),
+    data.heuristicAnalysis
+  );
+  const payload = JSON.stringify({
+    graph,
+    heuristicAnalysis: data.heuristicAnalysis,
+    llmAnalysis: data.llmAnalysis,
+  }).replace(/</g, '\\u003c');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(title)}</h1>
+  <span>${graph.nodes.length} modules &middot; ${graph.edges.length} imports &middot; generated ${escapeHtml(data.generatedAt)}</span>
+</header>
+<main>
+  <section>
+    <h2>Dependency Graph</h2>
+    <div class="toolbar">
+      <label>Directory <select id="directory-filter"><option value="">All</option></select></label>
+      <button id="fit" type="button">Fit</button>
+      <span class="legend"><b style="background:#ffcc80"></b>hub<b style="background:#d32f2f"></b>cycle<b style="background:#fb8c00"></b>importer<b style="background:#1e88e5"></b>dependency</span>
+    </div>
+    <svg id="graph" role="img" aria-label="Dependency graph"></svg>
+    <div id="details"></div>
+  </section>
+  <section>
+    <h2>Findings</h2>
+    <div class="findings">
+      <div><h2>Heuristic</h2><div id="heuristic-findings"></div></div>
+      <div><h2>LLM</h2><div id="llm-findings"></div></div>
+    </div>
+  </section>
+</main>
+<script type="application/json" id="report-data">${payload}</script>
+<script>${CLIENT_SCRIPT}</script>
+</body>
+</html>
+`;
+}
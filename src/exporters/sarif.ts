@@ -0,0 +1,202 @@
+/**
+ * @file sarif.ts
+ *
+ * 1. FILE PURPOSE
+ * This file converts the heuristic findings (circular dependencies, hub
+ * modules and architecture rule violations) into a SARIF 2.1.0 log, the
+ * format CI code-scanning tools read to annotate pull requests inline. Every
+ * result points at the import statement responsible for it, using the
+ * positions the parser keeps on each `DependencyEdge`.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - SarifLog (Type): The SARIF document (kept loose; only the fields written here are typed).
+ * - SARIF_SCHEMA / SARIF_VERSION (Constants): The schema URI and version.
+ * - TOOL_NAME (Constant): The `tool.driver.name` reported to CI.
+ * - CYCLE_RULE_ID / HUB_RULE_ID (Constants): The rule ids of the built-in checks.
+ * - SEVERITY_LEVELS (Constant): Maps architecture rule severities to SARIF levels.
+ *
+ * 3. FUNCTIONALITIES
+ * - toSarif(graph, heuristicResult): The main public function. Builds the SARIF log.
+ * - importLocation(edges, from, to): A private helper that builds a SARIF
+ * location for the import of `to` in `from`.
+ */
+
+import { pathToFileURL } from 'url';
+import { DependencyEdge, ProjectGraph } from '../core/parser';
+import { HeuristicAnalysisResult } from '../analyzers/heuristicAnalyzer';
+import { RuleSeverity } from '../analyzers/architectureRules';
+import { cycleKey } from '../analyzers/cycleAnalysis';
+import { edgeKey } from '../analyzers/symbolAnalysis';
+
+export type SarifLog = {
+  $schema: string;
+  version: string;
+  runs: Record<string, unknown>[];
+};
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const SARIF_VERSION = '2.1.0';
+const TOOL_NAME = 'ts-dependency-analysis';
+
+const CYCLE_RULE_ID = 'circular-dependency';
+const HUB_RULE_ID = 'hub-module';
+
+const SEVERITY_LEVELS: Record<RuleSeverity, string> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+};
+
+/**
+ * 1. FOR:
+ * Pointing a SARIF result at an import statement.
+ *
+ * 2. TAKES:
+ * - edges: The first `DependencyEdge` of every `edgeKey`, which carries the import position.
+ * - from: The importing module.
+ * - to: The imported module.
+ * - message: Optional text attached to the location (used for related locations).
+ *
+ * 3. DOES:
+ * - Looks up the first edge `from -> to` and uses its 1-based line and column.
+ * - Falls back to the top of the file when no edge is found.
+ *
+ * 4. RETURNS:
+ * - A SARIF `location` object relative to `%SRCROOT%`.
+ */
+function importLocation(
+  edges: Map<string, DependencyEdge>,
+  from: string,
+  to: string,
+  message?: string
+): Record<string, unknown> {
+  const edge = edges.get(edgeKey(from, to));
+  return {
+    physicalLocation: {
+      artifactLocation: { uri: from, uriBaseId: '%SRCROOT%' },
+      region: { startLine: edge?.line ?? 1, startColumn: edge?.column ?? 1 },
+    },
+    ...(message ? { message: { text: message } } : {}),
+  };
+}
+
+/**
+ * 1. FOR:
+ * Building the SARIF 2.1.0 log of the heuristic findings.
+ *
+ * 2. TAKES:
+ * - graph: The `ProjectGraph` (import positions).
+ * - heuristicResult: The heuristic report.
+ *
+ * 3. DOES:
+ * - Indexes the first edge of every importer/imported pair once, so each
+ * location is a Map lookup.
+ * - Circular dependencies (`error`): one result per cycle, located at the
+ * import of the cycle's first hop, with every other hop as a related location.
+ * - Hub modules (`warning`): one result per hub, located at the top of the
+ * hub, with each importing statement as a related location.
+ * - Rule violations: one result per offending import, with the rule's
+ * severity mapped to a SARIF level and the rule id `architecture/<name>`.
+ * - Declares every rule used in `tool.driver.rules`, and adds a stable
+ * `partialFingerprints` entry so CI can track a finding across commits.
+ *
+ * 4. RETURNS:
+ * - The `SarifLog` object (serialize with `JSON.stringify`).
+ */
+export function toSarif(graph: ProjectGraph, heuristicResult: HeuristicAnalysisResult): SarifLog {
+  const rules: Record<string, unknown>[] = [
+    {
+      id: CYCLE_RULE_ID,
+      name: 'CircularDependency',
+      shortDescription: { text: 'Modules import each other in a cycle.' },
+      defaultConfiguration: { level: 'error' },
+    },
+    {
+      id: HUB_RULE_ID,
+      name: 'HubModule',
+      shortDescription: { text: 'Module is imported by many other modules.' },
+      defaultConfiguration: { level: 'warning' },
+    },
+  ];
+
+  const results: Record<string, unknown>[] = [];
+  const edges = new Map<string, DependencyEdge>();
+  graph.edges.forEach((edge) => {
+    if (!edges.has(edgeKey(edge.from, edge.to))) {
+      edges.set(edgeKey(edge.from, edge.to), edge);
+    }
+  });
+
+  for (const { path } of heuristicResult.circularDependencies) {
+    const hops = path.slice(0, -1).map((from, index) => ({ from, to: path[index + 1] }));
+    results.push({
+      ruleId: CYCLE_RULE_ID,
+      level: 'error',
+      message: { text: `Circular dependency: ${path.join(' -> ')}` },
+      locations: [importLocation(edges, hops[0].from, hops[0].to)],
+      relatedLocations: hops.slice(1).map((hop, index) => ({
+        id: index + 1,
+        ...importLocation(edges, hop.from, hop.to, `${hop.from} imports ${hop.to}`),
+      })),
+      partialFingerprints: { dependencyFinding: `cycle:${cycleKey(path)}` },
+    });
+  }
+
+  for (const hub of heuristicResult.tightlyCoupledModules) {
+    const symbols = hub.importedSymbols.length > 0 ? ` (uses ${hub.importedSymbols.join(', ')})` : '';
+    results.push({
+      ruleId: HUB_RULE_ID,
+      level: 'warning',
+      message: { text: `${hub.module} is imported by ${hub.importedBy.length} modules${symbols}.` },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: hub.module, uriBaseId: '%SRCROOT%' },
+            region: { startLine: 1, startColumn: 1 },
+          },
+        },
+      ],
+      relatedLocations: hub.importedBy.map((importer, index) => ({
+        id: index + 1,
+        ...importLocation(edges, importer, hub.module, `${importer} imports ${hub.module}`),
+      })),
+      partialFingerprints: { dependencyFinding: `hub:${hub.module}` },
+    });
+  }
+
+  const declaredRules = new Set<string>();
+  for (const violation of heuristicResult.ruleViolations) {
+    const ruleId = `architecture/${violation.rule}`;
+    if (!declaredRules.has(ruleId)) {
+      declaredRules.add(ruleId);
+      rules.push({
+        id: ruleId,
+        name: violation.rule,
+        shortDescription: { text: violation.description ?? `Architecture rule "${violation.rule}".` },
+        defaultConfiguration: { level: SEVERITY_LEVELS[violation.severity] },
+      });
+    }
+
+    results.push({
+      ruleId,
+      level: SEVERITY_LEVELS[violation.severity],
+      message: { text: `${violation.from} must not import ${violation.to} (${violation.rule}).` },
+      locations: [importLocation(edges, violation.from, violation.to)],
+      partialFingerprints: {
+        dependencyFinding: `rule:${violation.rule}:${violation.from} -> ${violation.to}`,
+      },
+    });
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: SARIF_VERSION,
+    runs: [
+      {
+        tool: { driver: { name: TOOL_NAME, rules } },
+        originalUriBaseIds: { '%SRCROOT%': { uri: `${pathToFileURL(graph.rootDir).href}/` } },
+        results,
+      },
+    ],
+  };
+}
@@ -1,147 +1,132 @@
 /**
  * @file index.ts
- * 
+ *
  * * 1. FILE PURPOSE
- * This script serves as the **main executable program** that coordinates 
- * the dependency analysis of a TypeScript/JavaScript project. It orchestrates 
- * the entire workflow from loading configuration to generating the final report.
- * 
+ * This script serves as the **main executable program** of the dependency
+ * analyzer. It reads the command line, dispatches to one of the subcommands
+ * (`analyze`, `check`, `graph`, `explain <module>`, `diff <base> [head]`, `cache`, and the graph
+ * queries `dependencies`, `dependents`, `path` and `neighbors`) and turns the outcome into
+ * a documented process exit code, so the tool can gate merges in CI.
+ *
  * * 2. VARIABLES / CONSTANTS
- * - HUB_THRESHOLD (Constant): Defines the minimum number of incoming imports 
- *   required for a module to be flagged as a "hub" (tightly coupled).
- * - dependencyMap: A graph representing all file dependencies 
- *   (Map<string, string[]>) built by the parser.
- * - heuristicResult: The structured object containing findings from the 
- *   **code-based structural analysis** (e.g., circular dependencies).
- * - llmResult: The structured object containing findings from the 
- *   **AI semantic analysis** (Large Language Model-based reasoning).
- * 
+ * - COMMAND_HANDLERS (Constant): Maps each subcommand to its implementation in `cli/commands.ts`.
+ * - Exit codes (see `EXIT_CODES` in `cli/options.ts`):
+ *   - 0: success, no `--fail-on` findings
+ *   - 1: findings matched `--fail-on`
+ *   - 2: invalid command line, or unknown module for `explain` or a graph query
+ *   - 3: the analysis failed (unreadable rules file, failed analyzer, crash)
+ *
  * * 3. FUNCTIONALITIES
- * - main(): The asynchronous function that controls the entire application flow: 
- *   parsing, analysis, and report generation.
- *   This file is executed directly via Node.js: `node dist/index.js`
+ * - main(): The asynchronous function that parses the command line, runs the
+ *   command and returns the exit code.
+ *   This file is executed directly via Node.js: `node dist/index.js [command] [options]`
  */
 
 import * as dotenv from 'dotenv';
-dotenv.config(); 
-
-import { parseDependencies } from './core/parser';
-import { analyzeDependencies as analyzeWithLlm } from './analyzers/llmAnalyzer';
-import { analyzeHeuristically } from './analyzers/heuristicAnalyzer';
-
-const HUB_THRESHOLD = 3;
+dotenv.config();
+
+import { CliCommand, CliOptions, CliUsageError, EXIT_CODES, readCliOptions, USAGE } from './cli/options';
+import {
+  runAnalyzeCommand,
+  runCacheCommand,
+  runCheckCommand,
+  runDiffCommand,
+  runExplainCommand,
+  runGraphCommand,
+  runQueryCommand,
+} from './cli/commands';
+
+const COMMAND_HANDLERS: Record<CliCommand, (options: CliOptions) => Promise<number>> = {
+  analyze: runAnalyzeCommand,
+  check: runCheckCommand,
+  graph: runGraphCommand,
+  explain: runExplainCommand,
+  diff: runDiffCommand,
+  cache: runCacheCommand,
+  dependencies: runQueryCommand,
+  dependents: runQueryCommand,
+  path: runQueryCommand,
+  neighbors: runQueryCommand,
+};
 
 /**
  * 1. FOR:
- * Orchestrates the entire dependency analysis workflow, serving as the application's main entry point after configuration loading.
- * 
+ * Orchestrates a command-line run, serving as the application's main entry point after configuration loading.
+ *
  * * 2. TAKES:
- * - None (It reads configuration and project files directly).
- * 
+ * - None (It reads `process.argv`).
+ *
  * * 3. DOES:
- * - Prints a welcome message and initial separator.
- * - **Step 1:** Calls `parseDependencies()` to build the dependency graph.
- * - **Step 2:** Executes the `analyzeHeuristically()` and `analyzeWithLlm()` analyses in sequence.
- * - **Step 3:** Prints a detailed comparative report, showing results side-by-side and including LLM-based refactoring recommendations.
- * 
+ * - **Step 1:** Reads the command line with `readCliOptions()`; prints `USAGE` for `--help`.
+ * - **Step 2:** When the output is machine-readable (JSON, Markdown or a graph) and goes to stdout,
+ *   routes the analyzers' progress messages to stderr, so stdout only carries the document.
+ * - **Step 3:** Runs the command and returns its exit code.
+ * - Usage errors print the message to stderr and return exit code 2.
+ *
  * * 4. RETURNS:
- * - void (The function prints the final report to the console).
+ * - A `Promise<number>`: the process exit code.
  */
-async function main() {
-  console.log('=======================================');
-  console.log(' TypeScript Dependency Analyzer');
-  console.log('=======================================');
-
-  const dependencyMap = await parseDependencies();
-
-  if (dependencyMap.size === 0) {
-    console.log('No dependencies found or files could not be read.');
-    return;
+async function main(): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = readCliOptions();
   }
-
-  console.log('\nDiscovered Dependency Map:');
-  console.log(Object.fromEntries(dependencyMap));
-  console.log('---------------------------------------\n');
-
-  const heuristicResult = analyzeHeuristically(dependencyMap);
-
-  const llmResult = await analyzeWithLlm(dependencyMap);
-
-  if (!llmResult) {
-    console.log('Failed to get analysis from LLM.');
-    return;
+  catch (err) {
+    if (err instanceof CliUsageError) {
+      console.error(`${err.message}\nRun with --help for usage.`);
+      return EXIT_CODES.usage;
+    }
+    throw err;
   }
 
-  console.log('=================================');
-  console.log('  Comparative Analysis Report  ');
-  console.log('=================================');
-
-  console.log('\n--- Circular Dependencies ---');
-
-  console.log('\n[ Heuristic Analysis ]');
-  if (heuristicResult.circularDependencies.length === 0) {
-    console.log('No circular dependencies found.');
-  } 
-  else {
-    console.log(JSON.stringify(heuristicResult.circularDependencies, null, 2));
+  if (options.help) {
+    process.stdout.write(USAGE);
+    return EXIT_CODES.success;
   }
 
-  console.log('\n[ LLM Analysis ]');
-  if (llmResult.circularDependencies.length === 0) {
-    console.log('No circular dependencies found.');
-  } 
-  else {
-    console.log(JSON.stringify(llmResult.circularDependencies, null, 2));
+  const machineReadable = options.command === 'graph' || options.format !== 'text';
+  if (machineReadable && !options.output) {
+    console.log = (...args: unknown[]) => console.error(...args);
   }
 
-  console.log('\n\n--- Tightly Coupled Modules ---');
-
-  console.log('\n[ Heuristic Analysis ]');
-  if (heuristicResult.tightlyCoupledModules.length === 0) {
-    console.log(`No modules found imported by ${HUB_THRESHOLD} or more files.`);
-  } 
-  else {
-    console.log(JSON.stringify(heuristicResult.tightlyCoupledModules, null, 2));
+  if (options.command === 'analyze' && !machineReadable) {
+    console.log('=======================================');
+    console.log(' TypeScript Dependency Analyzer');
+    console.log('=======================================');
   }
 
-  console.log('\n[ LLM Analysis ]');
-  if (llmResult.tightlyCoupledModules.length === 0) {
-    console.log('No tightly coupled modules identified.');
-  } 
-  else {
-    console.log(JSON.stringify(llmResult.tightlyCoupledModules, null, 2));
+  try {
+    return await COMMAND_HANDLERS[options.command](options);
   }
-
-  console.log('\n\n--- Refactoring Recommendations (LLM Only) ---');
-  if (llmResult.refactoringRecommendations.length === 0) {
-    console.log('No specific recommendations given.');
-  } 
-  else {
-    llmResult.refactoringRecommendations.forEach((rec) => {
-      console.log(`- ${rec}`);
-    });
+  catch (err) {
+    if (err instanceof CliUsageError) {
+      console.error(err.message);
+      return EXIT_CODES.usage;
+    }
+    throw err;
   }
-
-  console.log('\n=======================================');
-  console.log('           Analysis Complete');
-  console.log('=========================================');
 }
 
 /**
  * 1. FOR:
  * The primary execution block to start the application.
- * 
+ *
  * * 2. TAKES:
  * - None.
- * 
+ *
  * * 3. DOES:
- * - Calls the asynchronous `main()` function.
- * - Uses `.catch()` to handle any unhandled exceptions that occur during the execution of `main()`, logging the error and exiting with a failure code (1).
- * 
+ * - Calls the asynchronous `main()` function and sets `process.exitCode` to its result.
+ * - Uses `.catch()` to handle any unhandled exceptions that occur during the execution of `main()`,
+ *   logging the error and exiting with the failure code (3).
+ *
  * * 4. RETURNS:
  * - void (It initiates the main application flow).
  */
-main().catch((err) => {
-  console.error('A fatal error occurred:', err);
-  process.exit(1);
-});
\ No newline at end of file
+main()
+  .then((exitCode) => {
+    process.exitCode = exitCode;
+  })
+  .catch((err) => {
+    console.error('A fatal error occurred:', err);
+    process.exit(EXIT_CODES.error);
+  });
@@ -0,0 +1,116 @@
+/**
+ * @file geminiProvider.ts
+ *
+ * 1. FILE PURPOSE
+ * This file implements the `LlmProvider` interface on top of the Google
+ * Gemini API (`@google/generative-ai`).
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - safetySettings (Array): Disables the content safety filters, as code
+ * analysis is a safe context.
+ *
+ * 3. FUNCTIONALITIES
+ * - createGeminiProvider(config): Builds the Gemini provider.
+ */
+
+import {
+  GoogleGenerativeAI,
+  GenerationConfig,
+  SafetySetting,
+  HarmCategory,
+  HarmBlockThreshold,
+} from '@google/generative-ai';
+import { LlmConfig, LlmProvider, LlmRequest, LlmResponse } from './types';
+
+const safetySettings: SafetySetting[] = [
+  {
+    category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+    threshold: HarmBlockThreshold.BLOCK_NONE,
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+    threshold: HarmBlockThreshold.BLOCK_NONE,
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+    threshold: HarmBlockThreshold.BLOCK_NONE,
+  },
+  {
+    category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+    threshold: HarmBlockThreshold.BLOCK_NONE,
+  },
+];
+
+/**
+ * 1. FOR:
+ * Running the analysis on Gemini.
+ *
+ * 2. TAKES:
+ * - config: The `LlmConfig`; `apiKey` comes from `GEMINI_API_KEY`.
+ *
+ * 3. DOES:
+ * - Throws when no API key is configured.
+ * - `generate` starts a chat whose history holds the system prompt, sends
+ * the user message with the configured model, temperature and token limit
+ * (asking for a JSON response), and throws when the response is blocked.
+ * - Throws as soon as the request's `signal` is aborted. The installed SDK
+ * takes no signal per request, so the HTTP request itself only ends at its
+ * `timeoutMs`; its answer is discarded.
+ *
+ * 4. RETURNS:
+ * - The `LlmProvider`.
+ */
+export function createGeminiProvider(config: LlmConfig): LlmProvider {
+  if (!config.apiKey) {
+    throw new Error('GEMINI_API_KEY is not found. Please create a .env file and add it.');
+  }
+
+  const model = new GoogleGenerativeAI(config.apiKey).getGenerativeModel(
+    { model: config.model },
+    { timeout: config.timeoutMs }
+  );
+
+  const generationConfig: GenerationConfig = {
+    temperature: config.temperature,
+    topK: 1,
+    topP: 1,
+    maxOutputTokens: config.maxOutputTokens,
+    responseMimeType: 'application/json',
+  };
+
+  return {
+    name: 'gemini',
+    model: config.model,
+    async generate(request: LlmRequest): Promise<LlmResponse> {
+      const chat = model.startChat({
+        generationConfig,
+        safetySettings,
+        history: [{ role: 'user', parts: [{ text: request.systemPrompt }] }],
+      });
+
+      const { signal } = request;
+      signal?.throwIfAborted();
+      let onAbort = () => {};
+      const aborted = new Promise<never>((_, reject) => {
+        onAbort = () => reject(signal?.reason);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+
+      let response;
+      try {
+        ({ response } = await Promise.race([chat.sendMessage(request.userMessage), aborted]));
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
+      }
+
+      if (response.promptFeedback?.blockReason) {
+        throw new Error(`LLM response was blocked. Reason: ${response.promptFeedback.blockReason}`);
+      }
+
+      return {
+        text: response.text(),
+        truncated: response.candidates?.[0]?.finishReason === 'MAX_TOKENS',
+      };
+    },
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * @file mockProvider.ts
+ *
+ * 1. FILE PURPOSE
+ * This file implements a deterministic `LlmProvider` that answers from a
+ * fixture file instead of calling a model. It lets the LLM path (prompting,
+ * parsing, reports, the HTML report and the API) be tested and demoed
+ * without network access or an API key, with the same output on every run.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - DEFAULT_FIXTURE_PATH (Constant): The bundled fixture, written for the
+ * sample project in `sample/` (its `src/utils` modules).
+ *
+ * 3. FUNCTIONALITIES
+ * - createMockProvider(config): Builds the fixture-backed provider.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { LlmConfig, LlmProvider, LlmResponse } from './types';
+
+export const DEFAULT_FIXTURE_PATH = path.resolve(__dirname, '..', '..', 'fixtures', 'llm-analysis.json');
+
+/**
+ * 1. FOR:
+ * Answering LLM requests from a fixture.
+ *
+ * 2. TAKES:
+ * - config: The `LlmConfig`; `fixturePath` (`LLM_FIXTURE`) overrides
+ * `DEFAULT_FIXTURE_PATH`. It may list several files, comma-separated.
+ *
+ * 3. DOES:
+ * - `generate` ignores the prompt and returns the fixture file's content
+ * verbatim, so fixtures can also hold malformed answers to exercise the
+ * parsing and error paths. With several files, each call answers with the
+ * next one (the last one repeats), e.g. an invalid answer followed by its
+ * repair. Throws when the file cannot be read.
+ *
+ * 4. RETURNS:
+ * - The `LlmProvider`.
+ */
+export function createMockProvider(config: LlmConfig): LlmProvider {
+  const fixturePaths = (config.fixturePath ?? DEFAULT_FIXTURE_PATH)
+    .split(',')
+    .map((file) => path.resolve(file.trim()));
+  let calls = 0;
+
+  return {
+    name: 'mock',
+    model: config.model,
+    async generate(): Promise<LlmResponse> {
+      const fixturePath = fixturePaths[Math.min(calls++, fixturePaths.length - 1)];
+      console.log(`Answering from LLM fixture ${fixturePath}.`);
+      return { text: await fs.readFile(fixturePath, 'utf-8'), truncated: false };
+    },
+  };
+}
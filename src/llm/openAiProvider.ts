@@ -0,0 +1,90 @@
+/**
+ * @file openAiProvider.ts
+ *
+ * 1. FILE PURPOSE
+ * This file implements the `LlmProvider` interface for any server that
+ * speaks the OpenAI Chat Completions API: OpenAI itself, but also
+ * self-hosted Ollama (`http://localhost:11434/v1`), vLLM or LM Studio, so the
+ * dependency graph never has to leave the machine.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - ChatCompletionResponse (Interface): The part of the response this provider reads.
+ * - DEFAULT_OPENAI_BASE_URL (Constant): Used when `LLM_BASE_URL` is not set.
+ *
+ * 3. FUNCTIONALITIES
+ * - createOpenAiProvider(config): Builds the OpenAI-compatible provider.
+ */
+
+import { LlmConfig, LlmProvider, LlmRequest, LlmResponse } from './types';
+
+interface ChatCompletionResponse {
+  choices?: {
+    message?: { content?: string | null };
+    finish_reason?: string;
+  }[];
+}
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * 1. FOR:
+ * Running the analysis on an OpenAI-compatible server.
+ *
+ * 2. TAKES:
+ * - config: The `LlmConfig`; `baseUrl` defaults to `DEFAULT_OPENAI_BASE_URL`
+ * and `apiKey` (`LLM_API_KEY`) is optional, as local servers need none.
+ *
+ * 3. DOES:
+ * - `generate` POSTs the system prompt and the user message to
+ * `<baseUrl>/chat/completions` with the configured model, temperature and
+ * token limit, asks for a JSON object, and aborts after `timeoutMs` or as
+ * soon as the request's `signal` is aborted.
+ * - Throws on a non-2xx status (with the response body) or an empty answer.
+ *
+ * 4. RETURNS:
+ * - The `LlmProvider`.
+ */
+export function createOpenAiProvider(config: LlmConfig): LlmProvider {
+  const endpoint = `${(config.baseUrl ?? DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: 'openai',
+    model: config.model,
+    async generate(request: LlmRequest): Promise<LlmResponse> {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          temperature: config.temperature,
+          max_tokens: config.maxOutputTokens,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: request.systemPrompt },
+            { role: 'user', content: request.userMessage },
+          ],
+        }),
+        signal: request.signal
+          ? AbortSignal.any([request.signal, AbortSignal.timeout(config.timeoutMs)])
+          : AbortSignal.timeout(config.timeoutMs),
+      });
+
+      if (!response.ok) {
+        throw new Error(`${endpoint} returned ${response.status}: ${await response.text()}`);
+      }
+
+      const [choice] = ((await response.json()) as ChatCompletionResponse).choices ?? [];
+      if (!choice?.message?.content) {
+        throw new Error(`${endpoint} returned no message content.`);
+      }
+
+      return {
+        text: choice.message.content,
+        truncated: choice.finish_reason === 'length',
+      };
+    },
+  };
+}
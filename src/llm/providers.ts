@@ -0,0 +1,140 @@
+/**
+ * @file providers.ts
+ *
+ * 1. FILE PURPOSE
+ * This file reads the LLM settings from the environment and builds the
+ * matching `LlmProvider`. It is the only place that knows which providers
+ * exist, so the analyzer depends on the `LlmProvider` interface alone.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - LLM_PROVIDERS (Constant): The accepted `LLM_PROVIDER` values.
+ * - DEFAULT_MODELS (Constant): The model used by each provider when `LLM_MODEL` is not set.
+ * - DEFAULT_LLM_CONFIG (Constant): The temperature, token limits, timeout and repair attempt defaults.
+ * - PROVIDER_FACTORIES (Constant): Maps each provider to its factory.
+ *
+ * 3. FUNCTIONALITIES
+ * - loadLlmConfig(env): Reads and validates the `LLM_*` variables.
+ * - createLlmProvider(config): Builds the configured provider.
+ * - readNumber(env, name, fallback, min, max): A private helper that validates one numeric variable.
+ */
+
+import * as path from 'path';
+import { LlmConfig, LlmProvider, LlmProviderName } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiProvider } from './openAiProvider';
+import { createMockProvider } from './mockProvider';
+import { DEFAULT_CACHE_DIR, DEFAULT_CACHE_TTL_HOURS } from './resultCache';
+
+export const LLM_PROVIDERS: LlmProviderName[] = ['gemini', 'openai', 'mock'];
+
+export const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+  gemini: 'gemini-2.5-flash-preview-09-2025',
+  openai: 'gpt-4o-mini',
+  mock: 'fixture',
+};
+
+export const DEFAULT_LLM_CONFIG = {
+  temperature: 0.2,
+  maxOutputTokens: 8192,
+  maxInputTokens: 24000,
+  timeoutMs: 120000,
+  repairAttempts: 2,
+};
+
+const PROVIDER_FACTORIES: Record<LlmProviderName, (config: LlmConfig) => LlmProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAiProvider,
+  mock: createMockProvider,
+};
+
+/**
+ * 1. FOR:
+ * Reading one numeric setting.
+ *
+ * 2. TAKES:
+ * - env: The environment.
+ * - name: The variable name.
+ * - fallback: The value used when the variable is not set.
+ * - min / max: The accepted range (inclusive).
+ *
+ * 3. DOES:
+ * - Parses the variable and throws an `Error` naming it when it is not a number in range.
+ *
+ * 4. RETURNS:
+ * - The number.
+ */
+function readNumber(env: NodeJS.ProcessEnv, name: string, fallback: number, min: number, max: number): number {
+  const raw = env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min || value > max) {
+    throw new Error(`${name} must be a number between ${min} and ${max}, got "${raw}".`);
+  }
+  return value;
+}
+
+/**
+ * 1. FOR:
+ * Reading the LLM configuration.
+ *
+ * 2. TAKES:
+ * - env: The environment (default `process.env`, loaded from `.env`).
+ *
+ * 3. DOES:
+ * - Reads `LLM_PROVIDER` (default `gemini`), `LLM_MODEL` (default per
+ * provider), `LLM_TEMPERATURE`, `LLM_MAX_OUTPUT_TOKENS`, `LLM_MAX_INPUT_TOKENS`, `LLM_TIMEOUT_MS`,
+ * `LLM_REPAIR_ATTEMPTS`, `LLM_BASE_URL` and `LLM_FIXTURE`.
+ * - Reads the result cache settings: `LLM_CACHE_DIR` (default
+ * `DEFAULT_CACHE_DIR`) and `LLM_CACHE_TTL_HOURS` (default one week, 0 disables the cache).
+ * - Takes the API key from `GEMINI_API_KEY` for Gemini, and from
+ * `LLM_API_KEY` (or `OPENAI_API_KEY`) for OpenAI-compatible servers.
+ * - Throws an `Error` naming the variable when a value is invalid.
+ *
+ * 4. RETURNS:
+ * - The `LlmConfig`.
+ */
+export function loadLlmConfig(env: NodeJS.ProcessEnv = process.env): LlmConfig {
+  const provider = (env.LLM_PROVIDER?.trim().toLowerCase() || 'gemini') as LlmProviderName;
+  if (!LLM_PROVIDERS.includes(provider)) {
+    throw new Error(`Invalid LLM_PROVIDER "${env.LLM_PROVIDER}". Use one of: ${LLM_PROVIDERS.join(', ')}.`);
+  }
+
+  return {
+    provider,
+    model: env.LLM_MODEL?.trim() || DEFAULT_MODELS[provider],
+    temperature: readNumber(env, 'LLM_TEMPERATURE', DEFAULT_LLM_CONFIG.temperature, 0, 2),
+    maxOutputTokens: Math.floor(
+      readNumber(env, 'LLM_MAX_OUTPUT_TOKENS', DEFAULT_LLM_CONFIG.maxOutputTokens, 1, 1000000)
+    ),
+    maxInputTokens: Math.floor(
+      readNumber(env, 'LLM_MAX_INPUT_TOKENS', DEFAULT_LLM_CONFIG.maxInputTokens, 100, 10000000)
+    ),
+    timeoutMs: Math.floor(readNumber(env, 'LLM_TIMEOUT_MS', DEFAULT_LLM_CONFIG.timeoutMs, 1, 3600000)),
+    repairAttempts: Math.floor(readNumber(env, 'LLM_REPAIR_ATTEMPTS', DEFAULT_LLM_CONFIG.repairAttempts, 0, 5)),
+    apiKey: provider === 'gemini' ? env.GEMINI_API_KEY : env.LLM_API_KEY ?? env.OPENAI_API_KEY,
+    baseUrl: env.LLM_BASE_URL?.trim() || undefined,
+    fixturePath: env.LLM_FIXTURE?.trim() || undefined,
+    cacheDir: path.resolve(env.LLM_CACHE_DIR?.trim() || DEFAULT_CACHE_DIR),
+    cacheTtlHours: readNumber(env, 'LLM_CACHE_TTL_HOURS', DEFAULT_CACHE_TTL_HOURS, 0, 87600),
+  };
+}
+
+/**
+ * 1. FOR:
+ * Building the provider the configuration asks for.
+ *
+ * 2. TAKES:
+ * - config: The `LlmConfig` (default: `loadLlmConfig()`).
+ *
+ * 3. DOES:
+ * - Calls the provider's factory, which throws when a required setting
+ * (e.g. the Gemini API key) is missing.
+ *
+ * 4. RETURNS:
+ * - The `LlmProvider`.
+ */
+export function createLlmProvider(config: LlmConfig = loadLlmConfig()): LlmProvider {
+  return PROVIDER_FACTORIES[config.provider](config);
+}
@@ -0,0 +1,257 @@
+/**
+ * @file resultCache.ts
+ *
+ * 1. FILE PURPOSE
+ * This file stores LLM analysis results on disk so an unchanged graph is not
+ * sent to the model again. Entries are content-addressed: the file name is a
+ * hash of everything that determines the answer (the normalized graph, the
+ * prompt version and the model), so a changed graph or prompt simply misses
+ * and old entries are never served for new input. Entries expire after a TTL.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - CacheEntry (Interface): One stored result and what it was computed from.
+ * - CacheEntryInfo (Interface): A stored entry without its result, for listings.
+ * - DEFAULT_CACHE_DIR (Constant): `node_modules/.cache/ts-dependency-analysis/llm`
+ * in the current directory.
+ * - DEFAULT_CACHE_TTL_HOURS (Constant): How long an entry stays valid (one week).
+ * - ENTRY_FILE_PATTERN / TEMP_FILE_PATTERN (Constants): The names of entry files
+ * (`<sha256>.json`) and of their temporary files (`<sha256>.json.<pid>.tmp`).
+ * Listing and deleting only touch these, so a cache directory that points at
+ * a project never loses other files.
+ *
+ * 3. FUNCTIONALITIES
+ * - hashCacheKey(input): The cache key of a JSON-serializable input.
+ * - readCacheEntry(directory, key, ttlHours): Reads one valid entry.
+ * - writeCacheEntry(directory, entry): Stores one entry.
+ * - listCacheEntries(directory, ttlHours): Lists the stored entries.
+ * - clearCache(directory, olderThanHours): Deletes all entries, or the old ones.
+ * - isExpired(createdAt, ttlHours): A private helper that checks an entry's age.
+ * - readEntryFile(file): A private helper that reads one entry file.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export interface CacheEntry<T> {
+  key: string;
+  createdAt: string;
+  provider: string;
+  model: string;
+  promptVersion: number;
+  modules: number;
+  result: T;
+}
+
+export interface CacheEntryInfo extends Omit<CacheEntry<unknown>, 'result'> {
+  file: string;
+  sizeBytes: number;
+  expired: boolean;
+}
+
+export const DEFAULT_CACHE_DIR = path.join('node_modules', '.cache', 'ts-dependency-analysis', 'llm');
+
+export const DEFAULT_CACHE_TTL_HOURS = 168;
+
+const ENTRY_FILE_PATTERN = /^[0-9a-f]{64}\.json$/;
+
+const TEMP_FILE_PATTERN = /^[0-9a-f]{64}\.json\.\d+\.tmp$/;
+
+/**
+ * 1. FOR:
+ * Naming a cache entry by its content.
+ *
+ * 2. TAKES:
+ * - input: Everything the cached result depends on, already normalized
+ * (sorted), so equal inputs serialize identically.
+ *
+ * 3. DOES:
+ * - Hashes the JSON serialization with SHA-256.
+ *
+ * 4. RETURNS:
+ * - The hex digest.
+ */
+export function hashCacheKey(input: unknown): string {
+  return createHash('sha256').update(JSON.stringify(input)).digest('hex');
+}
+
+/**
+ * 1. FOR:
+ * Checking whether an entry is past its TTL.
+ *
+ * 2. TAKES:
+ * - createdAt: The entry's ISO timestamp.
+ * - ttlHours: The TTL in hours.
+ *
+ * 3. DOES:
+ * - Compares the entry's age with the TTL; an unreadable timestamp counts as expired.
+ *
+ * 4. RETURNS:
+ * - `true` when the entry is expired.
+ */
+function isExpired(createdAt: string, ttlHours: number): boolean {
+  const created = Date.parse(createdAt);
+  return Number.isNaN(created) || Date.now() - created > ttlHours * 3600000;
+}
+
+/**
+ * 1. FOR:
+ * Reading one entry file.
+ *
+ * 2. TAKES:
+ * - file: The absolute path of the entry.
+ *
+ * 3. DOES:
+ * - Reads and parses the file. A missing file is a miss; an unreadable or
+ * malformed one is reported and treated as a miss.
+ *
+ * 4. RETURNS:
+ * - A `Promise` of the entry, or `null`.
+ */
+async function readEntryFile<T>(file: string): Promise<CacheEntry<T> | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(file, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn(`Could not read LLM cache entry ${file}: ${(err as Error).message}`);
+    }
+    return null;
+  }
+
+  try {
+    const entry = JSON.parse(content) as CacheEntry<T>;
+    return typeof entry.key === 'string' && typeof entry.createdAt === 'string' && 'result' in entry
+      ? entry
+      : null;
+  } catch {
+    console.warn(`Ignoring malformed LLM cache entry ${file}.`);
+    return null;
+  }
+}
+
+/**
+ * 1. FOR:
+ * Looking up a cached result.
+ *
+ * 2. TAKES:
+ * - directory: The cache directory.
+ * - key: The entry's `hashCacheKey`.
+ * - ttlHours: The TTL in hours.
+ *
+ * 3. DOES:
+ * - Reads `<key>.json` and ignores it when it is expired.
+ *
+ * 4. RETURNS:
+ * - A `Promise` of the entry, or `null` on a miss.
+ */
+export async function readCacheEntry<T>(directory: string, key: string, ttlHours: number): Promise<CacheEntry<T> | null> {
+  const entry = await readEntryFile<T>(path.resolve(directory, `${key}.json`));
+  return entry && !isExpired(entry.createdAt, ttlHours) ? entry : null;
+}
+
+/**
+ * 1. FOR:
+ * Storing a result.
+ *
+ * 2. TAKES:
+ * - directory: The cache directory (created when missing).
+ * - entry: The `CacheEntry`.
+ *
+ * 3. DOES:
+ * - Writes `<key>.json` through a temporary file and a rename, so a concurrent
+ * reader never sees a half-written entry.
+ *
+ * 4. RETURNS:
+ * - A `Promise` that resolves when the entry is written.
+ */
+export async function writeCacheEntry<T>(directory: string, entry: CacheEntry<T>): Promise<void> {
+  const file = path.resolve(directory, `${entry.key}.json`);
+  const temporary = `${file}.${process.pid}.tmp`;
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(temporary, JSON.stringify(entry, null, 2), 'utf-8');
+  await fs.rename(temporary, file);
+}
+
+/**
+ * 1. FOR:
+ * Inspecting the cache.
+ *
+ * 2. TAKES:
+ * - directory: The cache directory.
+ * - ttlHours: The TTL in hours, to flag expired entries.
+ *
+ * 3. DOES:
+ * - Reads every entry file matching `ENTRY_FILE_PATTERN` (a missing directory
+ * is an empty cache) and drops the results, keeping what they were computed from.
+ *
+ * 4. RETURNS:
+ * - A `Promise` of the `CacheEntryInfo[]`, newest first.
+ */
+export async function listCacheEntries(directory: string, ttlHours: number): Promise<CacheEntryInfo[]> {
+  let files: string[];
+  try {
+    files = (await fs.readdir(directory)).filter((file) => ENTRY_FILE_PATTERN.test(file));
+  } catch {
+    return [];
+  }
+
+  const entries: CacheEntryInfo[] = [];
+  for (const name of files) {
+    const file = path.resolve(directory, name);
+    const entry = await readEntryFile<unknown>(file);
+    if (!entry) {
+      continue;
+    }
+    const { result, ...info } = entry;
+    const { size } = await fs.stat(file);
+    entries.push({ ...info, file, sizeBytes: size, expired: isExpired(entry.createdAt, ttlHours) });
+  }
+
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * 1. FOR:
+ * Emptying or pruning the cache.
+ *
+ * 2. TAKES:
+ * - directory: The cache directory.
+ * - olderThanHours: Optional age; only entries older than this are deleted.
+ * Without it, every entry is deleted.
+ *
+ * 3. DOES:
+ * - Only considers files named like entries (`ENTRY_FILE_PATTERN`); clearing
+ * everything also deletes their temporary files (`TEMP_FILE_PATTERN`) left by
+ * interrupted writes.
+ * - When pruning, keeps any file that cannot be read as an entry: only an
+ * entry whose timestamp shows it expired is deleted.
+ *
+ * 4. RETURNS:
+ * - A `Promise` of the number of deleted entries.
+ */
+export async function clearCache(directory: string, olderThanHours?: number): Promise<number> {
+  let files: string[];
+  try {
+    files = await fs.readdir(directory);
+  } catch {
+    return 0;
+  }
+
+  let deleted = 0;
+  const removable = files.filter(
+    (file) => ENTRY_FILE_PATTERN.test(file) || (olderThanHours === undefined && TEMP_FILE_PATTERN.test(file))
+  );
+  for (const name of removable) {
+    const file = path.resolve(directory, name);
+    if (olderThanHours !== undefined) {
+      const entry = await readEntryFile<unknown>(file);
+      if (!entry || !isExpired(entry.createdAt, olderThanHours)) {
+        continue;
+      }
+    }
+    await fs.rm(file, { force: true });
+    deleted += ENTRY_FILE_PATTERN.test(name) ? 1 : 0;
+  }
+  return deleted;
+}
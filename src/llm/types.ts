@@ -0,0 +1,55 @@
+/**
+ * @file types.ts
+ *
+ * 1. FILE PURPOSE
+ * This file defines the contract between the LLM analysis and the services
+ * that run the model. The analyzer builds the prompt and parses the answer;
+ * a provider only turns a prompt into text. Keeping the two apart lets the
+ * same analysis run on Gemini, on any OpenAI-compatible server (OpenAI,
+ * self-hosted Ollama or vLLM) or on a deterministic fixture.
+ *
+ * 2. VARIABLES / CONSTANTS
+ * - LlmProviderName (Type): The available providers.
+ * - LlmConfig (Interface): The provider and result cache settings read from the environment.
+ * - LlmRequest (Interface): One prompt: the system instructions and the user
+ * message, and optionally a signal that cancels the request.
+ * - LlmResponse (Interface): The raw answer of the model.
+ * - LlmProvider (Interface): The interface every provider implements.
+ *
+ * 3. FUNCTIONALITIES
+ * - None (types only).
+ */
+
+export type LlmProviderName = 'gemini' | 'openai' | 'mock';
+
+export interface LlmConfig {
+  provider: LlmProviderName;
+  model: string;
+  temperature: number;
+  maxOutputTokens: number;
+  maxInputTokens: number;
+  timeoutMs: number;
+  repairAttempts: number;
+  apiKey?: string;
+  baseUrl?: string;
+  fixturePath?: string;
+  cacheDir: string;
+  cacheTtlHours: number;
+}
+
+export interface LlmRequest {
+  systemPrompt: string;
+  userMessage: string;
+  signal?: AbortSignal;
+}
+
+export interface LlmResponse {
+  text: string;
+  truncated: boolean;
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  generate(request: LlmRequest): Promise<LlmResponse>;
+}